@@ -18,7 +18,11 @@
  */
 
 import type { Env } from "../types";
-import { McpClient } from "../mcp/client";
+import { ToolExecutor, toolTimeoutFor } from "../agent/executor";
+import { runAgent } from "../agent/runtime";
+import { describeLLM } from "../llm";
+import { localeFromAcceptLanguage } from "../tools";
+import type { AgentEvent, AgentSink } from "../agent/types";
 import type {
   AgentCard,
   A2AJsonRpcRequest,
@@ -41,7 +45,7 @@ export function buildAgentCard(env: Env, baseUrl: string): AgentCard {
     description:
       "An AI-powered nutritional facts agent that helps users explore food products, " +
       "check nutritional information, compare items, and verify allergens using the " +
-      "OpenFoodFacts database. Powered by GLM-4.7-Flash.",
+      `OpenFoodFacts database. Powered by ${describeLLM(env)}.`,
     url: `${baseUrl}/a2a`,
     version: "1.2.0",
     protocolVersion: "0.3",
@@ -99,6 +103,35 @@ export function buildAgentCard(env: Env, baseUrl: string): AgentCard {
           "Check allergens for barcode 3017620422003",
         ],
       },
+      {
+        id: "healthier-alternatives",
+        name: "Healthier Alternatives",
+        description:
+          "Suggest healthier products from the same category, ranked by Nutri-Score, NOVA group and sugar, salt or saturated fat",
+        tags: ["alternatives", "nutri-score", "nova", "swap"],
+        examples: [
+          "What should I buy instead of 3017620422003?",
+          "A lower-salt alternative to these crisps without milk",
+        ],
+      },
+      {
+        id: "recipe-nutrition",
+        name: "Recipe Nutrition",
+        description:
+          "Calculate per-recipe, per-serving and per-100g nutrition from a list of ingredients and quantities",
+        tags: ["recipe", "nutrition", "servings", "ingredients"],
+        examples: [
+          "Nutrition per serving for 200 g flour, 2 eggs, 250 ml milk — makes 8 pancakes",
+        ],
+      },
+      {
+        id: "additive-info",
+        name: "Food Additive Info",
+        description:
+          "Explain a food additive (E-number): function, vegan / vegetarian status and EFSA safety evaluation",
+        tags: ["additives", "e-numbers", "efsa", "food safety"],
+        examples: ["What is E471 and should I worry about it?"],
+      },
     ],
   };
 }
@@ -247,25 +280,52 @@ export async function handleA2ARequest(
 
 // ── SendMessage handler ────────────────────────────────────────────────────
 
-const SYSTEM_PROMPT = `You are NutriAgent, a friendly and knowledgeable nutrition assistant.
-You help users explore food products, check nutritional facts, compare items,
-and understand food labels using the OpenFoodFacts database.
-
-CAPABILITIES (via tools):
-• Look up any product by barcode (EAN/UPC)
-• Search products by name or keyword
-• Browse products by category
-• Compare nutritional profiles across products
-• Check allergens and traces for dietary restrictions
-
-GUIDELINES:
-• Always use the tools to get real data — never make up nutritional values.
-• Present nutrient data in a clear, readable format.
-• Explain Nutri-Score (A-E), NOVA group (1-4), and Eco-Score when relevant.
-• If a product is not found, suggest alternative searches.
-• Be concise but thorough. Use tables when comparing products.
-• When listing nutrients use per-100g values with units.
-• Proactively warn about allergens when they appear in results.`;
+/**
+ * A2A task updater sink — mirrors runtime progress onto the stored task so
+ * `GetTask` reflects the current state while the turn is still running.
+ */
+function taskSink(taskId: string, contextId: string): AgentSink {
+  const update = (status: Task["status"], artifacts?: Task["artifacts"]) => {
+    const task: Task = { id: taskId, contextId, status };
+    if (artifacts) task.artifacts = artifacts;
+    taskStore.set(taskId, task);
+  };
+
+  const agentMessage = (text: string): Message => ({
+    role: "agent",
+    parts: [{ text }],
+    messageId: crypto.randomUUID(),
+  });
+
+  return {
+    emit(event: AgentEvent) {
+      const timestamp = new Date().toISOString();
+      switch (event.type) {
+        case "pipeline":
+          if (event.step !== "done") {
+            update({ state: "working", message: agentMessage(event.detail), timestamp });
+          }
+          break;
+        case "final":
+          update({ state: "completed", timestamp }, [
+            {
+              artifactId: crypto.randomUUID(),
+              name: "response",
+              parts: [{ text: event.content }],
+            },
+          ]);
+          break;
+        case "error":
+          update({
+            state: "failed" as TaskState,
+            message: agentMessage(`Error: ${event.message}`),
+            timestamp,
+          });
+          break;
+      }
+    },
+  };
+}
 
 async function handleSendMessage(
   params: SendMessageParams,
@@ -287,112 +347,24 @@ async function handleSendMessage(
   const contextId = userMessage.contextId ?? crypto.randomUUID();
   const baseUrl = new URL(request.url).origin;
 
-  const task: Task = {
+  taskStore.set(taskId, {
     id: taskId,
     contextId,
     status: {
       state: "working",
       timestamp: new Date().toISOString(),
     },
-  };
-  taskStore.set(taskId, task);
-
-  try {
-    // Build MCP client pointing at our own MCP server
-    const mcpUrl = `${baseUrl}/mcp`;
-    const mcpClient = new McpClient(mcpUrl, env.MCP_API_KEY);
-
-    // Get available tools from MCP server
-    const mcpTools = await mcpClient.listTools();
-
-    // Convert MCP tools to OpenAI function-calling format for the LLM
-    const llmTools = mcpTools.map((t) => ({
-      type: "function" as const,
-      function: {
-        name: t.name,
-        description: t.description,
-        parameters: t.inputSchema,
-      },
-    }));
-
-    // Chat messages for LLM
-    const messages = [
-      { role: "system" as const, content: SYSTEM_PROMPT },
-      { role: "user" as const, content: userText },
-    ];
-
-    // Call LLM with tool-use loop
-    const apiKey = env.GLM_API_KEY;
-    const baseUrlApi = env.GLM_BASE_URL ?? "https://api.z.ai/api/paas/v4";
-    const model = env.GLM_MODEL ?? "GLM-4.7-Flash";
-
-    let assistantMsg = await callLLM(baseUrlApi, apiKey, model, messages, llmTools);
-    let iterations = 8;
-
-    while (assistantMsg.tool_calls && assistantMsg.tool_calls.length > 0 && iterations-- > 0) {
-      messages.push(assistantMsg as any);
-
-      for (const tc of assistantMsg.tool_calls) {
-        let result: string;
-        try {
-          const args = JSON.parse(tc.function.arguments);
-          result = await mcpClient.callTool(tc.function.name, args);
-        } catch (err) {
-          result = JSON.stringify({ error: String(err) });
-        }
-
-        messages.push({
-          role: "tool" as const,
-          tool_call_id: tc.id,
-          content: result,
-        } as any);
-      }
-
-      assistantMsg = await callLLM(baseUrlApi, apiKey, model, messages, llmTools);
-    }
-
-    const responseText = assistantMsg.content ?? "";
-
-    // Update task to completed
-    const completedTask: Task = {
-      id: taskId,
-      contextId,
-      status: {
-        state: "completed",
-        timestamp: new Date().toISOString(),
-      },
-      artifacts: [
-        {
-          artifactId: crypto.randomUUID(),
-          name: "response",
-          parts: [{ text: responseText }],
-        },
-      ],
-    };
+  });
 
-    taskStore.set(taskId, completedTask);
-    return { task: completedTask };
-  } catch (err) {
-    // Update task to failed
-    const failedTask: Task = {
-      id: taskId,
-      contextId,
-      status: {
-        state: "failed" as TaskState,
-        message: {
-          role: "agent",
-          parts: [
-            { text: `Error: ${err instanceof Error ? err.message : String(err)}` },
-          ],
-          messageId: crypto.randomUUID(),
-        },
-        timestamp: new Date().toISOString(),
-      },
-    };
+  // Run the shared agent loop with tools from our own MCP server
+  await runAgent([{ role: "user", content: userText }], {
+    env,
+    tools: new ToolExecutor(`${baseUrl}/mcp`, env.MCP_API_KEY, toolTimeoutFor(env)),
+    sink: taskSink(taskId, contextId),
+    locale: localeFromAcceptLanguage(request.headers.get("Accept-Language")),
+  });
 
-    taskStore.set(taskId, failedTask);
-    return { task: failedTask };
-  }
+  return { task: taskStore.get(taskId)! };
 }
 
 // ── GetTask handler ────────────────────────────────────────────────────────
@@ -404,51 +376,3 @@ function handleGetTask(params: GetTaskParams): Task {
   }
   return task;
 }
-
-// ── LLM helper (same as agent but standalone) ──────────────────────────────
-
-interface LLMMessage {
-  role: string;
-  content?: string;
-  tool_call_id?: string;
-  tool_calls?: { id: string; type: string; function: { name: string; arguments: string } }[];
-}
-
-async function callLLM(
-  baseUrl: string,
-  apiKey: string,
-  model: string,
-  messages: LLMMessage[],
-  tools: unknown[]
-): Promise<LLMMessage> {
-  const res = await fetch(`${baseUrl}/chat/completions`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      tools,
-      tool_choice: "auto",
-      temperature: 0.4,
-      max_tokens: 2048,
-    }),
-  });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`GLM API ${res.status}: ${text}`);
-  }
-
-  const data = (await res.json()) as {
-    choices: { message: LLMMessage & { reasoning_content?: string } }[];
-  };
-
-  const msg = data.choices[0].message;
-  if (!msg.content && msg.reasoning_content) {
-    msg.content = msg.reasoning_content;
-  }
-  return msg;
-}
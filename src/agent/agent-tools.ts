@@ -0,0 +1,28 @@
+/**
+ * Agent-scoped tools — tools that read or change per-user agent storage.
+ *
+ * @developer Eduardo Arana
+ *
+ * These tools are listed by the MCP server like any other, but their state
+ * lives in the user's NutriAgent instance. The MCP server forwards calls
+ * to the instance named by the `X-Agent-Instance` header (`POST /tools/:name`),
+ * and the agent's ToolExecutor calls `dispatchAgentTool()` directly when the
+ * MCP server is unreachable. Either way, arguments are validated against
+ * the tool's input schema and the call runs the handler declared with it in
+ * the tool registry (`src/tools`).
+ */
+
+import { findTool, validateArguments, type AgentToolContext } from "../tools";
+
+export type { AgentToolContext };
+
+export async function dispatchAgentTool(
+  name: string,
+  args: Record<string, unknown>,
+  ctx: AgentToolContext,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const tool = findTool(name);
+  if (tool?.scope !== "agent") throw new Error(`Unknown agent tool: ${name}`);
+  return tool.handler(validateArguments(tool, args), ctx, signal);
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from "vitest";
+import type { LLMProvider, LLMRequest } from "../llm";
+import type { Env } from "../types";
+import { ContextManager, estimateTokens, tokenBudgetFor } from "./context";
+import type { ConversationStore } from "./conversations";
+import type { ChatMessage } from "./types";
+
+/** `turns` question / answer pairs of about 100 tokens each. */
+function history(turns: number): ChatMessage[] {
+  return Array.from({ length: turns }, (_, i): ChatMessage[] => [
+    { role: "user", content: `question ${i} `.padEnd(200, "?") },
+    { role: "assistant", content: `answer ${i} `.padEnd(200, ".") },
+  ]).flat();
+}
+
+function store(summary: { text: string; count: number } | null = null) {
+  return {
+    getSummary: vi.fn(() => summary),
+    setSummary: vi.fn(),
+  };
+}
+
+function llm(complete: (request: LLMRequest) => Promise<string>): LLMProvider {
+  return {
+    name: "test",
+    model: "test-model",
+    complete: async (request) => ({
+      message: { role: "assistant", content: await complete(request) },
+      provider: "test",
+    }),
+  };
+}
+
+const manager = (conversations: ReturnType<typeof store>, provider: LLMProvider, budget: number) =>
+  new ContextManager(conversations as unknown as ConversationStore, provider, budget);
+
+describe("tokenBudgetFor", () => {
+  it("prefers an override for the model, then the wildcard, then the table", () => {
+    const env = { CONTEXT_TOKEN_BUDGETS: '{"glm-4.7-flash": 24000, "*": 12000}' } as Env;
+
+    expect(tokenBudgetFor("GLM-4.7-Flash", env)).toBe(24_000);
+    expect(tokenBudgetFor("claude-sonnet-4-5", env)).toBe(12_000);
+    expect(tokenBudgetFor("claude-sonnet-4-5", {} as Env)).toBe(64_000);
+    expect(tokenBudgetFor("unknown", {} as Env)).toBe(16_000);
+  });
+});
+
+describe("ContextManager.prepare", () => {
+  it("sends a history that fits the budget as it is", async () => {
+    const conversations = store();
+    const summarise = vi.fn(async () => "summary");
+    const messages = history(3);
+
+    const prepared = await manager(conversations, llm(summarise), 10_000).prepare("c1", messages);
+    expect(prepared.messages).toEqual(messages);
+    expect(summarise).not.toHaveBeenCalled();
+  });
+
+  it("condenses the oldest whole turns and keeps the recent ones verbatim", async () => {
+    const conversations = store();
+    const messages = history(10);
+
+    const prepared = await manager(conversations, llm(async () => "the summary"), 500).prepare("c1", messages);
+    expect(prepared.summary).toBe("the summary");
+    expect(prepared.messages[0].role).toBe("user");
+    expect(estimateTokens(prepared.messages)).toBeLessThanOrEqual(500 * 0.6);
+    expect(conversations.setSummary).toHaveBeenCalledWith(
+      "c1",
+      "the summary",
+      messages.length - prepared.messages.length
+    );
+  });
+
+  it("only considers messages after the ones already summarised", async () => {
+    const conversations = store({ text: "earlier", count: 16 });
+    const messages = history(10);
+
+    const prepared = await manager(conversations, llm(async () => "unused"), 500).prepare("c1", messages);
+    expect(prepared).toEqual({ messages: messages.slice(16), summary: "earlier" });
+  });
+
+  it("falls back to an extractive summary when the summariser fails", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const conversations = store();
+
+    const prepared = await manager(
+      conversations,
+      llm(async () => {
+        throw new Error("provider down");
+      }),
+      500
+    ).prepare("c1", history(10));
+    expect(prepared.summary).toContain("• User asked: question 0");
+    expect(conversations.setSummary).toHaveBeenCalled();
+  });
+
+  it("does not store the stand-in summary when the turn is stopped", async () => {
+    const conversations = store();
+    const controller = new AbortController();
+    const summariser = llm(
+      ({ signal }) =>
+        new Promise((_, reject) => {
+          signal!.addEventListener("abort", () => reject(signal!.reason));
+          controller.abort(new Error("stopped"));
+        })
+    );
+
+    const prepared = await manager(conversations, summariser, 500).prepare("c1", history(10), controller.signal);
+    expect(prepared.summary).toContain("• User asked: question 0");
+    expect(conversations.setSummary).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Context window manager — rolling summarisation of long conversations.
+ *
+ * @developer Eduardo Arana
+ *
+ * Before each turn the stored history is measured against a per-model token
+ * budget. When it no longer fits, the oldest whole turns (user message plus
+ * the assistant / tool messages that followed it, including bulky tool JSON)
+ * are condensed into a running summary kept on the conversation row. The
+ * most recent turns are always sent verbatim.
+ *
+ * Budgets are conservative *history* budgets, not the models' hard limits:
+ * they bound cost and latency as well as context size. Override them with the
+ * `CONTEXT_TOKEN_BUDGETS` var, a JSON object keyed by model (or `*`), e.g.
+ *   CONTEXT_TOKEN_BUDGETS = '{"GLM-4.7-Flash": 24000, "*": 12000}'
+ */
+
+import type { Env } from "../types";
+import type { LLMProvider } from "../llm";
+import type { ConversationStore } from "./conversations";
+import type { ChatMessage } from "./types";
+
+// ── budgets ────────────────────────────────────────────────────────────────
+
+const MODEL_TOKEN_BUDGETS: Record<string, number> = {
+  "glm-4.7-flash": 32_000,
+  "glm-4.7": 64_000,
+  "claude-sonnet-4-5": 64_000,
+  "@cf/meta/llama-3.3-70b-instruct-fp8-fast": 16_000,
+};
+
+const DEFAULT_TOKEN_BUDGET = 16_000;
+
+/** Share of the budget the verbatim recent turns may use; the rest is headroom. */
+const RECENT_SHARE = 0.6;
+
+/** Tool results are clipped to this many characters in the summariser input. */
+const TOOL_RESULT_CLIP = 600;
+
+/** Resolve the history token budget for `model` (env override → table → default). */
+export function tokenBudgetFor(model: string, env: Env): number {
+  if (env.CONTEXT_TOKEN_BUDGETS) {
+    try {
+      const overrides = JSON.parse(env.CONTEXT_TOKEN_BUDGETS) as Record<string, number>;
+      const match = Object.entries(overrides).find(
+        ([key]) => key.toLowerCase() === model.toLowerCase()
+      );
+      if (match) return match[1];
+      if (overrides["*"]) return overrides["*"];
+    } catch {
+      console.warn("[context] CONTEXT_TOKEN_BUDGETS is not valid JSON — using defaults");
+    }
+  }
+  return MODEL_TOKEN_BUDGETS[model.toLowerCase()] ?? DEFAULT_TOKEN_BUDGET;
+}
+
+// ── token estimation ───────────────────────────────────────────────────────
+
+/** Rough token count (~4 characters per token) — good enough for budgeting. */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, m) => {
+    const calls = m.tool_calls
+      ? m.tool_calls.reduce((n, tc) => n + estimateTextTokens(tc.function.name + tc.function.arguments), 0)
+      : 0;
+    // ~4 tokens of per-message framing (role, separators)
+    return sum + 4 + estimateTextTokens(m.content ?? "") + calls;
+  }, 0);
+}
+
+/** Indices at which a turn (a user message and what followed it) starts. */
+function turnStarts(messages: ChatMessage[]): number[] {
+  const starts = messages.flatMap((m, i) => (m.role === "user" ? [i] : []));
+  return starts[0] === 0 ? starts : [0, ...starts];
+}
+
+// ── summariser ─────────────────────────────────────────────────────────────
+
+const SUMMARY_PROMPT = `You maintain the running summary of a conversation between a user and NutriAgent,
+a nutrition assistant backed by OpenFoodFacts tools.
+
+Merge the existing summary with the new turns into ONE concise summary (max ~250 words).
+Keep: the user's goals, dietary constraints and preferences; products discussed with
+their barcodes and the key nutrient values / Nutri-Score / NOVA / allergens found;
+conclusions and open questions. Drop greetings, formatting and raw JSON.
+Reply with the summary text only.`;
+
+/** Flatten turns into a compact transcript, clipping tool payloads. */
+function toTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map((m) => {
+      switch (m.role) {
+        case "user":
+          return `User: ${m.content}`;
+        case "assistant": {
+          const calls = (m.tool_calls ?? [])
+            .map((tc) => `Assistant called ${tc.function.name}(${tc.function.arguments})`)
+            .join("\n");
+          return [m.content && `Assistant: ${m.content}`, calls].filter(Boolean).join("\n");
+        }
+        case "tool":
+          return `Tool result: ${m.content.length > TOOL_RESULT_CLIP ? `${m.content.slice(0, TOOL_RESULT_CLIP)}…` : m.content}`;
+        default:
+          return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Summary used when the LLM summariser is unavailable: questions + answer openings. */
+function extractiveSummary(previous: string | undefined, messages: ChatMessage[]): string {
+  const lines = messages.flatMap((m) => {
+    if (m.role === "user") return [`• User asked: ${m.content.slice(0, 200)}`];
+    if (m.role === "assistant" && m.content && !m.tool_calls) {
+      return [`  Agent answered: ${m.content.replace(/\s+/g, " ").slice(0, 200)}…`];
+    }
+    return [];
+  });
+  return [previous, ...lines].filter(Boolean).join("\n");
+}
+
+// ── manager ────────────────────────────────────────────────────────────────
+
+export interface PreparedContext {
+  /** Verbatim recent messages to send (excludes condensed turns). */
+  messages: ChatMessage[];
+  /** Running summary of everything older, if any. */
+  summary?: string;
+}
+
+export class ContextManager {
+  private store: ConversationStore;
+  private llm: LLMProvider;
+  private budget: number;
+
+  constructor(store: ConversationStore, llm: LLMProvider, budget: number) {
+    this.store = store;
+    this.llm = llm;
+    this.budget = budget;
+  }
+
+  /**
+   * Fit a conversation's stored history into the budget, condensing the
+   * oldest turns into the running summary when necessary. Aborting `signal`
+   * cancels the summarisation request: the extractive summary stands in for
+   * this turn only and is not stored, so the next turn summarises properly.
+   */
+  async prepare(
+    conversationId: string,
+    stored: ChatMessage[],
+    signal?: AbortSignal
+  ): Promise<PreparedContext> {
+    const previous = this.store.getSummary(conversationId);
+    let summary = previous?.text;
+    const offset = previous?.count ?? 0;
+    const pending = stored.slice(offset);
+
+    const used = estimateTokens(pending) + estimateTextTokens(summary ?? "");
+    if (used <= this.budget) return { messages: pending, summary };
+
+    // keep the newest whole turns that fit in the recent share (at least one)
+    const starts = turnStarts(pending);
+    const recentBudget = this.budget * RECENT_SHARE;
+    let cutoff = starts[starts.length - 1];
+    for (let i = starts.length - 2; i >= 0; i--) {
+      if (estimateTokens(pending.slice(starts[i])) > recentBudget) break;
+      cutoff = starts[i];
+    }
+    if (cutoff === 0) return { messages: pending, summary };
+
+    const condensed = pending.slice(0, cutoff);
+    summary = await this.summarise(summary, condensed, signal);
+    if (!signal?.aborted) this.store.setSummary(conversationId, summary, offset + cutoff);
+
+    return { messages: pending.slice(cutoff), summary };
+  }
+
+  private async summarise(
+    previous: string | undefined,
+    messages: ChatMessage[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const input = [
+      previous ? `EXISTING SUMMARY:\n${previous}` : "EXISTING SUMMARY: (none)",
+      `NEW TURNS:\n${toTranscript(messages)}`,
+    ].join("\n\n");
+
+    try {
+      const { message, reasoning } = await this.llm.complete({
+        system: SUMMARY_PROMPT,
+        messages: [{ role: "user", content: input }],
+        tools: [],
+        signal,
+      });
+      const text = (message.content || reasoning || "").trim();
+      if (text) return text;
+    } catch (err) {
+      if (!signal?.aborted) console.warn("[context] summariser failed, using extractive summary:", err);
+    }
+    return extractiveSummary(previous, messages);
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Conversation store — named chat histories in the Durable Object's SQLite.
+ *
+ * @developer Eduardo Arana
+ *
+ * Each NutriAgent instance keeps any number of conversations. Metadata lives
+ * in `conversations`, turns (including tool calls / results) in
+ * `conversation_messages`, ordered by an autoincrement id. The rolling
+ * context summary (see `./context`) is kept on the conversation row.
+ */
+
+import type { ChatMessage, SqlFn } from "./types";
+
+/** Title given to conversations until the first user message names them. */
+export const DEFAULT_TITLE = "New chat";
+
+const MAX_TITLE_LENGTH = 60;
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messageCount: number;
+}
+
+type ConversationRow = {
+  id: string;
+  title: string;
+  created_at: number;
+  updated_at: number;
+  message_count: number;
+};
+
+type MessageRow = {
+  role: ChatMessage["role"];
+  content: string;
+  tool_call_id: string | null;
+  tool_calls: string | null;
+  cancelled: number;
+};
+
+function toSummary(row: ConversationRow): ConversationSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messageCount: row.message_count,
+  };
+}
+
+/** Derive a short title from the opening user message. */
+function titleFrom(text: string): string {
+  const oneLine = text.replace(/\s+/g, " ").trim();
+  return oneLine.length > MAX_TITLE_LENGTH
+    ? `${oneLine.slice(0, MAX_TITLE_LENGTH - 1)}…`
+    : oneLine || DEFAULT_TITLE;
+}
+
+export class ConversationStore {
+  private sql: SqlFn;
+
+  constructor(sql: SqlFn) {
+    this.sql = sql;
+    this.sql`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY NOT NULL,
+        title TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        summary TEXT,
+        summarized_count INTEGER NOT NULL DEFAULT 0
+      )
+    `;
+    this.sql`
+      CREATE TABLE IF NOT EXISTS conversation_messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        tool_call_id TEXT,
+        tool_calls TEXT,
+        cancelled INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      )
+    `;
+    this.sql`
+      CREATE INDEX IF NOT EXISTS idx_conversation_messages_conv
+        ON conversation_messages (conversation_id, id)
+    `;
+  }
+
+  // ── conversations ─────────────────────────────────────────────────────────
+
+  /** All conversations, most recently active first. */
+  list(): ConversationSummary[] {
+    return this.sql<ConversationRow>`
+      SELECT c.id, c.title, c.created_at, c.updated_at,
+             (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) AS message_count
+      FROM conversations c
+      ORDER BY c.updated_at DESC
+    `.map(toSummary);
+  }
+
+  get(id: string): ConversationSummary | null {
+    const [row] = this.sql<ConversationRow>`
+      SELECT c.id, c.title, c.created_at, c.updated_at,
+             (SELECT COUNT(*) FROM conversation_messages m WHERE m.conversation_id = c.id) AS message_count
+      FROM conversations c
+      WHERE c.id = ${id}
+    `;
+    return row ? toSummary(row) : null;
+  }
+
+  create(title?: string, id: string = crypto.randomUUID()): ConversationSummary {
+    const now = Date.now();
+    const name = title?.trim() ? titleFrom(title) : DEFAULT_TITLE;
+    this.sql`
+      INSERT INTO conversations (id, title, created_at, updated_at)
+      VALUES (${id}, ${name}, ${now}, ${now})
+    `;
+    return { id, title: name, createdAt: now, updatedAt: now, messageCount: 0 };
+  }
+
+  /** Return the conversation with `id`, creating it if it does not exist. */
+  ensure(id: string): ConversationSummary {
+    return this.get(id) ?? this.create(undefined, id);
+  }
+
+  rename(id: string, title: string): ConversationSummary | null {
+    if (!this.get(id)) return null;
+    this.sql`UPDATE conversations SET title = ${titleFrom(title)} WHERE id = ${id}`;
+    return this.get(id);
+  }
+
+  delete(id: string): boolean {
+    if (!this.get(id)) return false;
+    this.sql`DELETE FROM conversation_messages WHERE conversation_id = ${id}`;
+    this.sql`DELETE FROM conversations WHERE id = ${id}`;
+    return true;
+  }
+
+  /** Clear a conversation's history (and its summary), keeping id and title. */
+  reset(id: string): ConversationSummary | null {
+    if (!this.get(id)) return null;
+    this.sql`DELETE FROM conversation_messages WHERE conversation_id = ${id}`;
+    this.sql`
+      UPDATE conversations SET updated_at = ${Date.now()}, summary = NULL, summarized_count = 0
+      WHERE id = ${id}
+    `;
+    return this.get(id);
+  }
+
+  // ── rolling summary ───────────────────────────────────────────────────────
+
+  /** Summary of the first `count` stored messages, if any were condensed. */
+  getSummary(id: string): { text: string; count: number } | null {
+    const [row] = this.sql<{ summary: string | null; summarized_count: number }>`
+      SELECT summary, summarized_count FROM conversations WHERE id = ${id}
+    `;
+    return row?.summary ? { text: row.summary, count: row.summarized_count } : null;
+  }
+
+  setSummary(id: string, text: string, count: number): void {
+    this.sql`
+      UPDATE conversations SET summary = ${text}, summarized_count = ${count}
+      WHERE id = ${id}
+    `;
+  }
+
+  // ── messages ──────────────────────────────────────────────────────────────
+
+  messages(id: string): ChatMessage[] {
+    return this.sql<MessageRow>`
+      SELECT role, content, tool_call_id, tool_calls, cancelled
+      FROM conversation_messages
+      WHERE conversation_id = ${id}
+      ORDER BY id
+    `.map((row) => {
+      const msg: ChatMessage = { role: row.role, content: row.content };
+      if (row.tool_call_id) msg.tool_call_id = row.tool_call_id;
+      if (row.tool_calls) msg.tool_calls = JSON.parse(row.tool_calls);
+      if (row.cancelled) msg.cancelled = true;
+      return msg;
+    });
+  }
+
+  /**
+   * Append turns to a conversation (created on demand). A conversation still
+   * carrying the default title is named after its first user message.
+   */
+  append(id: string, messages: ChatMessage[]): void {
+    const conversation = this.ensure(id);
+    const now = Date.now();
+
+    for (const m of messages) {
+      this.sql`
+        INSERT INTO conversation_messages
+          (conversation_id, role, content, tool_call_id, tool_calls, cancelled, created_at)
+        VALUES (${id}, ${m.role}, ${m.content ?? ""}, ${m.tool_call_id ?? null},
+                ${m.tool_calls ? JSON.stringify(m.tool_calls) : null}, ${m.cancelled ? 1 : 0}, ${now})
+      `;
+    }
+
+    const firstUser = messages.find((m) => m.role === "user");
+    if (conversation.title === DEFAULT_TITLE && conversation.messageCount === 0 && firstUser) {
+      this.sql`UPDATE conversations SET title = ${titleFrom(firstUser.content)} WHERE id = ${id}`;
+    }
+    this.sql`UPDATE conversations SET updated_at = ${now} WHERE id = ${id}`;
+  }
+}
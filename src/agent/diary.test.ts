@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ProductSummary } from "../tools/openfoodfacts";
+import { DiaryStore, nutrientsFor, parseDate, sumDays, weekOf, type DiaryEntry } from "./diary";
+import type { SqlFn } from "./types";
+
+const product = (nutriments: ProductSummary["nutriments"]) =>
+  ({ code: "3017620422003", product_name: "Nutella", nutriments }) as ProductSummary;
+
+function entry(date: string, meal: DiaryEntry["meal"], energy_kcal: number, sugars: number): DiaryEntry {
+  const nutrients = nutrientsFor(product({ energy_kcal_100g: energy_kcal, sugars_100g: sugars }), 100).nutrients;
+  return { id: 0, date, meal, barcode: "", productName: "", quantityG: 100, nutrients, missing: [], createdAt: 0 };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("parseDate", () => {
+  it("accepts a calendar day", () => {
+    expect(parseDate("2024-02-29", "UTC")).toBe("2024-02-29");
+  });
+
+  it("rejects impossible days instead of rolling them over", () => {
+    expect(() => parseDate("2024-02-31", "UTC")).toThrow("YYYY-MM-DD");
+    expect(() => parseDate("2023-02-29", "UTC")).toThrow("YYYY-MM-DD");
+    expect(() => parseDate("2024-13-01", "UTC")).toThrow("YYYY-MM-DD");
+  });
+
+  it("rejects other formats", () => {
+    expect(() => parseDate("29/02/2024", "UTC")).toThrow("YYYY-MM-DD");
+    expect(() => parseDate("2024-2-9", "UTC")).toThrow("YYYY-MM-DD");
+  });
+
+  it("defaults to today in the user's timezone", () => {
+    vi.useFakeTimers({ now: new Date("2024-03-10T23:30:00Z") });
+
+    expect(parseDate(undefined, "UTC")).toBe("2024-03-10");
+    expect(parseDate("", "Asia/Tokyo")).toBe("2024-03-11");
+    expect(parseDate(null, "America/Los_Angeles")).toBe("2024-03-10");
+  });
+});
+
+describe("weekOf", () => {
+  it("runs Monday to Sunday", () => {
+    expect(weekOf("2024-02-29")).toEqual([
+      "2024-02-26",
+      "2024-02-27",
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+      "2024-03-02",
+      "2024-03-03",
+    ]);
+  });
+
+  it("keeps a Sunday in the week before it", () => {
+    expect(weekOf("2024-03-03")[0]).toBe("2024-02-26");
+  });
+});
+
+describe("nutrientsFor", () => {
+  it("scales per-100g values to the eaten quantity", () => {
+    const { nutrients } = nutrientsFor(product({ energy_kcal_100g: 539, sugars_100g: 56.3 }), 15);
+
+    expect(nutrients.energy_kcal).toBe(80.9);
+    expect(nutrients.sugars).toBe(8.4);
+  });
+
+  it("counts nutrients the product lacks as 0 and lists them", () => {
+    const { nutrients, missing } = nutrientsFor(product({ energy_kcal_100g: 100 }), 50);
+
+    expect(nutrients.fat).toBe(0);
+    expect(missing).toContain("fat");
+    expect(missing).not.toContain("energy_kcal");
+  });
+});
+
+describe("totals", () => {
+  const store = new DiaryStore((() => []) as unknown as SqlFn);
+
+  it("adds up each day overall and per meal", () => {
+    const entries = [
+      entry("2024-02-26", "breakfast", 300, 10),
+      entry("2024-02-26", "breakfast", 100, 5),
+      entry("2024-02-26", "dinner", 600, 2),
+      entry("2024-02-27", "lunch", 500, 4),
+    ];
+    const [monday, tuesday] = store.totals(["2024-02-26", "2024-02-27"], entries);
+
+    expect(monday.total.energy_kcal).toBe(1000);
+    expect(monday.byMeal.breakfast?.sugars).toBe(15);
+    expect(monday.byMeal.lunch).toBeUndefined();
+    expect(tuesday.total.energy_kcal).toBe(500);
+  });
+
+  it("sums a week of days", () => {
+    const days = store.totals(weekOf("2024-02-26"), [
+      entry("2024-02-26", "snack", 200, 20),
+      entry("2024-03-03", "snack", 150, 12.5),
+    ]);
+    const { total, byMeal } = sumDays(days);
+
+    expect(total.energy_kcal).toBe(350);
+    expect(byMeal.snack?.sugars).toBe(32.5);
+  });
+});
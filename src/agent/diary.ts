@@ -0,0 +1,208 @@
+/**
+ * Food diary — logged meals with nutrient totals.
+ *
+ * @developer Eduardo Arana
+ *
+ * Entries live in the Durable Object's SQLite, one row per logged food.
+ * Nutrients are computed once, at logging time, from the product's per-100g
+ * `nutriments` and the eaten quantity, so later changes to the OpenFoodFacts
+ * record do not rewrite history. Dates are calendar days (`YYYY-MM-DD`)
+ * in the user's timezone, so a late dinner lands on the day it was eaten;
+ * weeks run Monday to Sunday.
+ */
+
+// not the `../tools` barrel: the diary tool specs there import this module
+import type { Meal } from "../tools/diary";
+import { NUTRIENT_KEYS, type NutrientKey } from "../tools/nutrition";
+import type { ProductSummary } from "../tools/openfoodfacts";
+import { localDate } from "./schedules";
+import type { SqlFn } from "./types";
+
+/** Nutrient totals, keyed like `ProductSummary.nutriments` without `_100g`. */
+export type Nutrients = Record<NutrientKey, number>;
+
+export interface DiaryEntry {
+  id: number;
+  date: string;
+  meal: Meal;
+  barcode: string;
+  productName: string;
+  quantityG: number;
+  nutrients: Nutrients;
+  /** Nutrients the product record did not provide (counted as 0). */
+  missing: (keyof Nutrients)[];
+  createdAt: number;
+}
+
+export interface DayTotals {
+  date: string;
+  total: Nutrients;
+  byMeal: Partial<Record<Meal, Nutrients>>;
+}
+
+type EntryRow = {
+  id: number;
+  date: string;
+  meal: string;
+  barcode: string;
+  product_name: string;
+  quantity_g: number;
+  nutrients: string;
+  missing: string;
+  created_at: number;
+};
+
+// ── date helpers ───────────────────────────────────────────────────────────
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Today's date in the user's IANA timezone. */
+export function today(timezone: string): string {
+  return localDate(timezone);
+}
+
+/** Validate a `YYYY-MM-DD` date, defaulting to today in `timezone`. */
+export function parseDate(value: unknown, timezone: string): string {
+  if (value === undefined || value === null || value === "") return today(timezone);
+  const date = String(value);
+  // round-trip: Date rolls impossible days over (2024-02-31 → 2024-03-02)
+  const parsed = DATE_RE.test(date) ? new Date(`${date}T00:00:00Z`) : null;
+  if (!parsed || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+    throw new Error("date must be a real calendar day formatted YYYY-MM-DD");
+  }
+  return date;
+}
+
+/** Monday … Sunday of the week containing `date`. */
+export function weekOf(date: string): string[] {
+  const d = new Date(`${date}T00:00:00Z`);
+  const monday = new Date(d);
+  monday.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  return Array.from({ length: 7 }, (_, i) => {
+    const day = new Date(monday);
+    day.setUTCDate(monday.getUTCDate() + i);
+    return day.toISOString().slice(0, 10);
+  });
+}
+
+// ── nutrient maths ─────────────────────────────────────────────────────────
+
+function zero(): Nutrients {
+  return Object.fromEntries(NUTRIENT_KEYS.map((k) => [k, 0])) as unknown as Nutrients;
+}
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+function add(into: Nutrients, n: Nutrients): Nutrients {
+  for (const k of NUTRIENT_KEYS) into[k] = round(into[k] + n[k]);
+  return into;
+}
+
+/** Scale a product's per-100g values to the eaten quantity. */
+export function nutrientsFor(
+  product: ProductSummary,
+  quantityG: number
+): { nutrients: Nutrients; missing: (keyof Nutrients)[] } {
+  const nutrients = zero();
+  const missing: (keyof Nutrients)[] = [];
+  for (const k of NUTRIENT_KEYS) {
+    const per100 = product.nutriments[`${k}_100g`];
+    if (typeof per100 === "number" && Number.isFinite(per100)) {
+      nutrients[k] = round((per100 * quantityG) / 100);
+    } else {
+      missing.push(k);
+    }
+  }
+  return { nutrients, missing };
+}
+
+// ── storage ────────────────────────────────────────────────────────────────
+
+function toEntry(row: EntryRow): DiaryEntry {
+  return {
+    id: row.id,
+    date: row.date,
+    meal: row.meal as Meal,
+    barcode: row.barcode,
+    productName: row.product_name,
+    quantityG: row.quantity_g,
+    nutrients: JSON.parse(row.nutrients),
+    missing: JSON.parse(row.missing),
+    createdAt: row.created_at,
+  };
+}
+
+export class DiaryStore {
+  private sql: SqlFn;
+
+  constructor(sql: SqlFn) {
+    this.sql = sql;
+    this.sql`
+      CREATE TABLE IF NOT EXISTS diary_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        date TEXT NOT NULL,
+        meal TEXT NOT NULL,
+        barcode TEXT NOT NULL,
+        product_name TEXT NOT NULL,
+        quantity_g REAL NOT NULL,
+        nutrients TEXT NOT NULL,
+        missing TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `;
+    this.sql`CREATE INDEX IF NOT EXISTS idx_diary_entries_date ON diary_entries (date, id)`;
+  }
+
+  log(date: string, meal: Meal, product: ProductSummary, quantityG: number): DiaryEntry {
+    const { nutrients, missing } = nutrientsFor(product, quantityG);
+    const now = Date.now();
+    const [row] = this.sql<EntryRow>`
+      INSERT INTO diary_entries (date, meal, barcode, product_name, quantity_g, nutrients, missing, created_at)
+      VALUES (${date}, ${meal}, ${product.code}, ${product.product_name}, ${quantityG},
+              ${JSON.stringify(nutrients)}, ${JSON.stringify(missing)}, ${now})
+      RETURNING *
+    `;
+    return toEntry(row);
+  }
+
+  delete(id: number): boolean {
+    const [row] = this.sql<{ id: number }>`DELETE FROM diary_entries WHERE id = ${id} RETURNING id`;
+    return Boolean(row);
+  }
+
+  /** Entries for the given dates, in logging order. */
+  entries(dates: string[]): DiaryEntry[] {
+    const from = dates[0];
+    const to = dates[dates.length - 1];
+    return this.sql<EntryRow>`
+      SELECT * FROM diary_entries
+      WHERE date >= ${from} AND date <= ${to}
+      ORDER BY date, id
+    `.map(toEntry);
+  }
+
+  /** Per-day totals, overall and per meal. */
+  totals(dates: string[], entries = this.entries(dates)): DayTotals[] {
+    return dates.map((date) => {
+      const day: DayTotals = { date, total: zero(), byMeal: {} };
+      for (const e of entries.filter((e) => e.date === date)) {
+        add(day.total, e.nutrients);
+        add((day.byMeal[e.meal] ??= zero()), e.nutrients);
+      }
+      return day;
+    });
+  }
+}
+
+/** Sum several days' totals (e.g. a week), overall and per meal. */
+export function sumDays(days: DayTotals[]): { total: Nutrients; byMeal: Partial<Record<Meal, Nutrients>> } {
+  const total = zero();
+  const byMeal: Partial<Record<Meal, Nutrients>> = {};
+  for (const day of days) {
+    add(total, day.total);
+    for (const [meal, n] of Object.entries(day.byMeal) as [Meal, Nutrients][]) {
+      add((byMeal[meal] ??= zero()), n);
+    }
+  }
+  return { total, byMeal };
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ToolExecutor, ToolTimeoutError, type AgentToolHost } from "./executor";
+
+vi.mock("cloudflare:workers", () => ({ waitUntil: () => {} }));
+
+const MCP_URL = "https://nutri-agent.test/mcp";
+const BARCODE = "3017620422003";
+
+type ToolsCall = (params: { name: string; arguments: Record<string, unknown> }) => Response | Promise<Response>;
+
+/** A fetch that plays the MCP server (handshake, then `toolsCall`) and OpenFoodFacts. */
+function serve(toolsCall: ToolsCall) {
+  const fetch = vi.fn(async (url: string, init?: RequestInit) => {
+    if (url !== MCP_URL) {
+      return Response.json({ product: { code: BARCODE, product_name: "Nutella", nutriments: {} } });
+    }
+    const { id, method, params } = JSON.parse(String(init?.body));
+    if (method === "initialize") return Response.json({ jsonrpc: "2.0", id, result: {} });
+    if (method === "notifications/initialized") return new Response(null, { status: 202 });
+    return toolsCall(params);
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+const toolResult = (text: string, isError = false) =>
+  Response.json({ jsonrpc: "2.0", id: 3, result: { content: [{ type: "text", text }], isError } });
+
+function agentHost(): AgentToolHost & { callTool: ReturnType<typeof vi.fn> } {
+  return { token: Promise.resolve("me.signature"), callTool: vi.fn(async () => ({ logged: true })) };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("ToolExecutor.callTool", () => {
+  it("returns the MCP server's result", async () => {
+    serve(() => toolResult('{"code":"3017620422003"}'));
+
+    const text = await new ToolExecutor(MCP_URL).callTool("get_product_by_barcode", { barcode: BARCODE });
+    expect(JSON.parse(text)).toEqual({ code: BARCODE });
+  });
+
+  it("runs the tool in-process when the MCP server is unreachable", async () => {
+    const fetch = serve(() => {
+      throw new TypeError("fetch failed");
+    });
+
+    const text = await new ToolExecutor(MCP_URL).callTool("get_product_by_barcode", { barcode: BARCODE });
+    expect(JSON.parse(text)).toMatchObject({ code: BARCODE, product_name: "Nutella" });
+    expect(fetch.mock.calls.filter(([url]) => url !== MCP_URL)).toHaveLength(1);
+  });
+
+  it("runs agent tools on the agent when the MCP server answers with an HTTP error", async () => {
+    serve(() => new Response("bad gateway", { status: 502 }));
+    const agent = agentHost();
+
+    const text = await new ToolExecutor(MCP_URL, undefined, 15_000, agent).callTool("log_food", { barcode: BARCODE });
+    expect(JSON.parse(text)).toEqual({ logged: true });
+    expect(agent.callTool).toHaveBeenCalledOnce();
+  });
+
+  it("does not run a tool again after it reported a failure", async () => {
+    const fetch = serve(() => toolResult("Error: diary is full", true));
+    const agent = agentHost();
+
+    await expect(
+      new ToolExecutor(MCP_URL, undefined, 15_000, agent).callTool("log_food", { barcode: BARCODE })
+    ).rejects.toThrow("diary is full");
+    await expect(
+      new ToolExecutor(MCP_URL).callTool("get_product_by_barcode", { barcode: BARCODE })
+    ).rejects.toThrow("diary is full");
+    expect(agent.callTool).not.toHaveBeenCalled();
+    expect(fetch.mock.calls.every(([url]) => url === MCP_URL)).toBe(true);
+  });
+
+  it("surfaces typed tool failures as ToolErrors", async () => {
+    serve(() => toolResult(JSON.stringify({ error: "No product", code: "not_found", barcode: BARCODE }), true));
+
+    await expect(
+      new ToolExecutor(MCP_URL).callTool("get_product_by_barcode", { barcode: BARCODE })
+    ).rejects.toMatchObject({ name: "ToolError", code: "not_found" });
+  });
+
+  it("runs agent tools on the agent when no instance token is configured", async () => {
+    const fetch = serve(() => toolResult("{}"));
+    const agent = { ...agentHost(), token: Promise.resolve(null) };
+
+    await new ToolExecutor(MCP_URL, undefined, 15_000, agent).callTool("log_food", { barcode: BARCODE });
+    expect(agent.callTool).toHaveBeenCalledOnce();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it("times out without waiting for the tool", async () => {
+    serve(() => new Promise<Response>(() => {}));
+
+    await expect(
+      new ToolExecutor(MCP_URL, undefined, 20).callTool("get_product_by_barcode", { barcode: BARCODE })
+    ).rejects.toBeInstanceOf(ToolTimeoutError);
+  });
+});
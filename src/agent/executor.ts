@@ -0,0 +1,149 @@
+/**
+ * Tool executor — MCP-first tool access for the agent runtime.
+ *
+ * @developer Eduardo Arana
+ *
+ * Lists and calls tools through the MCP Streamable HTTP server, falling back
+ * to the in-process tool definitions / dispatcher when the server is
+ * unreachable (local dev, MCP outage). A failure the tool itself reported is
+ * final: running the call again in-process would repeat its OFF requests and
+ * side effects (a second diary entry).
+ *
+ * Every call is bounded by a timeout (`TOOL_TIMEOUT_MS`, default 15 s) and
+ * can be cancelled through an AbortSignal, which is propagated to the MCP
+ * request and the OpenFoodFacts fetch behind it.
+ *
+ * Agent-scoped tools (dietary profile, food diary) are only offered when the executor
+ * belongs to a user's agent instance; see `./agent-tools`.
+ */
+
+import { McpClient, McpTransportError } from "../mcp/client";
+import { AGENT_TOOL_NAMES } from "../tools";
+import type { Env } from "../types";
+import type { LLMTool } from "./types";
+
+/** Per-call tool timeout used when `TOOL_TIMEOUT_MS` is not set. */
+export const DEFAULT_TOOL_TIMEOUT_MS = 15_000;
+
+/** Thrown by `ToolExecutor.callTool` when a call exceeds its timeout. */
+export class ToolTimeoutError extends Error {
+  readonly tool: string;
+  readonly timeoutMs: number;
+
+  constructor(tool: string, timeoutMs: number) {
+    super(`${tool} timed out after ${timeoutMs} ms`);
+    this.name = "ToolTimeoutError";
+    this.tool = tool;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Resolve the per-call tool timeout from `TOOL_TIMEOUT_MS`. */
+export function toolTimeoutFor(env: Env): number {
+  const ms = Number(env.TOOL_TIMEOUT_MS);
+  return Number.isFinite(ms) && ms > 0 ? ms : DEFAULT_TOOL_TIMEOUT_MS;
+}
+
+/** The agent instance that owns agent-scoped tool state. */
+export interface AgentToolHost {
+  /** Signed instance token for the MCP server; null when tokens are not configured. */
+  token: Promise<string | null>;
+  /** Direct execution, used when the MCP server is unreachable. */
+  callTool(name: string, args: Record<string, unknown>): Promise<unknown>;
+}
+
+export class ToolExecutor {
+  private mcpClient: McpClient;
+  private llmTools: LLMTool[] | null = null;
+  private agent: AgentToolHost | undefined;
+  readonly timeoutMs: number;
+
+  constructor(
+    mcpUrl: string,
+    apiKey?: string,
+    timeoutMs = DEFAULT_TOOL_TIMEOUT_MS,
+    agent?: AgentToolHost
+  ) {
+    this.mcpClient = new McpClient(mcpUrl, apiKey, agent?.token);
+    this.timeoutMs = timeoutMs;
+    this.agent = agent;
+  }
+
+  /** Get tools from MCP server in LLM function-calling format (cached). */
+  async listTools(): Promise<LLMTool[]> {
+    if (this.llmTools) return this.llmTools;
+
+    try {
+      const mcpTools = await this.mcpClient.listTools();
+      this.llmTools = mcpTools.map((t) => ({
+        type: "function" as const,
+        function: {
+          name: t.name,
+          description: t.description as string,
+          parameters: t.inputSchema,
+        },
+      }));
+    } catch {
+      // Fallback: use hardcoded tool definitions if MCP server unreachable
+      // This keeps the agent functional during local dev or if MCP is down
+      const { TOOL_DEFINITIONS } = await import("../tools");
+      this.llmTools = [...TOOL_DEFINITIONS];
+    }
+    // without an agent instance there is no per-user state to operate on
+    if (!this.agent) {
+      this.llmTools = this.llmTools.filter((t) => !AGENT_TOOL_NAMES.has(t.function.name));
+    }
+    return this.llmTools;
+  }
+
+  /**
+   * Execute a tool call via MCP server, with direct fallback. Rejects with
+   * `ToolTimeoutError` after `timeoutMs`, or with `signal.reason` when the
+   * caller aborts — even if the underlying request ignores the signal.
+   */
+  async callTool(
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+    const aborted = new Promise<never>((_, reject) => {
+      const fail = () =>
+        reject(
+          timeout.aborted && !signal?.aborted
+            ? new ToolTimeoutError(name, this.timeoutMs)
+            : combined.reason
+        );
+      if (combined.aborted) fail();
+      else combined.addEventListener("abort", fail, { once: true });
+    });
+
+    return Promise.race([this.invoke(name, args, combined), aborted]);
+  }
+
+  private async invoke(
+    name: string,
+    args: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<string> {
+    // without a token the MCP server refuses agent-scoped tools: run them here
+    if (this.agent && AGENT_TOOL_NAMES.has(name) && !(await this.agent.token)) {
+      return JSON.stringify(await this.agent.callTool(name, args), null, 2);
+    }
+    try {
+      return await this.mcpClient.callTool(name, args, signal);
+    } catch (err) {
+      // only a call that never reached the server is run again, and never an aborted one
+      if (signal.aborted || !(err instanceof McpTransportError)) throw err;
+      // Fallback: direct dispatch if MCP server is unreachable
+      if (this.agent && AGENT_TOOL_NAMES.has(name)) {
+        return JSON.stringify(await this.agent.callTool(name, args), null, 2);
+      }
+      const { dispatchTool } = await import("../tools");
+      const result = await dispatchTool(name, args, signal);
+      return JSON.stringify(result, null, 2);
+    }
+  }
+}
@@ -4,3 +4,7 @@
  * @developer Eduardo Arana
  */
 export { NutriAgent } from "./nutri-agent";
+export { runAgent } from "./runtime";
+export { ToolExecutor, ToolTimeoutError } from "./executor";
+export { connectionSink, silentSink } from "./sinks";
+export type { AgentEvent, AgentSink, AgentResult, ChatMessage, ToolCallProgress } from "./types";
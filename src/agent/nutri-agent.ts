@@ -12,136 +12,226 @@
  *                              GLM-4.7-Flash LLM (z.ai)
  *
  * The agent calls tools via the MCP Streamable HTTP server (/mcp)
- * rather than importing tool functions directly.
+ * rather than importing tool functions directly. The LLM / tool loop itself
+ * lives in the shared runtime (`./runtime`); this class owns the
+ * conversations, dietary profile, food diary and scheduled summaries /
+ * reminders (stored in the DO's SQLite) and the WebSocket / REST transports.
  */
 
-import { Agent, type Connection, type WSMessage } from "agents";
-import { McpClient } from "../mcp/client";
+import { Agent, type Connection, type ConnectionContext, type WSMessage } from "agents";
+import { signAgentInstance } from "../auth";
+import { AGENT_INSTANCE_HEADER } from "../mcp/client";
 import type { Env } from "../types";
+import { createLLM } from "../llm";
+import { localeFromAcceptLanguage, ToolError, type OffLocale } from "../tools";
+import { dispatchAgentTool, type AgentToolContext } from "./agent-tools";
+import { ContextManager, tokenBudgetFor } from "./context";
+import { DiaryStore, today } from "./diary";
+import { ConversationStore, DEFAULT_TITLE, type ConversationSummary } from "./conversations";
+import { ToolExecutor, toolTimeoutFor } from "./executor";
+import { parseProfileUpdate, ProfileStore, type DietaryProfile } from "./profile";
+import { runAgent } from "./runtime";
+import {
+  DAILY_SUMMARY_PROMPT,
+  formatSummary,
+  isValidTimezone,
+  nextOccurrence,
+  NotificationStore,
+  parseScheduleRequest,
+  scheduleInfo,
+  SUMMARY_LLM_TIMEOUT_MS,
+  type Notification,
+  type ScheduledTask,
+  type ScheduleService,
+} from "./schedules";
+import { connectionSink, silentSink } from "./sinks";
+import type { AgentSink, ChatMessage, SqlFn } from "./types";
+
+// ── state ──────────────────────────────────────────────────────────────────
 
-// ── system prompt ──────────────────────────────────────────────────────────
-
-const SYSTEM_PROMPT = `You are NutriAgent, a friendly and knowledgeable nutrition assistant.
-You help users explore food products, check nutritional facts, compare items,
-and understand food labels using the OpenFoodFacts database.
-
-CAPABILITIES (via tools):
-• Look up any product by barcode (EAN/UPC)
-• Search products by name or keyword
-• Browse products by category
-• Compare nutritional profiles across products
-• Check allergens and traces for dietary restrictions
-
-GUIDELINES:
-• Always use the tools to get real data — never make up nutritional values.
-• Present nutrient data in a clear, readable format.
-• Explain Nutri-Score (A-E), NOVA group (1-4), and Eco-Score when relevant.
-• If a product is not found, suggest alternative searches.
-• Be concise but thorough. Use tables when comparing products.
-• When listing nutrients use per-100g values with units.
-• Proactively warn about allergens when they appear in results.`;
-
-// ── message types ──────────────────────────────────────────────────────────
-
-interface ChatMessage {
-  role: "system" | "user" | "assistant" | "tool";
-  content: string;
-  tool_call_id?: string;
-  tool_calls?: ToolCall[];
-}
-
-interface ToolCall {
-  id: string;
-  type: "function";
-  function: { name: string; arguments: string };
-}
-
+/**
+ * Durable state blob — the active conversation pointer plus the user's
+ * timezone and locale (reported by the browser). Histories live in SQLite
+ * (see `ConversationStore`).
+ */
 interface AgentState {
-  messages: ChatMessage[];
   conversationId: string;
+  timezone?: string;
+  /** From the browser's `Accept-Language`; the profile's country / language win. */
+  locale?: OffLocale;
 }
 
+/** Client → agent WebSocket messages. */
+type ClientMessage =
+  | { type: "chat"; content?: string; conversationId?: string; timezone?: string }
+  | { type: "cancel"; conversationId?: string }
+  | { type: "list_conversations" }
+  | { type: "new_conversation"; title?: string }
+  | { type: "switch_conversation"; id: string }
+  | { type: "rename_conversation"; id: string; title: string }
+  | { type: "delete_conversation"; id: string }
+  | { type: "reset_conversation"; id?: string }
+  | { type: "get_profile" }
+  | { type: "update_profile"; profile: Record<string, unknown> }
+  | { type: "clear_profile" }
+  | { type: "list_schedules" }
+  | { type: "create_schedule"; schedule: Record<string, unknown>; timezone?: string }
+  | { type: "cancel_schedule"; id: string };
+
 // ── agent ──────────────────────────────────────────────────────────────────
 
 export class NutriAgent extends Agent<Env, AgentState> {
-  // initialise empty conversation state
+  // initialise with a fresh (not yet persisted) conversation
   initialState: AgentState = {
-    messages: [],
     conversationId: crypto.randomUUID(),
   };
 
-  // MCP client singleton (per DO instance)
-  private mcpClient: McpClient | null = null;
-  private llmTools: { type: "function"; function: { name: string; description: string; parameters: unknown } }[] | null = null;
+  // tool executor singleton (per DO instance)
+  private toolExecutor: ToolExecutor | null = null;
+  private conversationStore: ConversationStore | null = null;
+  private profileStore: ProfileStore | null = null;
+  private diaryStore: DiaryStore | null = null;
+  private notificationStore: NotificationStore | null = null;
+
+  // in-flight chat turns by conversation id, so they can be cancelled
+  private turns = new Map<string, AbortController>();
 
-  /** Lazily create MCP client pointing at our Worker's MCP endpoint. */
-  private getMcpClient(): McpClient {
-    if (!this.mcpClient) {
+  /** Lazily create the tool executor pointing at our Worker's MCP endpoint. */
+  private getToolExecutor(): ToolExecutor {
+    if (!this.toolExecutor) {
       // Construct internal URL to same Worker's /mcp endpoint
       // In Cloudflare Workers, we use the worker's own origin
       const baseUrl = "https://nutri-agent.workers.dev/mcp";
-      this.mcpClient = new McpClient(baseUrl, this.env.MCP_API_KEY);
+      this.toolExecutor = new ToolExecutor(baseUrl, this.env.MCP_API_KEY, toolTimeoutFor(this.env), {
+        token: signAgentInstance(this.name, this.env),
+        callTool: (name, args) => dispatchAgentTool(name, args, this.agentToolContext()),
+      });
     }
-    return this.mcpClient;
+    return this.toolExecutor;
   }
 
-  /** Get tools from MCP server in LLM function-calling format. */
-  private async getLLMTools() {
-    if (this.llmTools) return this.llmTools;
+  /** Conversation histories in this DO's SQLite storage. */
+  private get conversations(): ConversationStore {
+    if (!this.conversationStore) {
+      this.conversationStore = new ConversationStore(this.sql.bind(this) as SqlFn);
+    }
+    return this.conversationStore;
+  }
 
-    try {
-      const mcp = this.getMcpClient();
-      const mcpTools = await mcp.listTools();
-      this.llmTools = mcpTools.map((t) => ({
-        type: "function" as const,
-        function: {
-          name: t.name,
-          description: t.description as string,
-          parameters: t.inputSchema,
-        },
-      }));
-    } catch {
-      // Fallback: use hardcoded tool definitions if MCP server unreachable
-      // This keeps the agent functional during local dev or if MCP is down
-      const { TOOL_DEFINITIONS } = await import("../tools");
-      this.llmTools = TOOL_DEFINITIONS as any;
+  /** The user's dietary profile in this DO's SQLite storage. */
+  private get profiles(): ProfileStore {
+    if (!this.profileStore) {
+      this.profileStore = new ProfileStore(this.sql.bind(this) as SqlFn);
     }
-    return this.llmTools!;
+    return this.profileStore;
   }
 
-  /** Execute a tool call via MCP server, with direct fallback. */
-  private async executeTool(
-    name: string,
-    args: Record<string, unknown>
-  ): Promise<string> {
-    try {
-      const mcp = this.getMcpClient();
-      return await mcp.callTool(name, args);
-    } catch {
-      // Fallback: direct dispatch if MCP server is unreachable
-      const { dispatchTool } = await import("../tools");
-      const result = await dispatchTool(name, args);
-      return JSON.stringify(result, null, 2);
+  /** The user's food diary in this DO's SQLite storage. */
+  private get diary(): DiaryStore {
+    if (!this.diaryStore) {
+      this.diaryStore = new DiaryStore(this.sql.bind(this) as SqlFn);
     }
+    return this.diaryStore;
   }
 
-  // ── pipeline status helper ──────────────────────────────────────────────
+  /** Scheduled messages (and the unread inbox) in this DO's SQLite storage. */
+  private get notifications(): NotificationStore {
+    if (!this.notificationStore) {
+      this.notificationStore = new NotificationStore(this.sql.bind(this) as SqlFn);
+    }
+    return this.notificationStore;
+  }
 
-  /** Send a real-time pipeline progress event so the UI can visualise the flow. */
-  private sendPipeline(
-    connection: Connection,
-    step: string,
-    status: "active" | "complete",
-    detail?: string
-  ) {
+  private agentToolContext(): AgentToolContext {
+    return {
+      profiles: this.profiles,
+      diary: this.diary,
+      schedules: this.scheduleService(),
+      timezone: this.state.timezone ?? "UTC",
+      locale: this.offLocale(),
+      onProfileChange: (profile) => this.broadcastProfile(profile),
+    };
+  }
+
+  async onStart() {
+    // Migrate the pre-SQLite state blob (`messages` array) into a conversation
+    const legacy = this.state as AgentState & { messages?: ChatMessage[] };
+    if (legacy.messages) {
+      if (legacy.messages.length > 0 && !this.conversations.get(legacy.conversationId)) {
+        this.conversations.append(legacy.conversationId, legacy.messages);
+      }
+      this.setState({ conversationId: legacy.conversationId });
+    }
+  }
+
+  // ── conversation helpers ───────────────────────────────────────────────
+
+  /** The active conversation, persisted on first access. */
+  private activeConversation(): ConversationSummary {
+    return this.conversations.ensure(this.state.conversationId);
+  }
+
+  private activate(id: string) {
+    if (this.state.conversationId !== id) {
+      this.setState({ ...this.state, conversationId: id });
+    }
+  }
+
+  /** Push the conversation list to every connected tab. */
+  private broadcastConversations() {
+    this.broadcast(
+      JSON.stringify({
+        type: "conversations",
+        activeId: this.state.conversationId,
+        conversations: this.conversations.list(),
+      })
+    );
+  }
+
+  /** Push the dietary profile to every connected tab. */
+  private broadcastProfile(profile: DietaryProfile = this.profiles.get()) {
+    this.broadcast(JSON.stringify({ type: "profile", profile }));
+  }
+
+  /** Remember the browser's timezone, used as the default for new schedules. */
+  private setTimezone(timezone: string | undefined) {
+    if (timezone && timezone !== this.state.timezone && isValidTimezone(timezone)) {
+      this.setState({ ...this.state, timezone });
+    }
+  }
+
+  /** Remember the browser's `Accept-Language`, the fallback locale for product lookups. */
+  private setLocale(request: Request) {
+    const locale = localeFromAcceptLanguage(request.headers.get("Accept-Language"));
+    if (!locale.lang) return;
+    if (locale.lang !== this.state.locale?.lang || locale.country !== this.state.locale?.country) {
+      this.setState({ ...this.state, locale });
+    }
+  }
+
+  /** Default `country` / `lang` for OpenFoodFacts tools: the profile, then the browser. */
+  private offLocale(profile: DietaryProfile = this.profiles.get()): OffLocale {
+    return {
+      country: profile.country ?? this.state.locale?.country,
+      lang: profile.language ?? this.state.locale?.lang,
+    };
+  }
+
+  /** Send a conversation's history so the UI can render it. */
+  private sendHistory(connection: Connection, id: string) {
     connection.send(
-      JSON.stringify({ type: "pipeline", step, status, detail: detail ?? "" })
+      JSON.stringify({
+        type: "history",
+        conversation: this.conversations.get(id),
+        messages: this.conversations.messages(id),
+      })
     );
   }
 
   // ── WebSocket lifecycle ────────────────────────────────────────────────
 
-  async onConnect(connection: Connection) {
+  async onConnect(connection: Connection, ctx: ConnectionContext) {
+    this.setLocale(ctx.request);
     connection.send(
       JSON.stringify({
         type: "welcome",
@@ -149,204 +239,492 @@ export class NutriAgent extends Agent<Env, AgentState> {
           "👋 Welcome to NutriAgent! Ask me about any food product — search by name, scan a barcode, or compare items.",
       })
     );
+
+    const active = this.activeConversation();
+    this.sendHistory(connection, active.id);
+    this.broadcastConversations();
+    connection.send(JSON.stringify({ type: "profile", profile: this.profiles.get() }));
+    connection.send(JSON.stringify({ type: "schedules", schedules: this.scheduleService().list() }));
+
+    // scheduled messages that fired while no tab was open
+    const unread = this.notifications.unread();
+    if (unread.length > 0) {
+      connection.send(JSON.stringify({ type: "notifications", notifications: unread }));
+      this.notifications.markRead(unread.map((n) => n.id));
+    }
   }
 
   async onMessage(connection: Connection, message: WSMessage) {
     if (typeof message !== "string") return;
 
-    let parsed: { type: string; content?: string };
+    let parsed: ClientMessage;
     try {
       parsed = JSON.parse(message);
     } catch {
       parsed = { type: "chat", content: message };
     }
 
-    if (parsed.type === "chat" && parsed.content) {
-      await this.handleChat(connection, parsed.content);
+    switch (parsed.type) {
+      case "chat":
+        this.setTimezone(parsed.timezone);
+        if (parsed.content) {
+          await this.handleChat(
+            parsed.content,
+            connectionSink(connection),
+            parsed.conversationId ?? this.state.conversationId
+          );
+          this.broadcastConversations();
+        }
+        break;
+
+      case "cancel":
+        // a stop that races the turn's end is simply a no-op
+        this.cancelTurn(parsed.conversationId ?? this.state.conversationId);
+        break;
+
+      case "list_conversations":
+        this.broadcastConversations();
+        break;
+
+      case "new_conversation": {
+        const created = this.conversations.create(parsed.title);
+        this.activate(created.id);
+        this.sendHistory(connection, created.id);
+        this.broadcastConversations();
+        break;
+      }
+
+      case "switch_conversation":
+        if (!this.conversations.get(parsed.id)) {
+          connection.send(JSON.stringify({ type: "error", message: "Conversation not found" }));
+          break;
+        }
+        this.activate(parsed.id);
+        this.sendHistory(connection, parsed.id);
+        this.broadcastConversations();
+        break;
+
+      case "rename_conversation":
+        if (!this.conversations.rename(parsed.id, parsed.title)) {
+          connection.send(JSON.stringify({ type: "error", message: "Conversation not found" }));
+          break;
+        }
+        this.broadcastConversations();
+        break;
+
+      case "delete_conversation":
+        this.deleteConversation(parsed.id);
+        this.sendHistory(connection, this.state.conversationId);
+        this.broadcastConversations();
+        break;
+
+      case "reset_conversation": {
+        const id = parsed.id ?? this.state.conversationId;
+        this.conversations.reset(id);
+        if (id === this.state.conversationId) this.sendHistory(connection, id);
+        this.broadcastConversations();
+        break;
+      }
+
+      case "get_profile":
+        connection.send(JSON.stringify({ type: "profile", profile: this.profiles.get() }));
+        break;
+
+      case "update_profile":
+        try {
+          this.broadcastProfile(this.profiles.update(parseProfileUpdate(parsed.profile)));
+        } catch (err) {
+          connection.send(JSON.stringify({ type: "error", message: (err as Error).message }));
+        }
+        break;
+
+      case "clear_profile":
+        this.broadcastProfile(this.profiles.clear());
+        break;
+
+      case "list_schedules":
+        connection.send(
+          JSON.stringify({ type: "schedules", schedules: this.scheduleService().list() })
+        );
+        break;
+
+      case "create_schedule":
+        this.setTimezone(parsed.timezone);
+        try {
+          await this.scheduleService().create(
+            parseScheduleRequest(parsed.schedule ?? {}, this.state.timezone ?? "UTC")
+          );
+        } catch (err) {
+          connection.send(JSON.stringify({ type: "error", message: (err as Error).message }));
+        }
+        break;
+
+      case "cancel_schedule":
+        if (!(await this.scheduleService().cancel(parsed.id))) {
+          connection.send(JSON.stringify({ type: "error", message: "Schedule not found" }));
+        }
+        break;
+    }
+  }
+
+  /** Delete a conversation; if it was active, fall back to the most recent one. */
+  private deleteConversation(id: string): boolean {
+    const deleted = this.conversations.delete(id);
+    if (id === this.state.conversationId) {
+      const next = this.conversations.list()[0] ?? this.conversations.create();
+      this.activate(next.id);
     }
+    return deleted;
   }
 
-  // ── core chat loop (tool-use loop) ─────────────────────────────────────
+  // ── scheduled summaries / reminders ──────────────────────────────────
+
+  /**
+   * Schedules as seen by tools, WS and REST. Each task is a one-shot SDK
+   * schedule for its next occurrence; the SDK row id changes every time it
+   * is re-booked, so tasks are addressed by the payload's stable `id`.
+   * Changes are pushed to every open tab.
+   */
+  private scheduleService(): ScheduleService {
+    const booked = () =>
+      this.getSchedules<ScheduledTask>().filter((s) => s.callback === "runScheduledTask");
+
+    return {
+      create: async (request) => {
+        const task: ScheduledTask = {
+          ...request,
+          id: crypto.randomUUID().slice(0, 8),
+          createdAt: Date.now(),
+        };
+        const next = nextOccurrence(task);
+        await this.schedule(next, "runScheduledTask", task);
+        this.broadcastSchedules();
+        return scheduleInfo(task, next.getTime());
+      },
+      list: () =>
+        booked()
+          .map((s) => scheduleInfo(s.payload, s.time * 1000))
+          .sort((a, b) => a.nextRunAt - b.nextRunAt),
+      cancel: async (id) => {
+        const row = booked().find((s) => s.payload.id === id);
+        if (!row || !(await this.cancelSchedule(row.id))) return false;
+        this.broadcastSchedules();
+        return true;
+      },
+    };
+  }
 
-  private async handleChat(connection: Connection, userMessage: string) {
-    // add user message to history
-    const history = [...this.state.messages];
-    history.push({ role: "user", content: userMessage });
+  /** Push the schedule list to every connected tab. */
+  private broadcastSchedules() {
+    this.broadcast(JSON.stringify({ type: "schedules", schedules: this.scheduleService().list() }));
+  }
 
-    // ── pipeline: agent received query ──
-    this.sendPipeline(connection, "agent", "active", "Processing your query");
+  /**
+   * Schedule callback, run by the SDK alarm. The next occurrence is booked
+   * before delivering so a failed summary doesn't end the series.
+   */
+  async runScheduledTask(task: ScheduledTask, row?: { time: number }) {
+    // an alarm may fire slightly early or late; count from the slot it was for
+    const after = new Date(Math.max(Date.now(), (row?.time ?? 0) * 1000));
+    await this.schedule(nextOccurrence(task, after), "runScheduledTask", task);
+
+    const content =
+      task.kind === "summary" ? await this.composeSummary(task.timezone) : `⏰ ${task.message}`;
+    this.deliver(this.notifications.add(task.kind, content, task.id));
+  }
 
-    // signal legacy "thinking" for backwards compat
-    connection.send(JSON.stringify({ type: "status", status: "thinking" }));
+  /**
+   * Today's diary totals and chat topics, written up by the LLM (plain text if
+   * it fails or takes longer than `SUMMARY_LLM_TIMEOUT_MS`, so a hung provider
+   * cannot hold up the alarm and the reminders after it). "Today" is the diary
+   * day entries are logged under, in the user's timezone; the schedule's own
+   * timezone is the fallback.
+   */
+  private async composeSummary(timezone: string): Promise<string> {
+    const date = today(this.state.timezone ?? timezone);
+    const [day] = this.diary.totals([date]);
+    const goal = this.profiles.get().calorieGoal;
+    const since = Date.now() - 24 * 60 * 60 * 1000;
+    const topics = this.conversations
+      .list()
+      .filter((c) => c.updatedAt >= since && c.messageCount > 0 && c.title !== DEFAULT_TITLE)
+      .slice(0, 5)
+      .map((c) => c.title);
 
     try {
-      // ── pipeline: calling LLM ──
-      this.sendPipeline(connection, "llm", "active", "Reasoning with GLM-4.7-Flash");
-
-      let assistantMessage = await this.callLLM(history);
-
-      // agentic tool loop — keep calling tools until the model stops requesting them
-      let maxIterations = 8;
-      while (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0 && maxIterations-- > 0) {
-        // push the assistant turn with tool_calls
-        history.push(assistantMessage);
-
-        // ── pipeline: routing through MCP ──
-        this.sendPipeline(connection, "mcp", "active", "Routing tool calls via MCP Server");
-
-        // execute each tool call via MCP server
-        for (const tc of assistantMessage.tool_calls) {
-          // ── pipeline: executing tool ──
-          this.sendPipeline(
-            connection,
-            "tools",
-            "active",
-            `Executing ${tc.function.name}`
-          );
-
-          connection.send(
-            JSON.stringify({
-              type: "tool_call",
-              tool: tc.function.name,
-              args: tc.function.arguments,
-            })
-          );
-
-          let result: string;
-          try {
-            const args = JSON.parse(tc.function.arguments);
-            result = await this.executeTool(tc.function.name, args);
-          } catch (err) {
-            result = JSON.stringify({ error: String(err) });
-          }
-
-          // ── pipeline: tool complete ──
-          this.sendPipeline(
-            connection,
-            "tools",
-            "complete",
-            `${tc.function.name} returned data`
-          );
+      const { message } = await createLLM(this.env).complete({
+        system: DAILY_SUMMARY_PROMPT,
+        messages: [
+          {
+            role: "user",
+            content: JSON.stringify({
+              date,
+              total: day.total,
+              by_meal: day.byMeal,
+              calorie_goal: goal,
+              topics,
+            }),
+          },
+        ],
+        tools: [],
+        signal: AbortSignal.timeout(SUMMARY_LLM_TIMEOUT_MS),
+      });
+      const text = message.content?.trim();
+      if (text) return text;
+    } catch (err) {
+      console.warn("[schedules] summary LLM failed, using plain summary:", err);
+    }
+    return formatSummary(day, goal, topics);
+  }
 
-          history.push({
-            role: "tool",
-            tool_call_id: tc.id,
-            content: result,
-          });
-        }
+  /** Push a notification to open tabs; with none open it stays unread for the next connect. */
+  private deliver(notification: Notification) {
+    if ([...this.getConnections()].length === 0) return;
+    this.broadcast(JSON.stringify({ type: "notifications", notifications: [notification] }));
+    this.notifications.markRead([notification.id]);
+  }
 
-        // ── pipeline: re-calling LLM with results ──
-        this.sendPipeline(connection, "llm", "active", "Analyzing tool results");
+  // ── core chat turn ─────────────────────────────────────────────────────
 
-        // re-call LLM with tool results
-        connection.send(JSON.stringify({ type: "status", status: "thinking" }));
-        assistantMessage = await this.callLLM(history);
-      }
+  /** Abort the conversation's in-flight turn. Returns false if none is running. */
+  private cancelTurn(conversationId: string): boolean {
+    const turn = this.turns.get(conversationId);
+    if (!turn) return false;
+    turn.abort();
+    return true;
+  }
 
-      // final assistant reply
-      history.push({ role: "assistant", content: assistantMessage.content ?? "" });
+  /**
+   * Run one user turn through the shared runtime and persist the result.
+   * Older turns beyond the model's token budget reach the LLM only through
+   * the conversation's running summary. A cancelled turn is persisted up to
+   * the point it was stopped.
+   */
+  private async handleChat(userMessage: string, sink: AgentSink, conversationId: string) {
+    const controller = new AbortController();
+    this.turns.set(conversationId, controller);
+    try {
+      return await this.runTurn(userMessage, sink, conversationId, controller.signal);
+    } finally {
+      if (this.turns.get(conversationId) === controller) this.turns.delete(conversationId);
+    }
+  }
 
-      // persist state
-      this.setState({ ...this.state, messages: history });
+  private async runTurn(
+    userMessage: string,
+    sink: AgentSink,
+    conversationId: string,
+    signal: AbortSignal
+  ) {
+    const llm = createLLM(this.env);
+    const context = new ContextManager(
+      this.conversations,
+      llm,
+      tokenBudgetFor(llm.model, this.env)
+    );
 
-      // ── pipeline: done ──
-      this.sendPipeline(connection, "done", "complete", "Response ready");
+    const stored = this.conversations.messages(conversationId);
+    const { messages: recent, summary } = await context.prepare(conversationId, stored, signal);
+    const history: ChatMessage[] = [...recent, { role: "user", content: userMessage }];
+
+    const profile = this.profiles.get();
+    const result = await runAgent(history, {
+      env: this.env,
+      tools: this.getToolExecutor(),
+      sink,
+      llm,
+      summary,
+      signal,
+      profile,
+      locale: this.offLocale(profile),
+    });
 
-      connection.send(
-        JSON.stringify({
-          type: "response",
-          content: assistantMessage.content ?? "",
-        })
-      );
-    } catch (err) {
-      // ── pipeline: error ──
-      this.sendPipeline(connection, "done", "complete", "Error encountered");
-
-      connection.send(
-        JSON.stringify({
-          type: "error",
-          message: `Sorry, something went wrong: ${err instanceof Error ? err.message : String(err)}`,
-        })
-      );
+    if (result.status !== "failed") {
+      // persist the user turn plus everything the runtime added after it
+      this.conversations.append(conversationId, result.history.slice(recent.length));
     }
+    return result;
   }
 
-  // ── LLM call (GLM-4 via BigModel / z.ai compatible endpoint) ──────────
+  // ── HTTP API (non-WebSocket usage) ─────────────────────────────────────
+  //
+  //   POST   /api/chat                       { message, conversationId? }
+  //   GET    /conversations                  → list
+  //   POST   /conversations                  { title? } → create + activate
+  //   GET    /conversations/:id              → metadata + messages
+  //   PATCH  /conversations/:id              { title }
+  //   DELETE /conversations/:id
+  //   POST   /conversations/:id/reset
+  //   POST   /conversations/:id/switch
+  //   POST   /conversations/:id/cancel       → stop the in-flight turn
+  //   GET    /profile                        → dietary profile
+  //   PATCH  /profile                        { allergies?, intolerances?, diet?, calorieGoal?, units?, country?, language? }
+  //   DELETE /profile                        → reset to empty
+  //   GET    /schedules                      → scheduled summaries / reminders
+  //   POST   /schedules                      { kind, time, days?, message?, timezone? }
+  //   DELETE /schedules/:id
+  //   GET    /mcp-token                      → signed token for the MCP X-Agent-Instance header
+  //   POST   /tools/:name                    agent-scoped tool call (from the MCP server)
+  //
+  // Paths are relative to the agent instance (`/agents/nutri-agent/<name>`).
 
-  private async callLLM(messages: ChatMessage[]): Promise<ChatMessage> {
-    const apiKey = this.env.GLM_API_KEY;
-    const baseUrl = this.env.GLM_BASE_URL ?? "https://api.z.ai/api/paas/v4";
-    const model = this.env.GLM_MODEL ?? "GLM-4.7-Flash";
+  async onRequest(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^\/agents\/[^/]+\/[^/]+/, "") || "/";
+
+    if (path === "/api/chat" && request.method === "POST") {
+      const { message, conversationId, timezone } = (await request.json()) as {
+        message: string;
+        conversationId?: string;
+        timezone?: string;
+      };
+      this.setTimezone(timezone);
+      this.setLocale(request);
+      const id = conversationId ?? this.state.conversationId;
+      const result = await this.handleChat(message, silentSink, id);
+
+      if (result.status === "failed") {
+        return Response.json({ error: result.error }, { status: 502 });
+      }
+      return Response.json({
+        response: result.content,
+        conversationId: id,
+        ...(result.status === "cancelled" ? { cancelled: true } : {}),
+      });
+    }
 
-    // Get tools from MCP server (cached after first call)
-    const tools = await this.getLLMTools();
+    if (path === "/profile") {
+      if (request.method === "GET") return Response.json(this.profiles.get());
+      if (request.method === "PATCH") {
+        let profile: DietaryProfile;
+        try {
+          profile = this.profiles.update(parseProfileUpdate(await request.json()));
+        } catch (err) {
+          return Response.json({ error: (err as Error).message }, { status: 400 });
+        }
+        this.broadcastProfile(profile);
+        return Response.json(profile);
+      }
+      if (request.method === "DELETE") {
+        this.broadcastProfile(this.profiles.clear());
+        return new Response(null, { status: 204 });
+      }
+      return new Response("Method Not Allowed", { status: 405 });
+    }
 
-    const body = {
-      model,
-      messages: [{ role: "system", content: SYSTEM_PROMPT }, ...messages],
-      tools,
-      tool_choice: "auto",
-      temperature: 0.4,
-      max_tokens: 2048,
-    };
+    if (path === "/schedules") {
+      if (request.method === "GET") return Response.json(this.scheduleService().list());
+      if (request.method === "POST") {
+        try {
+          const body = (await request.json()) as Record<string, unknown>;
+          const schedule = await this.scheduleService().create(
+            parseScheduleRequest(body, this.state.timezone ?? "UTC")
+          );
+          return Response.json(schedule, { status: 201 });
+        } catch (err) {
+          return Response.json({ error: (err as Error).message }, { status: 400 });
+        }
+      }
+      return new Response("Method Not Allowed", { status: 405 });
+    }
 
-    const res = await fetch(`${baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify(body),
-    });
+    const scheduleId = path.match(/^\/schedules\/([^/]+)$/);
+    if (scheduleId && request.method === "DELETE") {
+      if (!(await this.scheduleService().cancel(decodeURIComponent(scheduleId[1])))) {
+        return Response.json({ error: "Schedule not found" }, { status: 404 });
+      }
+      return new Response(null, { status: 204 });
+    }
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`GLM API ${res.status}: ${text}`);
+    if (path === "/mcp-token" && request.method === "GET") {
+      const token = await signAgentInstance(this.name, this.env);
+      if (!token) return Response.json({ error: "AGENT_TOKEN_SECRET is not configured" }, { status: 404 });
+      return Response.json({ header: AGENT_INSTANCE_HEADER, token });
     }
 
-    const data = (await res.json()) as {
-      choices: { message: ChatMessage & { reasoning_content?: string } }[];
-    };
+    const tool = path.match(/^\/tools\/([a-z_]+)$/);
+    if (tool && request.method === "POST") {
+      try {
+        const args = (await request.json()) as Record<string, unknown>;
+        const result = await dispatchAgentTool(
+          tool[1],
+          args,
+          this.agentToolContext(),
+          request.signal
+        );
+        return Response.json({ result });
+      } catch (err) {
+        const body = err instanceof ToolError ? err.toJSON() : { error: (err as Error).message };
+        return Response.json(body, { status: 400 });
+      }
+    }
 
-    const msg = data.choices[0].message;
-    // GLM-4.7-Flash may return reasoning_content instead of content
-    if (!msg.content && msg.reasoning_content) {
-      msg.content = msg.reasoning_content;
+    if (path === "/conversations") {
+      if (request.method === "GET") {
+        return Response.json({
+          activeId: this.state.conversationId,
+          conversations: this.conversations.list(),
+        });
+      }
+      if (request.method === "POST") {
+        const { title } = (await request.json().catch(() => ({}))) as { title?: string };
+        const created = this.conversations.create(title);
+        this.activate(created.id);
+        this.broadcastConversations();
+        return Response.json(created, { status: 201 });
+      }
+      return new Response("Method Not Allowed", { status: 405 });
     }
-    return msg;
-  }
 
-  // ── HTTP fallback (non-WebSocket usage) ────────────────────────────────
+    const match = path.match(/^\/conversations\/([^/]+)(?:\/(reset|switch|cancel))?$/);
+    if (match) {
+      const id = decodeURIComponent(match[1]);
+      const action = match[2];
+      const notFound = () => Response.json({ error: "Conversation not found" }, { status: 404 });
+
+      if (action === "reset" && request.method === "POST") {
+        const conversation = this.conversations.reset(id);
+        if (!conversation) return notFound();
+        this.broadcastConversations();
+        return Response.json(conversation);
+      }
 
-  async onRequest(request: Request): Promise<Response> {
-    const url = new URL(request.url);
+      if (action === "cancel" && request.method === "POST") {
+        return Response.json({ cancelled: this.cancelTurn(id) });
+      }
+
+      if (action === "switch" && request.method === "POST") {
+        const conversation = this.conversations.get(id);
+        if (!conversation) return notFound();
+        this.activate(id);
+        this.broadcastConversations();
+        return Response.json(conversation);
+      }
 
-    if (url.pathname === "/api/chat" && request.method === "POST") {
-      const { message } = (await request.json()) as { message: string };
-      const history: ChatMessage[] = [...this.state.messages, { role: "user", content: message }];
-
-      let assistantMsg = await this.callLLM(history);
-      let iterations = 8;
-
-      while (assistantMsg.tool_calls && assistantMsg.tool_calls.length > 0 && iterations-- > 0) {
-        history.push(assistantMsg);
-        for (const tc of assistantMsg.tool_calls) {
-          let result: string;
-          try {
-            const args = JSON.parse(tc.function.arguments);
-            result = await this.executeTool(tc.function.name, args);
-          } catch (err) {
-            result = JSON.stringify({ error: String(err) });
-          }
-          history.push({ role: "tool", tool_call_id: tc.id, content: result });
+      if (!action && request.method === "GET") {
+        const conversation = this.conversations.get(id);
+        if (!conversation) return notFound();
+        return Response.json({ ...conversation, messages: this.conversations.messages(id) });
+      }
+
+      if (!action && request.method === "PATCH") {
+        const { title } = (await request.json()) as { title?: string };
+        if (!title?.trim()) {
+          return Response.json({ error: "title is required" }, { status: 400 });
         }
-        assistantMsg = await this.callLLM(history);
+        const conversation = this.conversations.rename(id, title);
+        if (!conversation) return notFound();
+        this.broadcastConversations();
+        return Response.json(conversation);
       }
 
-      history.push({ role: "assistant", content: assistantMsg.content ?? "" });
-      this.setState({ ...this.state, messages: history });
+      if (!action && request.method === "DELETE") {
+        if (!this.deleteConversation(id)) return notFound();
+        this.broadcastConversations();
+        return new Response(null, { status: 204 });
+      }
 
-      return Response.json({ response: assistantMsg.content });
+      return new Response("Method Not Allowed", { status: 405 });
     }
 
     return new Response("NutriAgent is running", { status: 200 });
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+import { findTool, validateArguments } from "../tools";
+import { DIET_TYPES, EMPTY_PROFILE, findProfileConflicts, parseProfileUpdate, UNITS, type DietaryProfile } from "./profile";
+
+vi.mock("cloudflare:workers", () => ({ waitUntil: () => {} }));
+
+const profile = (update: Partial<DietaryProfile>): DietaryProfile => ({ ...EMPTY_PROFILE, ...update });
+
+describe("parseProfileUpdate", () => {
+  it("normalises lists, diet and the snake_case calorie goal", () => {
+    expect(
+      parseProfileUpdate({ allergies: "Peanuts, milk, peanuts", diet: "Vegan", calorie_goal: 1999.6, country: "GB" })
+    ).toEqual({ allergies: ["peanuts", "milk"], diet: "vegan", calorieGoal: 2000, country: "uk" });
+  });
+
+  it("clears fields set to null and leaves absent ones alone", () => {
+    expect(parseProfileUpdate({ allergies: null, diet: null, calorieGoal: null })).toEqual({
+      allergies: [],
+      diet: "none",
+      calorieGoal: null,
+    });
+  });
+
+  it("rejects values outside the profile's lists and ranges", () => {
+    expect(() => parseProfileUpdate({ diet: "carnivore" })).toThrow(`diet must be one of: ${DIET_TYPES.join(", ")}`);
+    expect(() => parseProfileUpdate({ units: "furlongs" })).toThrow("units must be one of: metric, imperial");
+    expect(() => parseProfileUpdate({ calorieGoal: 100 })).toThrow("between 500 and 10000");
+    expect(() => parseProfileUpdate([])).toThrow("must be an object");
+  });
+
+  it("is offered through a tool schema accepting exactly the same diets and units", () => {
+    const tool = findTool("update_dietary_profile")!;
+
+    for (const diet of DIET_TYPES) expect(() => validateArguments(tool, { diet })).not.toThrow();
+    for (const units of UNITS) expect(() => validateArguments(tool, { units })).not.toThrow();
+    expect(() => validateArguments(tool, { diet: "carnivore" })).toThrow("diet must be one of");
+  });
+});
+
+describe("findProfileConflicts", () => {
+  const result = JSON.stringify({
+    products: [
+      {
+        code: "1",
+        product_name: "Milk chocolate",
+        allergens_tags: ["en:milk"],
+        traces_tags: ["en:peanuts"],
+        ingredients_analysis_tags: ["en:non-vegan", "en:vegetarian"],
+      },
+    ],
+  });
+
+  it("flags allergens, traces of allergies and diet conflicts in nested results", () => {
+    const conflicts = findProfileConflicts(
+      profile({ allergies: ["peanuts"], intolerances: ["lactose"], diet: "vegan" }),
+      result
+    );
+
+    expect(conflicts.map((c) => [c.kind, c.restriction])).toEqual([
+      ["traces", "peanuts"],
+      ["intolerance", "lactose"],
+      ["diet", "vegan"],
+    ]);
+  });
+
+  it("finds nothing for an empty profile or a non-JSON result", () => {
+    expect(findProfileConflicts(EMPTY_PROFILE, result)).toEqual([]);
+    expect(findProfileConflicts(profile({ allergies: ["milk"] }), "Error: not found")).toEqual([]);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Dietary profile — per-user preferences that shape every conversation.
+ *
+ * @developer Eduardo Arana
+ *
+ * One profile per NutriAgent instance (i.e. per user), stored in the
+ * Durable Object's SQLite. It is injected into the system prompt of every
+ * turn, and product tool results are checked against it so allergen / diet
+ * conflicts are flagged even when the model would not notice them.
+ */
+
+// not the `../tools` barrel: the profile tool specs there import this module
+import { allergenTag } from "../tools/allergens";
+import { parseCountry, parseLanguage } from "../tools/locale";
+import type { SqlFn } from "./types";
+
+// ── profile shape ──────────────────────────────────────────────────────────
+
+export const DIET_TYPES = [
+  "none",
+  "vegetarian",
+  "vegan",
+  "pescatarian",
+  "keto",
+  "low-carb",
+  "paleo",
+  "halal",
+  "kosher",
+] as const;
+
+export type DietType = (typeof DIET_TYPES)[number];
+
+export const UNITS = ["metric", "imperial"] as const;
+
+export type Units = (typeof UNITS)[number];
+
+export interface DietaryProfile {
+  allergies: string[];
+  intolerances: string[];
+  diet: DietType;
+  /** Daily energy goal in kcal, if the user set one. */
+  calorieGoal: number | null;
+  units: Units;
+  /** Country whose products to show (ISO code, OFF spelling), if the user set one. */
+  country: string | null;
+  /** Language for product names and ingredients (ISO code), if the user set one. */
+  language: string | null;
+  updatedAt: number | null;
+}
+
+export const EMPTY_PROFILE: DietaryProfile = {
+  allergies: [],
+  intolerances: [],
+  diet: "none",
+  calorieGoal: null,
+  units: "metric",
+  country: null,
+  language: null,
+  updatedAt: null,
+};
+
+export type ProfileUpdate = Partial<Omit<DietaryProfile, "updatedAt">>;
+
+function isEmpty(profile: DietaryProfile): boolean {
+  return (
+    profile.allergies.length === 0 &&
+    profile.intolerances.length === 0 &&
+    profile.diet === "none" &&
+    profile.calorieGoal === null
+  );
+}
+
+// ── validation ─────────────────────────────────────────────────────────────
+
+function stringList(value: unknown, field: string): string[] {
+  if (value === null) return [];
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || items.some((v) => typeof v !== "string")) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  const cleaned = items.map((v: string) => v.trim().toLowerCase()).filter(Boolean);
+  return [...new Set(cleaned)];
+}
+
+/**
+ * Validate a profile update from a WS / REST / tool caller. Accepts the
+ * camelCase fields and the tool schema's snake_case `calorie_goal`; fields
+ * that are absent are left unchanged, `null` clears them.
+ */
+export function parseProfileUpdate(input: unknown): ProfileUpdate {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("Profile update must be an object");
+  }
+  const raw = input as Record<string, unknown>;
+  const update: ProfileUpdate = {};
+
+  if ("allergies" in raw) update.allergies = stringList(raw.allergies, "allergies");
+  if ("intolerances" in raw) update.intolerances = stringList(raw.intolerances, "intolerances");
+
+  if ("diet" in raw) {
+    const diet = raw.diet === null ? "none" : String(raw.diet).trim().toLowerCase();
+    if (!DIET_TYPES.includes(diet as DietType)) {
+      throw new Error(`diet must be one of: ${DIET_TYPES.join(", ")}`);
+    }
+    update.diet = diet as DietType;
+  }
+
+  const goal = "calorieGoal" in raw ? raw.calorieGoal : raw.calorie_goal;
+  if ("calorieGoal" in raw || "calorie_goal" in raw) {
+    if (goal === null) {
+      update.calorieGoal = null;
+    } else {
+      const kcal = Number(goal);
+      if (!Number.isFinite(kcal) || kcal < 500 || kcal > 10_000) {
+        throw new Error("calorie_goal must be a number of kcal between 500 and 10000");
+      }
+      update.calorieGoal = Math.round(kcal);
+    }
+  }
+
+  if ("units" in raw) {
+    if (!UNITS.includes(raw.units as Units)) {
+      throw new Error(`units must be one of: ${UNITS.join(", ")}`);
+    }
+    update.units = raw.units as Units;
+  }
+
+  if ("country" in raw) update.country = parseCountry(raw.country) ?? null;
+  if ("language" in raw) update.language = parseLanguage(raw.language) ?? null;
+
+  return update;
+}
+
+// ── storage ────────────────────────────────────────────────────────────────
+
+type ProfileRow = {
+  allergies: string;
+  intolerances: string;
+  diet: string;
+  calorie_goal: number | null;
+  units: string;
+  country: string | null;
+  language: string | null;
+  updated_at: number;
+};
+
+export class ProfileStore {
+  private sql: SqlFn;
+
+  constructor(sql: SqlFn) {
+    this.sql = sql;
+    // single-row table: one profile per agent instance
+    this.sql`
+      CREATE TABLE IF NOT EXISTS dietary_profile (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        allergies TEXT NOT NULL,
+        intolerances TEXT NOT NULL,
+        diet TEXT NOT NULL,
+        calorie_goal INTEGER,
+        units TEXT NOT NULL,
+        country TEXT,
+        language TEXT,
+        updated_at INTEGER NOT NULL
+      )
+    `;
+    // profiles stored before country / language existed
+    const columns = this.sql<{ name: string }>`PRAGMA table_info(dietary_profile)`.map((c) => c.name);
+    if (!columns.includes("country")) this.sql`ALTER TABLE dietary_profile ADD COLUMN country TEXT`;
+    if (!columns.includes("language")) this.sql`ALTER TABLE dietary_profile ADD COLUMN language TEXT`;
+  }
+
+  get(): DietaryProfile {
+    const [row] = this.sql<ProfileRow>`SELECT * FROM dietary_profile WHERE id = 1`;
+    if (!row) return { ...EMPTY_PROFILE };
+    return {
+      allergies: JSON.parse(row.allergies),
+      intolerances: JSON.parse(row.intolerances),
+      diet: row.diet as DietType,
+      calorieGoal: row.calorie_goal,
+      units: row.units as Units,
+      country: row.country ?? null,
+      language: row.language ?? null,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  update(update: ProfileUpdate): DietaryProfile {
+    const next = { ...this.get(), ...update, updatedAt: Date.now() };
+    this.sql`
+      INSERT OR REPLACE INTO dietary_profile
+        (id, allergies, intolerances, diet, calorie_goal, units, country, language, updated_at)
+      VALUES (1, ${JSON.stringify(next.allergies)}, ${JSON.stringify(next.intolerances)},
+              ${next.diet}, ${next.calorieGoal}, ${next.units}, ${next.country}, ${next.language},
+              ${next.updatedAt})
+    `;
+    return next;
+  }
+
+  clear(): DietaryProfile {
+    this.sql`DELETE FROM dietary_profile`;
+    return { ...EMPTY_PROFILE };
+  }
+}
+
+// ── prompt ─────────────────────────────────────────────────────────────────
+
+/** System-prompt section describing the profile, or `null` if nothing is set. */
+export function profilePrompt(profile: DietaryProfile): string | null {
+  if (isEmpty(profile) && profile.units === "metric" && !profile.country && !profile.language) {
+    return null;
+  }
+
+  const lines = [
+    `• Allergies: ${profile.allergies.join(", ") || "none declared"}`,
+    `• Intolerances: ${profile.intolerances.join(", ") || "none declared"}`,
+    `• Diet: ${profile.diet === "none" ? "no restriction" : profile.diet}`,
+    `• Daily calorie goal: ${profile.calorieGoal ? `${profile.calorieGoal} kcal` : "not set"}`,
+    `• Preferred units: ${profile.units}${profile.units === "imperial" ? " (also give oz / lb next to g / kg)" : ""}`,
+    `• Country: ${profile.country ?? "not set"}`,
+    `• Product language: ${profile.language ?? "not set"}`,
+  ];
+  return `USER DIETARY PROFILE (stored — do not ask for it again):\n${lines.join("\n")}`;
+}
+
+// ── conflict detection ─────────────────────────────────────────────────────
+
+/** Diets checked against OFF's `ingredients_analysis_tags`. */
+const DIET_CONFLICT_TAGS: Partial<Record<DietType, string>> = {
+  vegan: "en:non-vegan",
+  vegetarian: "en:non-vegetarian",
+};
+
+export interface ProfileConflict {
+  code: string;
+  product_name: string;
+  kind: "allergy" | "intolerance" | "traces" | "diet";
+  /** The declared allergen / intolerance / diet that is violated. */
+  restriction: string;
+  message: string;
+}
+
+type ProductLike = {
+  code?: unknown;
+  product_name?: unknown;
+  allergens_tags?: unknown;
+  traces_tags?: unknown;
+  ingredients_analysis_tags?: unknown;
+};
+
+/** Depth-first walk collecting every object that carries product tag arrays. */
+function findProducts(value: unknown, out: ProductLike[] = []): ProductLike[] {
+  if (Array.isArray(value)) {
+    value.forEach((v) => findProducts(v, out));
+  } else if (value && typeof value === "object") {
+    const obj = value as Record<string, unknown>;
+    if (Array.isArray(obj.allergens_tags) || Array.isArray(obj.ingredients_analysis_tags)) {
+      out.push(obj);
+    }
+    Object.values(obj).forEach((v) => findProducts(v, out));
+  }
+  return out;
+}
+
+const tags = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+/**
+ * Check a tool result (JSON text) for products that conflict with the
+ * profile. Non-JSON results (errors, plain text) never conflict.
+ */
+export function findProfileConflicts(profile: DietaryProfile, result: string): ProfileConflict[] {
+  if (isEmpty(profile)) return [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(result);
+  } catch {
+    return [];
+  }
+
+  const conflicts: ProfileConflict[] = [];
+  for (const p of findProducts(data)) {
+    const name = String(p.product_name ?? "This product");
+    const code = String(p.code ?? "");
+    const allergens = tags(p.allergens_tags);
+    const traces = tags(p.traces_tags);
+
+    const check = (restriction: string, kind: "allergy" | "intolerance") => {
+      const tag = allergenTag(restriction);
+      if (allergens.includes(tag)) {
+        conflicts.push({
+          code,
+          product_name: name,
+          kind,
+          restriction,
+          message: `${name} contains ${restriction} (declared ${kind})`,
+        });
+      } else if (kind === "allergy" && traces.includes(tag)) {
+        conflicts.push({
+          code,
+          product_name: name,
+          kind: "traces",
+          restriction,
+          message: `${name} may contain traces of ${restriction} (declared allergy)`,
+        });
+      }
+    };
+    profile.allergies.forEach((a) => check(a, "allergy"));
+    profile.intolerances.forEach((i) => check(i, "intolerance"));
+
+    const dietTag = DIET_CONFLICT_TAGS[profile.diet];
+    if (dietTag && tags(p.ingredients_analysis_tags).includes(dietTag)) {
+      conflicts.push({
+        code,
+        product_name: name,
+        kind: "diet",
+        restriction: profile.diet,
+        message: `${name} is not ${profile.diet}`,
+      });
+    }
+  }
+  return conflicts;
+}
@@ -0,0 +1,303 @@
+/**
+ * Agent runtime — the single LLM / tool-use loop.
+ *
+ * @developer Eduardo Arana
+ *
+ * Every entry point (WebSocket chat, `/api/chat`, A2A SendMessage) runs a
+ * user turn through `runAgent()`. The runtime owns the system prompt, the
+ * iteration limit and error handling, and reports progress as `AgentEvent`s
+ * to a caller-supplied `AgentSink`:
+ *
+ *   pipeline → thinking → [delta…] → tool_call… → … → final | cancelled | error
+ *
+ * Tool calls requested in the same assistant turn are independent and run
+ * concurrently; each reports its own `tools` pipeline progress and is bounded
+ * by the executor's timeout.
+ *
+ * Aborting `signal` cancels the pending LLM request and running tool calls;
+ * the turn then ends with whatever reply had streamed so far, recorded as a
+ * cancelled assistant message.
+ */
+
+import type { Env } from "../types";
+import { createLLM, type LLMProvider } from "../llm";
+import { ToolError, withLocaleDefaults, type OffLocale } from "../tools";
+import { SYSTEM_PROMPT } from "./prompt";
+import { ToolTimeoutError, type ToolExecutor } from "./executor";
+import { findProfileConflicts, profilePrompt, type DietaryProfile } from "./profile";
+import type {
+  AgentResult,
+  AgentSink,
+  ChatMessage,
+  LLMDelta,
+  LLMTool,
+  PipelineStatus,
+  PipelineStep,
+  ToolCall,
+  ToolCallProgress,
+} from "./types";
+
+/** Maximum number of tool-calling rounds per user turn. */
+const MAX_ITERATIONS = 8;
+
+export interface RunAgentOptions {
+  env: Env;
+  tools: ToolExecutor;
+  sink: AgentSink;
+  /** Provider chain override; defaults to `createLLM(env)`. */
+  llm?: LLMProvider;
+  /** Running summary of condensed older turns (see `./context`). */
+  summary?: string;
+  /** Cancels the turn (user-initiated stop). */
+  signal?: AbortSignal;
+  /** The user's dietary profile: added to the prompt and checked against tool results. */
+  profile?: DietaryProfile;
+  /** Default `country` / `lang` for OpenFoodFacts tool calls that don't give one. */
+  locale?: OffLocale;
+}
+
+// ── tool-use loop ──────────────────────────────────────────────────────────
+
+/**
+ * Run one user turn. `history` must already end with the user message; the
+ * returned history additionally contains the assistant / tool turns.
+ */
+export async function runAgent(
+  history: ChatMessage[],
+  { env, tools, sink, llm, summary, signal, profile, locale }: RunAgentOptions
+): Promise<AgentResult> {
+  const messages = [...history];
+  const system = [
+    SYSTEM_PROMPT,
+    profile && profilePrompt(profile),
+    summary && `SUMMARY OF EARLIER CONVERSATION:\n${summary}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  const pipeline = (step: PipelineStep, status: PipelineStatus, detail: string) =>
+    sink.emit({ type: "pipeline", step, status, detail });
+
+  // reply text streamed during the current LLM call — kept if the user cancels
+  let partial = "";
+
+  // forward streamed fragments only to sinks that render them
+  const onDelta = sink.streaming
+    ? (delta: LLMDelta) => {
+        if (delta.content) partial += delta.content;
+        sink.emit({ type: "delta", ...delta });
+      }
+    : undefined;
+
+  // ── pipeline: agent received query ──
+  pipeline("agent", "active", "Processing your query");
+  sink.emit({ type: "thinking" });
+
+  try {
+    const provider = llm ?? createLLM(env);
+    const llmTools = await tools.listTools();
+
+    // ── pipeline: calling LLM ──
+    pipeline("llm", "active", `Reasoning with ${provider.model}`);
+    let assistantMessage = await callLLM(provider, system, messages, llmTools, onDelta, signal);
+
+    // agentic tool loop — keep calling tools until the model stops requesting them
+    let iterations = MAX_ITERATIONS;
+    while (assistantMessage.tool_calls && assistantMessage.tool_calls.length > 0 && iterations-- > 0) {
+      // push the assistant turn with tool_calls
+      messages.push(assistantMessage);
+
+      const calls = assistantMessage.tool_calls;
+
+      // ── pipeline: routing through MCP ──
+      pipeline(
+        "mcp",
+        "active",
+        calls.length > 1
+          ? `Routing ${calls.length} tool calls via MCP Server`
+          : "Routing tool calls via MCP Server"
+      );
+
+      for (const tc of calls) {
+        sink.emit({
+          type: "tool_call",
+          id: tc.id,
+          tool: tc.function.name,
+          args: tc.function.arguments,
+        });
+      }
+
+      // ── pipeline: executing tools (concurrently) ──
+      const results = await Promise.all(
+        calls.map((tc) => executeToolCall(tools, tc, sink, signal, profile, locale))
+      );
+
+      // tool results go back in request order, whatever order they finished in
+      calls.forEach((tc, i) => {
+        messages.push({ role: "tool", tool_call_id: tc.id, content: results[i] });
+      });
+
+      // ── pipeline: re-calling LLM with results ──
+      pipeline("llm", "active", "Analyzing tool results");
+      sink.emit({ type: "thinking" });
+      partial = "";
+      assistantMessage = await callLLM(provider, system, messages, llmTools, onDelta, signal);
+    }
+
+    // final assistant reply
+    const content = assistantMessage.content ?? "";
+    messages.push({ role: "assistant", content });
+
+    // ── pipeline: done ──
+    pipeline("done", "complete", "Response ready");
+    sink.emit({ type: "final", content });
+
+    return { status: "completed", content, history: messages };
+  } catch (err) {
+    if (signal?.aborted) {
+      // interrupted tool calls still need results for the history to stay valid
+      const last = messages[messages.length - 1];
+      if (last?.role === "assistant" && last.tool_calls?.length) {
+        for (const tc of last.tool_calls) {
+          messages.push({
+            role: "tool",
+            tool_call_id: tc.id,
+            content: JSON.stringify({ error: "Cancelled by the user", code: "cancelled" }),
+          });
+        }
+      }
+      messages.push({ role: "assistant", content: partial, cancelled: true });
+
+      // ── pipeline: cancelled ──
+      pipeline("done", "cancelled", "Cancelled by user");
+      sink.emit({ type: "cancelled", content: partial });
+
+      return { status: "cancelled", content: partial, history: messages };
+    }
+
+    const error = err instanceof Error ? err.message : String(err);
+
+    // ── pipeline: error ──
+    pipeline("done", "complete", "Error encountered");
+    sink.emit({ type: "error", message: error });
+
+    return { status: "failed", error };
+  }
+}
+
+// ── tool call ──────────────────────────────────────────────────────────────
+
+/**
+ * Run one tool call, reporting its progress. Never throws: failures become a
+ * JSON error result the model can reason about. Timeouts are marked as such
+ * so the model can retry, narrow the request or answer without the data.
+ * Only cancellation propagates, ending the turn.
+ */
+async function executeToolCall(
+  tools: ToolExecutor,
+  tc: ToolCall,
+  sink: AgentSink,
+  signal?: AbortSignal,
+  profile?: DietaryProfile,
+  locale: OffLocale = {}
+): Promise<string> {
+  const tool = tc.function.name;
+  const started = Date.now();
+
+  const progress = (state: ToolCallProgress["state"], detail: string) =>
+    sink.emit({
+      type: "pipeline",
+      step: "tools",
+      status: state === "running" ? "active" : "complete",
+      detail,
+      call: {
+        id: tc.id,
+        tool,
+        state,
+        ...(state === "running" ? {} : { durationMs: Date.now() - started }),
+      },
+    });
+
+  progress("running", `Executing ${tool}`);
+  try {
+    const args = withLocaleDefaults(tool, JSON.parse(tc.function.arguments || "{}"), locale);
+    const result = await tools.callTool(tool, args, signal);
+    progress("done", `${tool} returned data`);
+    return profile ? flagConflicts(profile, tc, result, sink) : result;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    if (err instanceof ToolTimeoutError) {
+      progress("timeout", `${tool} timed out`);
+      return JSON.stringify({
+        error: err.message,
+        code: "timeout",
+        tool,
+        timeout_ms: err.timeoutMs,
+        retryable: true,
+      });
+    }
+    progress("error", `${tool} failed`);
+    // typed failures (e.g. invalid_barcode) reach the model as structured data
+    if (err instanceof ToolError) return JSON.stringify({ ...err.toJSON(), tool });
+    return JSON.stringify({ error: String(err) });
+  }
+}
+
+/**
+ * Attach dietary-profile conflicts to a tool result as `profile_warnings`
+ * (so the model leads with a warning) and report them to the sink.
+ */
+function flagConflicts(
+  profile: DietaryProfile,
+  tc: ToolCall,
+  result: string,
+  sink: AgentSink
+): string {
+  const conflicts = findProfileConflicts(profile, result);
+  if (conflicts.length === 0) return result;
+
+  sink.emit({ type: "warning", callId: tc.id, tool: tc.function.name, conflicts });
+
+  const data = JSON.parse(result) as unknown;
+  const flagged =
+    data && typeof data === "object" && !Array.isArray(data)
+      ? { ...data, profile_warnings: conflicts }
+      : { result: data, profile_warnings: conflicts };
+  return JSON.stringify(flagged, null, 2);
+}
+
+// ── LLM call ───────────────────────────────────────────────────────────────
+
+/**
+ * Ask the provider chain for the next assistant turn. Reasoning-only replies
+ * (e.g. GLM-4.7-Flash returning `reasoning_content` with empty `content`)
+ * fall back to the reasoning text.
+ */
+async function callLLM(
+  llm: LLMProvider,
+  system: string,
+  messages: ChatMessage[],
+  tools: LLMTool[],
+  onDelta?: (delta: LLMDelta) => void,
+  signal?: AbortSignal
+): Promise<ChatMessage> {
+  const { message, reasoning } = await llm.complete({
+    system,
+    messages: messages.map(toProviderMessage),
+    tools,
+    onDelta,
+    signal,
+  });
+
+  if (!message.content && reasoning) {
+    return { ...message, content: reasoning };
+  }
+  return message;
+}
+
+/** Cancelled replies are sent as text, so the model knows it was cut short. */
+function toProviderMessage({ cancelled, ...message }: ChatMessage): ChatMessage {
+  if (!cancelled) return message;
+  const note = "[Reply cancelled by the user]";
+  return { ...message, content: message.content ? `${message.content}\n\n${note}` : note };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { localDate, nextOccurrence, parseScheduleRequest, type ScheduledTask } from "./schedules";
+
+type Task = Omit<ScheduledTask, "id" | "createdAt">;
+
+const daily = (time: string, timezone: string, days = [0, 1, 2, 3, 4, 5, 6]): Task => ({
+  kind: "summary",
+  time,
+  days,
+  timezone,
+});
+
+const next = (task: Task, after: string) => nextOccurrence(task, new Date(after)).toISOString();
+
+describe("nextOccurrence", () => {
+  it("keeps the local time across the spring DST change", () => {
+    const task = daily("21:00", "Europe/Madrid");
+
+    expect(next(task, "2026-03-28T12:00:00Z")).toBe("2026-03-28T20:00:00.000Z");
+    expect(next(task, "2026-03-28T20:00:00Z")).toBe("2026-03-29T19:00:00.000Z");
+  });
+
+  it("keeps the local time across the autumn DST change", () => {
+    const task = daily("08:00", "America/New_York");
+
+    expect(next(task, "2026-10-31T11:00:00Z")).toBe("2026-10-31T12:00:00.000Z");
+    expect(next(task, "2026-10-31T12:00:00Z")).toBe("2026-11-01T13:00:00.000Z");
+  });
+
+  it("moves a time skipped by the spring change to the same instant an hour later", () => {
+    expect(next(daily("02:30", "Europe/Madrid"), "2026-03-28T12:00:00Z")).toBe("2026-03-29T01:30:00.000Z");
+  });
+
+  it("skips days the schedule does not run on and rolls over the year", () => {
+    // Friday 2026-01-02 after 21:00 in Tokyo → Monday
+    expect(next(daily("21:00", "Asia/Tokyo", [1, 2, 3, 4, 5]), "2026-01-02T12:30:00Z")).toBe(
+      "2026-01-05T12:00:00.000Z"
+    );
+    expect(next(daily("09:00", "UTC"), "2026-12-31T10:00:00Z")).toBe("2027-01-01T09:00:00.000Z");
+  });
+
+  it("returns an occurrence strictly after the given instant", () => {
+    expect(next(daily("09:00", "UTC", [4]), "2026-10-22T09:00:00Z")).toBe("2026-10-29T09:00:00.000Z");
+  });
+});
+
+describe("localDate", () => {
+  it("is the calendar day in the timezone", () => {
+    const at = new Date("2026-10-19T23:30:00Z");
+
+    expect(localDate("Asia/Tokyo", at)).toBe("2026-10-20");
+    expect(localDate("America/Los_Angeles", at)).toBe("2026-10-19");
+  });
+});
+
+describe("parseScheduleRequest", () => {
+  it("normalises times and named day sets", () => {
+    expect(parseScheduleRequest({ kind: "summary", time: "9pm", days: "weekdays" }, "Europe/Madrid")).toEqual({
+      kind: "summary",
+      time: "21:00",
+      days: [1, 2, 3, 4, 5],
+      timezone: "Europe/Madrid",
+    });
+    expect(
+      parseScheduleRequest({ kind: "reminder", time: "7:05", days: ["Thu", "mon", "mon"], message: " Water " }, "UTC")
+    ).toMatchObject({ time: "07:05", days: [1, 4], message: "Water" });
+  });
+
+  it("rejects bad times, timezones and empty reminders", () => {
+    expect(() => parseScheduleRequest({ kind: "summary", time: "25:00" }, "UTC")).toThrow("valid time");
+    expect(() => parseScheduleRequest({ kind: "summary", time: "13pm" }, "UTC")).toThrow("valid time");
+    expect(() => parseScheduleRequest({ kind: "summary", time: "21:00", timezone: "Mars/Base" }, "UTC")).toThrow(
+      "Unknown timezone"
+    );
+    expect(() => parseScheduleRequest({ kind: "reminder", time: "21:00" }, "UTC")).toThrow("needs a message");
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Scheduled summaries and reminders.
+ *
+ * @developer Eduardo Arana
+ *
+ * Schedules are recurring local times ("21:00 every day", "12:30 on
+ * weekdays") in the user's IANA timezone. Each one is kept as a single
+ * one-shot Agents SDK schedule for its next occurrence; when it fires, the
+ * agent delivers the message and books the following occurrence. Computing
+ * every occurrence in the timezone (rather than a fixed UTC cron) keeps the
+ * local time right across DST changes.
+ *
+ * Messages produced while no tab is connected wait in the inbox
+ * (`notifications` table) and are delivered on the next connect.
+ */
+
+import type { DayTotals } from "./diary";
+import type { SqlFn } from "./types";
+
+// ── schedule shape ─────────────────────────────────────────────────────────
+
+export type ScheduleKind = "summary" | "reminder";
+
+/** Payload stored with the SDK schedule; `id` is stable across occurrences. */
+export interface ScheduledTask {
+  id: string;
+  kind: ScheduleKind;
+  /** Local time of day, `HH:MM`. */
+  time: string;
+  /** Weekdays it runs on (0 = Sunday … 6 = Saturday). */
+  days: number[];
+  timezone: string;
+  /** Reminder text (reminders only). */
+  message?: string;
+  createdAt: number;
+}
+
+/** A task plus its next run, as listed to users. */
+export interface ScheduleInfo extends ScheduledTask {
+  nextRunAt: number;
+  description: string;
+}
+
+/** Implemented by the agent; used by the schedule tools and commands. */
+export interface ScheduleService {
+  create(task: Omit<ScheduledTask, "id" | "createdAt">): Promise<ScheduleInfo>;
+  list(): ScheduleInfo[];
+  cancel(id: string): Promise<boolean>;
+}
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// ── validation ─────────────────────────────────────────────────────────────
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseTime(value: unknown): string {
+  const match = String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (!match) throw new Error('time must look like "21:00" or "9pm"');
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  if (match[3]) {
+    if (hours < 1 || hours > 12) throw new Error("time must be a valid time of day");
+    hours = (hours % 12) + (match[3] === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) throw new Error("time must be a valid time of day");
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function parseDays(value: unknown): number[] {
+  if (value === undefined || value === null || value === "daily") return EVERY_DAY;
+  if (value === "weekdays") return [1, 2, 3, 4, 5];
+  if (value === "weekends") return [0, 6];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('days must be "daily", "weekdays", "weekends" or a list like ["mon", "thu"]');
+  }
+  const days = value.map((d) => {
+    const index = typeof d === "number" ? d : DAY_NAMES.indexOf(String(d).slice(0, 3).toLowerCase());
+    if (!Number.isInteger(index) || index < 0 || index > 6) throw new Error(`Unknown weekday: ${d}`);
+    return index;
+  });
+  return [...new Set(days)].sort();
+}
+
+/** Validate a schedule request from a tool / WS / REST caller. */
+export function parseScheduleRequest(
+  input: Record<string, unknown>,
+  defaultTimezone: string
+): Omit<ScheduledTask, "id" | "createdAt"> {
+  const kind = input.kind;
+  if (kind !== "summary" && kind !== "reminder") {
+    throw new Error('kind must be "summary" or "reminder"');
+  }
+
+  const timezone = String(input.timezone ?? defaultTimezone);
+  if (!isValidTimezone(timezone)) throw new Error(`Unknown timezone: ${timezone}`);
+
+  const message = typeof input.message === "string" ? input.message.trim() : "";
+  if (kind === "reminder" && !message) throw new Error("A reminder needs a message");
+
+  return {
+    kind,
+    time: parseTime(input.time),
+    days: parseDays(input.days),
+    timezone,
+    ...(kind === "reminder" ? { message } : {}),
+  };
+}
+
+export function describeSchedule(task: ScheduledTask): string {
+  const days =
+    task.days.length === 7
+      ? "every day"
+      : task.days.join() === "1,2,3,4,5"
+        ? "on weekdays"
+        : `on ${task.days.map((d) => DAY_NAMES[d]).join(", ")}`;
+  const what = task.kind === "summary" ? "Nutrition summary" : `Reminder: ${task.message}`;
+  return `${what} — ${task.time} ${days} (${task.timezone})`;
+}
+
+export function scheduleInfo(task: ScheduledTask, nextRunAt: number): ScheduleInfo {
+  return { ...task, nextRunAt, description: describeSchedule(task) };
+}
+
+// ── timezone arithmetic ────────────────────────────────────────────────────
+
+type LocalParts = { year: number; month: number; day: number; hour: number; minute: number };
+
+function localParts(date: Date, timezone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute") };
+}
+
+/** Minutes the timezone is ahead of UTC at `date`. */
+function offsetMinutes(date: Date, timezone: string): number {
+  const p = localParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((asUtc - date.getTime()) / 60_000);
+}
+
+/** UTC instant of a local wall-clock time (the offset is re-checked once for DST). */
+function localToUtc(p: LocalParts, timezone: string): Date {
+  const guess = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  let utc = guess - offsetMinutes(new Date(guess), timezone) * 60_000;
+  utc = guess - offsetMinutes(new Date(utc), timezone) * 60_000;
+  return new Date(utc);
+}
+
+/** Today's date (`YYYY-MM-DD`) in the timezone. */
+export function localDate(timezone: string, at = new Date()): string {
+  const p = localParts(at, timezone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+/** The first occurrence of the task strictly after `after`. */
+export function nextOccurrence(task: Omit<ScheduledTask, "id" | "createdAt">, after = new Date()): Date {
+  const [hour, minute] = task.time.split(":").map(Number);
+  const today = localParts(after, task.timezone);
+
+  for (let i = 0; i <= 7; i++) {
+    // calendar arithmetic on a UTC date avoids month / year rollover bugs
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day + i));
+    if (!task.days.includes(day.getUTCDay())) continue;
+    const at = localToUtc(
+      { year: day.getUTCFullYear(), month: day.getUTCMonth() + 1, day: day.getUTCDate(), hour, minute },
+      task.timezone
+    );
+    if (at > after) return at;
+  }
+  throw new Error("Schedule has no upcoming occurrence");
+}
+
+// ── summary composition ────────────────────────────────────────────────────
+
+export const DAILY_SUMMARY_PROMPT = `You are NutriAgent writing the user's scheduled end-of-day nutrition summary.
+Using ONLY the data provided, write a short, friendly message (max ~120 words, markdown):
+today's energy and macros against their calorie goal, a note per meal if useful, what they
+chatted about, and one practical suggestion for tomorrow. If nothing was logged, say so
+gently and invite them to log their meals.`;
+
+/** How long a scheduled summary waits for the LLM before sending the plain one. */
+export const SUMMARY_LLM_TIMEOUT_MS = 20_000;
+
+/** Plain summary used when the LLM is unavailable. */
+export function formatSummary(day: DayTotals, calorieGoal: number | null, topics: string[]): string {
+  const t = day.total;
+  const lines = [`**Your nutrition summary for ${day.date}**`];
+  if (t.energy_kcal === 0 && Object.keys(day.byMeal).length === 0) {
+    lines.push("", "Nothing was logged today — tell me what you ate and I'll add it to your diary.");
+  } else {
+    lines.push(
+      "",
+      `• Energy: ${t.energy_kcal} kcal${calorieGoal ? ` of ${calorieGoal} kcal goal` : ""}`,
+      `• Protein ${t.proteins} g · Carbs ${t.carbohydrates} g (sugars ${t.sugars} g) · Fat ${t.fat} g · Salt ${t.salt} g`,
+      ...Object.entries(day.byMeal).map(([meal, n]) => `• ${meal}: ${n.energy_kcal} kcal`)
+    );
+  }
+  if (topics.length) lines.push("", `Today we talked about: ${topics.join(", ")}.`);
+  return lines.join("\n");
+}
+
+// ── inbox ──────────────────────────────────────────────────────────────────
+
+export interface Notification {
+  id: number;
+  kind: ScheduleKind;
+  content: string;
+  scheduleId: string;
+  createdAt: number;
+}
+
+type NotificationRow = {
+  id: number;
+  kind: string;
+  content: string;
+  schedule_id: string;
+  created_at: number;
+};
+
+function toNotification(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    kind: row.kind as ScheduleKind,
+    content: row.content,
+    scheduleId: row.schedule_id,
+    createdAt: row.created_at,
+  };
+}
+
+/** Scheduled messages, with a read flag for ones no tab has seen yet. */
+export class NotificationStore {
+  private sql: SqlFn;
+
+  constructor(sql: SqlFn) {
+    this.sql = sql;
+    this.sql`
+      CREATE TABLE IF NOT EXISTS notifications (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        content TEXT NOT NULL,
+        schedule_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        read INTEGER NOT NULL DEFAULT 0
+      )
+    `;
+  }
+
+  add(kind: ScheduleKind, content: string, scheduleId: string): Notification {
+    const [row] = this.sql<NotificationRow>`
+      INSERT INTO notifications (kind, content, schedule_id, created_at)
+      VALUES (${kind}, ${content}, ${scheduleId}, ${Date.now()})
+      RETURNING *
+    `;
+    return toNotification(row);
+  }
+
+  unread(): Notification[] {
+    return this.sql<NotificationRow>`
+      SELECT * FROM notifications WHERE read = 0 ORDER BY id
+    `.map(toNotification);
+  }
+
+  markRead(ids: number[]): void {
+    for (const id of ids) this.sql`UPDATE notifications SET read = 1 WHERE id = ${id}`;
+  }
+}
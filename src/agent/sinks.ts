@@ -0,0 +1,54 @@
+/**
+ * Agent event sinks
+ *
+ * @developer Eduardo Arana
+ *
+ * Adapters that turn runtime `AgentEvent`s into transport-specific output.
+ * The A2A task updater lives with the A2A layer (`src/a2a/server.ts`).
+ */
+
+import type { Connection } from "agents";
+import type { AgentEvent, AgentSink } from "./types";
+
+/**
+ * WebSocket sink — translates runtime events into the chat UI's frame
+ * protocol (`pipeline`, `status`, `tool_call`, `delta`, `warning`,
+ * `response`, `cancelled`, `error`).
+ */
+export function connectionSink(connection: Connection): AgentSink {
+  const send = (frame: object) => connection.send(JSON.stringify(frame));
+
+  return {
+    streaming: true,
+    emit(event: AgentEvent) {
+      switch (event.type) {
+        case "pipeline":
+          send({
+            type: "pipeline",
+            step: event.step,
+            status: event.status,
+            detail: event.detail,
+            ...(event.call ? { call: event.call } : {}),
+          });
+          break;
+        case "thinking":
+          // legacy "thinking" status for backwards compat
+          send({ type: "status", status: "thinking" });
+          break;
+        case "final":
+          send({ type: "response", content: event.content });
+          break;
+        case "error":
+          send({ type: "error", message: `Sorry, something went wrong: ${event.message}` });
+          break;
+        default:
+          send(event);
+      }
+    },
+  };
+}
+
+/** Sink that discards progress — for callers that only need the result. */
+export const silentSink: AgentSink = {
+  emit() {},
+};
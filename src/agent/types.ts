@@ -0,0 +1,72 @@
+/**
+ * Agent runtime types
+ *
+ * @developer Eduardo Arana
+ *
+ * Shared message, tool-call and progress-event shapes used by the agent
+ * runtime and every entry point that drives it (WebSocket, REST, A2A).
+ * Message / tool-call shapes are owned by the LLM provider layer.
+ */
+
+import type { ChatMessage, LLMDelta } from "../llm/types";
+import type { ProfileConflict } from "./profile";
+
+export type { ChatMessage, ToolCall, LLMTool, LLMDelta } from "../llm/types";
+
+// ── progress events ────────────────────────────────────────────────────────
+
+export type PipelineStep = "agent" | "llm" | "mcp" | "tools" | "done";
+
+export type PipelineStatus = "active" | "complete" | "cancelled";
+
+/** Progress of one tool call; tool calls in a turn run concurrently. */
+export interface ToolCallProgress {
+  id: string;
+  tool: string;
+  state: "running" | "done" | "error" | "timeout";
+  /** Wall-clock duration, once the call has settled. */
+  durationMs?: number;
+}
+
+export type AgentEvent =
+  | {
+      type: "pipeline";
+      step: PipelineStep;
+      status: PipelineStatus;
+      detail: string;
+      /** Set on `tools` events that report a single call. */
+      call?: ToolCallProgress;
+    }
+  | { type: "thinking" }
+  | { type: "tool_call"; id: string; tool: string; args: string }
+  | ({ type: "delta" } & LLMDelta)
+  /** A tool result conflicts with the user's dietary profile. */
+  | { type: "warning"; callId: string; tool: string; conflicts: ProfileConflict[] }
+  | { type: "final"; content: string }
+  /** The user stopped the turn; `content` is the partial reply, if any. */
+  | { type: "cancelled"; content: string }
+  | { type: "error"; message: string };
+
+/**
+ * Destination for runtime progress events. Each entry point supplies its
+ * own sink (WebSocket connection, REST collector, A2A task updater).
+ */
+export interface AgentSink {
+  /** Whether the sink wants token-level `delta` events (enables LLM streaming). */
+  readonly streaming?: boolean;
+  emit(event: AgentEvent): void;
+}
+
+/** Outcome of a single user turn through the runtime. */
+export type AgentResult =
+  | { status: "completed"; content: string; history: ChatMessage[] }
+  | { status: "cancelled"; content: string; history: ChatMessage[] }
+  | { status: "failed"; error: string };
+
+// ── storage ────────────────────────────────────────────────────────────────
+
+/** The Agent's `this.sql` tagged template, bound for use outside the class. */
+export type SqlFn = <T = Record<string, string | number | boolean | null>>(
+  strings: TemplateStringsArray,
+  ...values: (string | number | boolean | null)[]
+) => T[];
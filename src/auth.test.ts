@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { getUserInstanceName, scopeAgentRequest, signAgentInstance, verifyAgentInstance } from "./auth";
+import type { Env } from "./types";
+
+const env = { AUTH_USER: "ana", AUTH_PASS: "secret", AGENT_TOKEN_SECRET: "token-secret" } as Env;
+
+const basic = (user: string, pass: string) => ({ Authorization: `Basic ${btoa(`${user}:${pass}`)}` });
+
+const agentRequest = (instance: string, headers: HeadersInit = basic("ana", "secret")) =>
+  new Request(`https://nutri-agent.test/agents/nutri-agent/${instance}/mcp-token`, { headers });
+
+describe("signed agent instance tokens", () => {
+  it("verifies a token back to the instance it was signed for", async () => {
+    const token = await signAgentInstance("user-abc", env);
+
+    expect(token).toMatch(/^user-abc\.[\w-]+$/);
+    expect(await verifyAgentInstance(token!, env)).toBe("user-abc");
+  });
+
+  it("rejects a token for another instance, another secret or a mangled signature", async () => {
+    const token = (await signAgentInstance("user-abc", env))!;
+    const signature = token.slice(token.indexOf(".") + 1);
+
+    expect(await verifyAgentInstance(`user-xyz.${signature}`, env)).toBeNull();
+    expect(await verifyAgentInstance(token, { ...env, AGENT_TOKEN_SECRET: "other" })).toBeNull();
+    expect(await verifyAgentInstance(`user-abc.${signature.slice(1)}`, env)).toBeNull();
+    expect(await verifyAgentInstance("user-abc.not base64!", env)).toBeNull();
+    expect(await verifyAgentInstance("user-abc", env)).toBeNull();
+  });
+
+  it("neither issues nor accepts tokens without a secret", async () => {
+    const token = (await signAgentInstance("user-abc", env))!;
+    const noSecret = { ...env, AGENT_TOKEN_SECRET: undefined } as Env;
+
+    expect(await signAgentInstance("user-abc", noSecret)).toBeNull();
+    expect(await verifyAgentInstance(token, noSecret)).toBeNull();
+  });
+});
+
+describe("scopeAgentRequest", () => {
+  it("rewrites `me` to the caller's own instance", async () => {
+    const own = await getUserInstanceName(agentRequest("me"), env);
+    const scoped = await scopeAgentRequest(agentRequest("me"), env);
+
+    expect(own).toMatch(/^user-[0-9a-f]{32}$/);
+    expect((scoped as Request).url).toBe(`https://nutri-agent.test/agents/nutri-agent/${own}/mcp-token`);
+  });
+
+  it("passes the caller's own instance and forbids anyone else's", async () => {
+    const own = await getUserInstanceName(agentRequest("me"), env);
+    const request = agentRequest(own);
+
+    expect(await scopeAgentRequest(request, env)).toBe(request);
+    expect(((await scopeAgentRequest(agentRequest(own, basic("bob", "x")), env)) as Response).status).toBe(403);
+    expect(((await scopeAgentRequest(agentRequest("%E0"), env)) as Response).status).toBe(403);
+  });
+
+  it("uses one shared instance when auth is disabled", async () => {
+    const scoped = await scopeAgentRequest(agentRequest("me", {}), {} as Env);
+
+    expect((scoped as Request).url).toBe("https://nutri-agent.test/agents/nutri-agent/anonymous/mcp-token");
+  });
+});
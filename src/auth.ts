@@ -9,6 +9,10 @@
  *
  * Returns a login HTML page on 401 instead of a bare browser prompt
  * for a better UX.
+ *
+ * Also scopes Agent SDK requests to a per-user Durable Object instance
+ * derived from the authenticated principal, so conversations are isolated,
+ * and signs instance names for the MCP server's agent-scoped tools.
  */
 
 import type { Env } from "./types";
@@ -31,9 +35,7 @@ export function checkAuth(request: Request, env: Env): Response | null {
     return unauthorizedResponse();
   }
 
-  const decoded = atob(auth.slice(6));
-  const [user, ...passParts] = decoded.split(":");
-  const pass = passParts.join(":"); // password may contain colons
+  const { user, pass } = decodeBasic(auth);
 
   if (user === env.AUTH_USER && pass === env.AUTH_PASS) {
     return null; // valid
@@ -42,6 +44,132 @@ export function checkAuth(request: Request, env: Env): Response | null {
   return unauthorizedResponse();
 }
 
+function decodeBasic(header: string): { user: string; pass: string } {
+  const decoded = atob(header.slice(6));
+  const [user, ...passParts] = decoded.split(":");
+  const pass = passParts.join(":"); // password may contain colons
+  return { user, pass };
+}
+
+// ── per-user agent instances ───────────────────────────────────────────────
+
+/** Instance name clients use to address "my own agent", e.g. `/agents/nutri-agent/me`. */
+export const SELF_INSTANCE = "me";
+
+/** Shared instance used when auth is disabled (there is no principal). */
+const ANONYMOUS_INSTANCE = "anonymous";
+
+/**
+ * Derive a stable, opaque agent instance name for the authenticated user.
+ * Call only after `checkAuth()` passed. The username is hashed so it never
+ * appears in DO names or URLs.
+ */
+export async function getUserInstanceName(request: Request, env: Env): Promise<string> {
+  const auth = request.headers.get("Authorization");
+  if (!isAuthEnabled(env) || !auth?.startsWith("Basic ")) return ANONYMOUS_INSTANCE;
+
+  const { user } = decodeBasic(auth);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`nutri-agent:user:${user}`)
+  );
+  const hex = [...new Uint8Array(digest).slice(0, 16)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `user-${hex}`;
+}
+
+/**
+ * Scope an `/agents/<agent>/<instance>/…` request to the caller's own
+ * instance. `me` is rewritten to the caller's instance name; naming any other
+ * user's instance is rejected with 403. Returns the (possibly rewritten)
+ * request, or a Response to send back as-is.
+ */
+export async function scopeAgentRequest(
+  request: Request,
+  env: Env
+): Promise<Request | Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(/^\/agents\/([^/]+)\/([^/]+)(\/.*)?$/);
+  if (!match) return request;
+
+  const [, agent, instance, rest = ""] = match;
+  const own = await getUserInstanceName(request, env);
+
+  if (instance === SELF_INSTANCE) {
+    url.pathname = `/agents/${agent}/${own}${rest}`;
+    return new Request(url.toString(), request);
+  }
+
+  // compare encoded forms: decoding a malformed segment (`%E0`) would throw
+  if (instance !== encodeURIComponent(own)) {
+    return Response.json(
+      { error: "Forbidden: agent instance belongs to another user" },
+      { status: 403 }
+    );
+  }
+
+  return request;
+}
+
+// ── signed instance tokens (MCP) ───────────────────────────────────────────
+//
+// The MCP server acts on a user's agent instance only for callers holding a
+// token signed with AGENT_TOKEN_SECRET: `<instance>.<HMAC-SHA256, base64url>`.
+// The agent signs its own name; a signed-in user can fetch theirs for an
+// external MCP client (`GET /agents/nutri-agent/me/mcp-token`). Without the
+// secret no token is issued or accepted.
+
+const encoder = new TextEncoder();
+
+async function instanceKey(env: Env): Promise<CryptoKey | null> {
+  if (!env.AGENT_TOKEN_SECRET) return null;
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(env.AGENT_TOKEN_SECRET),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+const signedMessage = (instance: string) => encoder.encode(`nutri-agent:instance:${instance}`);
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array | null {
+  try {
+    return Uint8Array.from(atob(text.replace(/-/g, "+").replace(/_/g, "/")), (c) => c.charCodeAt(0));
+  } catch {
+    return null; // not base64
+  }
+}
+
+/** Token proving the holder may use `instance`; null if AGENT_TOKEN_SECRET is unset. */
+export async function signAgentInstance(instance: string, env: Env): Promise<string | null> {
+  const key = await instanceKey(env);
+  if (!key) return null;
+  const signature = await crypto.subtle.sign("HMAC", key, signedMessage(instance));
+  return `${instance}.${toBase64Url(signature)}`;
+}
+
+/** The instance a token was signed for, or null if it is not validly signed. */
+export async function verifyAgentInstance(token: string, env: Env): Promise<string | null> {
+  const key = await instanceKey(env);
+  const dot = token.lastIndexOf(".");
+  if (!key || dot <= 0) return null;
+
+  const instance = token.slice(0, dot);
+  const signature = fromBase64Url(token.slice(dot + 1));
+  if (!signature) return null;
+  return (await crypto.subtle.verify("HMAC", key, signature, signedMessage(instance))) ? instance : null;
+}
+
 function unauthorizedResponse(): Response {
   return new Response(LOGIN_HTML, {
     status: 401,
@@ -17,7 +17,8 @@
  *   POST /a2a                           → JSON-RPC (SendMessage, GetTask)
  *
  *   ── Agent Layer (Cloudflare Agents SDK) ──
- *   *    /agents/*                      → WebSocket + REST (routeAgentRequest)
+ *   *    /agents/nutri-agent/me/*       → WebSocket + REST (routeAgentRequest),
+ *                                         scoped to the caller's own instance
  *
  * Authentication per layer:
  *   UI/Agent  → Basic auth (AUTH_USER + AUTH_PASS)
@@ -29,7 +30,7 @@
 
 import { routeAgentRequest } from "agents";
 import type { Env } from "./types";
-import { checkAuth } from "./auth";
+import { checkAuth, scopeAgentRequest } from "./auth";
 import { handleMcpRequest } from "./mcp";
 import { handleAgentCard, handleA2ARequest } from "./a2a";
 import HTML from "./public/index.html";
@@ -46,6 +47,7 @@ export default {
         status: "ok",
         agent: "NutriAgent",
         model: env.GLM_MODEL || "GLM-4.7-Flash",
+        llmProviders: (env.LLM_PROVIDERS || "openai").split(",").map((p) => p.trim()),
         layers: {
           mcp: "/mcp",
           a2a: "/a2a",
@@ -83,7 +85,11 @@ export default {
     }
 
     // ── Agent SDK routing (WebSocket + REST) ─────────
-    const agentResponse = await routeAgentRequest(request, env);
+    // Each user gets their own NutriAgent instance (`/agents/nutri-agent/me`).
+    const scoped = await scopeAgentRequest(request, env);
+    if (scoped instanceof Response) return scoped;
+
+    const agentResponse = await routeAgentRequest(scoped, env);
     if (agentResponse) return agentResponse;
 
     return new Response("Not Found", { status: 404 });
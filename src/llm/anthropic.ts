@@ -0,0 +1,247 @@
+/**
+ * Anthropic Messages API adapter.
+ *
+ * @developer Eduardo Arana
+ *
+ * Translates the neutral chat format to `/v1/messages`: the system prompt
+ * moves to the top-level `system` field, assistant tool calls become
+ * `tool_use` blocks and tool results become `tool_result` blocks on a user
+ * turn. `thinking` blocks are surfaced as the neutral `reasoning` field.
+ */
+
+import { readSSE } from "./sse";
+import {
+  LLMError,
+  type ChatMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type ToolCall,
+} from "./types";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export interface AnthropicProviderConfig {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+}
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "thinking"; thinking: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicBlock[];
+}
+
+type AnthropicStreamEvent =
+  | { type: "content_block_start"; index: number; content_block: AnthropicBlock }
+  | {
+      type: "content_block_delta";
+      index: number;
+      delta:
+        | { type: "text_delta"; text: string }
+        | { type: "thinking_delta"; thinking: string }
+        | { type: "input_json_delta"; partial_json: string };
+    }
+  | { type: "error"; error: { type: string; message: string } }
+  | { type: string };
+
+// ── message conversion ─────────────────────────────────────────────────────
+
+function parseArgs(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Convert neutral chat history to alternating Anthropic user/assistant turns. */
+function toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+  const out: AnthropicMessage[] = [];
+
+  const push = (role: AnthropicMessage["role"], blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = out[out.length - 1];
+    // consecutive same-role turns (e.g. several tool results) are merged
+    if (last && last.role === role) last.content.push(...blocks);
+    else out.push({ role, content: blocks });
+  };
+
+  for (const m of messages) {
+    switch (m.role) {
+      case "user":
+        push("user", m.content ? [{ type: "text", text: m.content }] : []);
+        break;
+      case "assistant": {
+        const blocks: AnthropicBlock[] = m.content ? [{ type: "text", text: m.content }] : [];
+        for (const tc of m.tool_calls ?? []) {
+          blocks.push({
+            type: "tool_use",
+            id: tc.id,
+            name: tc.function.name,
+            input: parseArgs(tc.function.arguments),
+          });
+        }
+        push("assistant", blocks);
+        break;
+      }
+      case "tool":
+        push("user", [
+          { type: "tool_result", tool_use_id: m.tool_call_id ?? "", content: m.content },
+        ]);
+        break;
+      case "system":
+        // system text is sent via the top-level `system` field
+        break;
+    }
+  }
+  return out;
+}
+
+/** Collapse Anthropic content blocks into the neutral response shape. */
+function fromBlocks(blocks: AnthropicBlock[], provider: string): LLMResponse {
+  let content = "";
+  let reasoning = "";
+  const toolCalls: ToolCall[] = [];
+
+  for (const b of blocks) {
+    if (b.type === "text") content += b.text;
+    else if (b.type === "thinking") reasoning += b.thinking;
+    else if (b.type === "tool_use") {
+      toolCalls.push({
+        id: b.id,
+        type: "function",
+        function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+      });
+    }
+  }
+
+  const message: ChatMessage = { role: "assistant", content };
+  if (toolCalls.length > 0) message.tool_calls = toolCalls;
+  return { message, reasoning: reasoning || undefined, provider };
+}
+
+// ── provider ───────────────────────────────────────────────────────────────
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  readonly model: string;
+  private apiKey: string;
+  private baseUrl: string;
+
+  constructor(config: AnthropicProviderConfig) {
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl ?? "https://api.anthropic.com/v1").replace(/\/$/, "");
+  }
+
+  async complete({ system, messages, tools, onDelta, signal }: LLMRequest): Promise<LLMResponse> {
+    const body = {
+      model: this.model,
+      system,
+      messages: toAnthropicMessages(messages),
+      ...(tools.length > 0
+        ? {
+            tools: tools.map((t) => ({
+              name: t.function.name,
+              description: t.function.description,
+              input_schema: t.function.parameters,
+            })),
+          }
+        : {}),
+      temperature: 0.4,
+      max_tokens: 2048,
+      stream: Boolean(onDelta),
+    };
+
+    const res = await fetch(`${this.baseUrl}/messages`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-api-key": this.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!res.ok) {
+      throw new LLMError(this.name, res.status, await res.text());
+    }
+
+    if (onDelta && res.body) {
+      return this.readStream(res.body, onDelta);
+    }
+
+    const data = (await res.json()) as { content: AnthropicBlock[] };
+    return fromBlocks(data.content ?? [], this.name);
+  }
+
+  /** Assemble content blocks from `content_block_*` stream events. */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    onDelta: NonNullable<LLMRequest["onDelta"]>
+  ): Promise<LLMResponse> {
+    const blocks: AnthropicBlock[] = [];
+    const partialJson: string[] = [];
+    // Anthropic indexes all content blocks; tool-call deltas are indexed per call
+    const toolIndex = new Map<number, number>();
+
+    await readSSE(body, (data) => {
+      const event = data as AnthropicStreamEvent;
+
+      if (event.type === "content_block_start" && "content_block" in event) {
+        const block = event.content_block;
+        blocks[event.index] = block;
+        if (block.type === "tool_use") {
+          toolIndex.set(event.index, toolIndex.size);
+          partialJson[event.index] = "";
+          onDelta({
+            tool_call: { index: toolIndex.get(event.index)!, id: block.id, name: block.name, arguments: "" },
+          });
+        }
+        return;
+      }
+
+      if (event.type === "content_block_delta" && "delta" in event) {
+        const block = blocks[event.index];
+        const delta = event.delta;
+        if (delta.type === "text_delta" && block?.type === "text") {
+          block.text += delta.text;
+          onDelta({ content: delta.text });
+        } else if (delta.type === "thinking_delta" && block?.type === "thinking") {
+          block.thinking += delta.thinking;
+        } else if (delta.type === "input_json_delta" && block?.type === "tool_use") {
+          partialJson[event.index] += delta.partial_json;
+          onDelta({
+            tool_call: {
+              index: toolIndex.get(event.index)!,
+              id: block.id,
+              name: block.name,
+              arguments: delta.partial_json,
+            },
+          });
+        }
+        return;
+      }
+
+      if (event.type === "error" && "error" in event) {
+        // mid-stream errors (e.g. overloaded_error) are reported in-band
+        throw new LLMError(this.name, 529, event.error.message);
+      }
+    });
+
+    // streamed tool input arrives as JSON text; parse it once complete
+    blocks.forEach((b, i) => {
+      if (b?.type === "tool_use") b.input = parseArgs(partialJson[i] ?? "");
+    });
+
+    return fromBlocks(blocks.filter(Boolean), this.name);
+  }
+}
@@ -0,0 +1,89 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Env } from "../types";
+import { createLLM, describeLLM, FallbackProvider, LLMError } from "./index";
+import type { LLMDelta, LLMProvider, LLMRequest } from "./types";
+
+const request: LLMRequest = { system: "", messages: [{ role: "user", content: "hi" }], tools: [] };
+
+/** A provider that streams `deltas`, then answers or fails with `error`. */
+function provider(name: string, { deltas = [] as string[], error }: { deltas?: string[]; error?: Error } = {}) {
+  return {
+    name,
+    model: `${name}-model`,
+    complete: vi.fn(async ({ onDelta }: LLMRequest) => {
+      for (const content of deltas) onDelta?.({ content });
+      if (error) throw error;
+      return { message: { role: "assistant" as const, content: deltas.join("") || name }, provider: name };
+    }),
+  } satisfies LLMProvider;
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("FallbackProvider", () => {
+  it("moves on after a retryable failure", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const chain = new FallbackProvider([provider("a", { error: new LLMError("a", 503, "down") }), provider("b")]);
+
+    expect((await chain.complete(request)).provider).toBe("b");
+  });
+
+  it("does not move on after other failures", async () => {
+    const second = provider("b");
+    const chain = new FallbackProvider([provider("a", { error: new LLMError("a", 400, "bad request") }), second]);
+
+    await expect(chain.complete(request)).rejects.toThrow("a API 400");
+    expect(second.complete).not.toHaveBeenCalled();
+  });
+
+  it("does not move on once the failing provider has streamed output", async () => {
+    const deltas: LLMDelta[] = [];
+    const second = provider("b", { deltas: ["Hello again"] });
+    const chain = new FallbackProvider([
+      provider("a", { deltas: ["Hel"], error: new LLMError("a", 502, "connection reset") }),
+      second,
+    ]);
+
+    await expect(chain.complete({ ...request, onDelta: (d) => deltas.push(d) })).rejects.toThrow("a API 502");
+    expect(second.complete).not.toHaveBeenCalled();
+    expect(deltas).toEqual([{ content: "Hel" }]);
+  });
+});
+
+describe("createLLM", () => {
+  it("skips fallback providers that are not configured", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const llm = createLLM({ LLM_PROVIDERS: "openai, anthropic, workers-ai" } as Env);
+
+    expect(llm.name).toBe("GLM");
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps the configured fallbacks in order", () => {
+    const llm = createLLM({ LLM_PROVIDERS: "anthropic,openai", ANTHROPIC_API_KEY: "key" } as Env);
+
+    expect(llm).toBeInstanceOf(FallbackProvider);
+    expect(llm.name).toBe("anthropic → GLM");
+  });
+
+  it("requires the first provider to be configured", () => {
+    expect(() => createLLM({ LLM_PROVIDERS: "anthropic,openai" } as Env)).toThrow("ANTHROPIC_API_KEY");
+  });
+});
+
+describe("describeLLM", () => {
+  it("names each configured provider with its model", () => {
+    const warn = vi.spyOn(console, "warn");
+
+    expect(describeLLM({ LLM_PROVIDERS: "openai,anthropic,workers-ai", ANTHROPIC_API_KEY: "key" } as Env)).toBe(
+      "GLM (GLM-4.7-Flash) → anthropic (claude-sonnet-4-5)"
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it("reports a first provider that is not configured", () => {
+    expect(describeLLM({ LLM_PROVIDERS: "anthropic" } as Env)).toBe("anthropic (not configured)");
+  });
+});
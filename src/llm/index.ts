@@ -0,0 +1,154 @@
+/**
+ * LLM provider layer — factory + fallback chain.
+ *
+ * @developer Eduardo Arana
+ *
+ * `createLLM(env)` builds the ordered provider chain named by `LLM_PROVIDERS`
+ * (comma-separated, default `openai`):
+ *
+ *   openai      → any OpenAI-compatible endpoint (GLM_BASE_URL / GLM_MODEL / GLM_API_KEY)
+ *   anthropic   → Anthropic Messages API (ANTHROPIC_API_KEY / ANTHROPIC_MODEL)
+ *   workers-ai  → Cloudflare Workers AI via the `AI` binding (WORKERS_AI_MODEL)
+ *
+ * When a provider fails with 429 or 5xx the next one in the chain is tried,
+ * unless it had already streamed part of its answer: the next provider would
+ * stream its own answer after it. A fallback provider that is not configured
+ * (missing key or binding) is left out of the chain with a warning; only the
+ * first provider is required. `describeLLM(env)` names the resulting chain for
+ * discovery documents such as the A2A agent card.
+ */
+
+import type { Env } from "../types";
+import { AnthropicProvider } from "./anthropic";
+import { OpenAIProvider } from "./openai";
+import { WorkersAIProvider } from "./workers-ai";
+import { LLMError, type LLMProvider, type LLMRequest, type LLMResponse } from "./types";
+
+export { LLMError } from "./types";
+export type {
+  ChatMessage,
+  ToolCall,
+  LLMTool,
+  LLMDelta,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+} from "./types";
+
+// ── fallback chain ─────────────────────────────────────────────────────────
+
+/** Tries each provider in order, moving on only for retryable failures before any output. */
+export class FallbackProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private providers: LLMProvider[];
+
+  constructor(providers: LLMProvider[]) {
+    if (providers.length === 0) throw new Error("No LLM providers configured");
+    this.providers = providers;
+    this.name = providers.map((p) => p.name).join(" → ");
+    this.model = providers[0].model;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    let lastError: unknown;
+
+    let streamed = false;
+    const { onDelta } = request;
+    const tracked: LLMRequest = onDelta
+      ? {
+          ...request,
+          onDelta: (delta) => {
+            streamed = true;
+            onDelta(delta);
+          },
+        }
+      : request;
+
+    for (const provider of this.providers) {
+      try {
+        return await provider.complete(tracked);
+      } catch (err) {
+        lastError = err;
+        if (!(err instanceof LLMError && err.retryable) || streamed) throw err;
+        console.warn(`[llm] ${provider.name} failed (${err.status}), trying next provider`);
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+// ── factory ────────────────────────────────────────────────────────────────
+
+function createProvider(id: string, env: Env): LLMProvider {
+  switch (id) {
+    case "openai":
+      return new OpenAIProvider({
+        baseUrl: env.GLM_BASE_URL ?? "https://api.z.ai/api/paas/v4",
+        apiKey: env.GLM_API_KEY,
+        model: env.GLM_MODEL ?? "GLM-4.7-Flash",
+        name: "GLM",
+      });
+    case "anthropic":
+      if (!env.ANTHROPIC_API_KEY) throw new Error("ANTHROPIC_API_KEY is not set");
+      return new AnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        model: env.ANTHROPIC_MODEL ?? "claude-sonnet-4-5",
+      });
+    case "workers-ai":
+      if (!env.AI) throw new Error("Workers AI binding `AI` is not configured");
+      return new WorkersAIProvider({
+        ai: env.AI,
+        model: env.WORKERS_AI_MODEL ?? "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+      });
+    default:
+      throw new Error(`Unknown LLM provider: ${id}`);
+  }
+}
+
+/** The provider ids named by `LLM_PROVIDERS`, in order. */
+function providerIds(env: Env): string[] {
+  const ids = (env.LLM_PROVIDERS || "openai")
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+  return ids.length > 0 ? ids : ["openai"];
+}
+
+/**
+ * Build the configured provider chain (a single provider needs no wrapper).
+ * Throws if the first provider cannot be built; misconfigured fallbacks are
+ * skipped.
+ */
+export function createLLM(env: Env): LLMProvider {
+  const [primary, ...fallbacks] = providerIds(env);
+
+  const providers = [createProvider(primary, env)];
+  for (const id of fallbacks) {
+    try {
+      providers.push(createProvider(id, env));
+    } catch (err) {
+      console.warn(`[llm] skipping fallback provider ${id}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  return providers.length === 1 ? providers[0] : new FallbackProvider(providers);
+}
+
+/**
+ * Human-readable description of the configured chain, e.g.
+ * "GLM (GLM-4.7-Flash) → anthropic (claude-sonnet-4-5)". Providers that
+ * createLLM would skip are left out, without logging.
+ */
+export function describeLLM(env: Env): string {
+  const names: string[] = [];
+  for (const id of providerIds(env)) {
+    try {
+      const provider = createProvider(id, env);
+      names.push(`${provider.name} (${provider.model})`);
+    } catch {
+      if (names.length === 0) return `${id} (not configured)`;
+    }
+  }
+  return names.join(" → ");
+}
@@ -0,0 +1,149 @@
+/**
+ * OpenAI-compatible chat-completions adapter.
+ *
+ * @developer Eduardo Arana
+ *
+ * Works with any `/chat/completions` endpoint — z.ai / BigModel GLM (the
+ * default), OpenAI, OpenRouter, etc. GLM's `reasoning_content` is surfaced
+ * as the neutral `reasoning` field.
+ */
+
+import { readSSE } from "./sse";
+import {
+  LLMError,
+  type ChatMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type ToolCall,
+} from "./types";
+
+export interface OpenAIProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  name?: string;
+}
+
+interface OpenAIStreamChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }[];
+    };
+  }[];
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor(config: OpenAIProviderConfig) {
+    this.name = config.name ?? "openai";
+    this.model = config.model;
+    this.baseUrl = config.baseUrl.replace(/\/$/, "");
+    this.apiKey = config.apiKey;
+  }
+
+  async complete({ system, messages, tools, onDelta, signal }: LLMRequest): Promise<LLMResponse> {
+    const body = {
+      model: this.model,
+      messages: [{ role: "system", content: system }, ...messages],
+      // some endpoints reject an empty tools array (e.g. summarisation calls)
+      ...(tools.length > 0 ? { tools, tool_choice: "auto" } : {}),
+      temperature: 0.4,
+      max_tokens: 2048,
+      stream: Boolean(onDelta),
+    };
+
+    const res = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!res.ok) {
+      throw new LLMError(this.name, res.status, await res.text());
+    }
+
+    if (onDelta && res.body) {
+      return this.readStream(res.body, onDelta);
+    }
+
+    const data = (await res.json()) as {
+      choices: { message: ChatMessage & { reasoning_content?: string | null } }[];
+    };
+
+    const { content, tool_calls, reasoning_content } = data.choices[0].message;
+    const message: ChatMessage = { role: "assistant", content: content ?? "" };
+    if (tool_calls?.length) message.tool_calls = tool_calls;
+
+    return {
+      message,
+      reasoning: reasoning_content ?? undefined,
+      provider: this.name,
+    };
+  }
+
+  /**
+   * Consume a streamed chat-completions response, forwarding each fragment
+   * and assembling the complete turn (tool-call arguments arrive in pieces).
+   */
+  private async readStream(
+    body: ReadableStream<Uint8Array>,
+    onDelta: NonNullable<LLMRequest["onDelta"]>
+  ): Promise<LLMResponse> {
+    const toolCalls: ToolCall[] = [];
+    let content = "";
+    let reasoning = "";
+
+    await readSSE(body, (data) => {
+      const delta = (data as OpenAIStreamChunk).choices?.[0]?.delta;
+      if (!delta) return;
+
+      if (delta.reasoning_content) reasoning += delta.reasoning_content;
+
+      if (delta.content) {
+        content += delta.content;
+        onDelta({ content: delta.content });
+      }
+
+      for (const tc of delta.tool_calls ?? []) {
+        const call = (toolCalls[tc.index] ??= {
+          id: "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.function.name += tc.function.name;
+        if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+
+        onDelta({
+          tool_call: {
+            index: tc.index,
+            id: call.id,
+            name: call.function.name,
+            arguments: tc.function?.arguments ?? "",
+          },
+        });
+      }
+    });
+
+    const message: ChatMessage = { role: "assistant", content };
+    const calls = toolCalls.filter(Boolean);
+    if (calls.length > 0) message.tool_calls = calls;
+
+    return { message, reasoning: reasoning || undefined, provider: this.name };
+  }
+}
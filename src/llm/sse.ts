@@ -0,0 +1,54 @@
+/**
+ * Minimal Server-Sent Events reader for streaming LLM responses.
+ *
+ * @developer Eduardo Arana
+ */
+
+/**
+ * Read a `text/event-stream` body and invoke `onData` with each event's
+ * `data:` payload (and its `event:` name, if any). `[DONE]` sentinels and
+ * malformed JSON payloads are skipped.
+ */
+export async function readSSE(
+  body: ReadableStream<Uint8Array>,
+  onData: (data: unknown, event?: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event: string | undefined;
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      event = undefined; // blank line terminates an event
+      return;
+    }
+    if (trimmed.startsWith("event:")) {
+      event = trimmed.slice(6).trim();
+      return;
+    }
+    if (!trimmed.startsWith("data:")) return;
+    const payload = trimmed.slice(5).trim();
+    if (payload === "[DONE]") return;
+    let data: unknown;
+    try {
+      data = JSON.parse(payload);
+    } catch {
+      return; // ignore keepalives / malformed fragments
+    }
+    onData(data, event);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE events are newline-delimited; keep any trailing partial line
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+}
@@ -0,0 +1,89 @@
+/**
+ * LLM provider layer types
+ *
+ * @developer Eduardo Arana
+ *
+ * Provider-neutral message, tool and response shapes. Every adapter
+ * (OpenAI-compatible, Anthropic Messages, Workers AI) translates to and from
+ * these, so callers never see provider-specific fields.
+ */
+
+// ── chat messages (OpenAI function-calling format) ─────────────────────────
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  tool_call_id?: string;
+  tool_calls?: ToolCall[];
+  /**
+   * Marks a partial assistant turn the user stopped. Kept in history only —
+   * the agent runtime folds it into `content` before calling a provider.
+   */
+  cancelled?: boolean;
+}
+
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface LLMTool {
+  type: "function";
+  function: { name: string; description: string; parameters: unknown };
+}
+
+/** Incremental fragment of an assistant turn, as forwarded to the UI. */
+export interface LLMDelta {
+  content?: string;
+  tool_call?: { index: number; id?: string; name?: string; arguments: string };
+}
+
+// ── provider contract ──────────────────────────────────────────────────────
+
+export interface LLMRequest {
+  system: string;
+  messages: ChatMessage[];
+  tools: LLMTool[];
+  /** When set, the provider streams and forwards fragments as they arrive. */
+  onDelta?: (delta: LLMDelta) => void;
+  /** Aborts the upstream request (user cancellation). */
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  /** Normalised assistant turn: `content` plus any `tool_calls`. */
+  message: ChatMessage;
+  /** Reasoning / thinking text, when the model exposes it separately. */
+  reasoning?: string;
+  /** Name of the provider that produced the response. */
+  provider: string;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+// ── errors ─────────────────────────────────────────────────────────────────
+
+/**
+ * Upstream failure from a provider. `retryable` marks errors (429 / 5xx)
+ * after which the fallback chain moves on to the next provider.
+ */
+export class LLMError extends Error {
+  readonly provider: string;
+  readonly status: number;
+
+  constructor(provider: string, status: number, message: string) {
+    super(`${provider} API ${status}: ${message}`);
+    this.name = "LLMError";
+    this.provider = provider;
+    this.status = status;
+  }
+
+  get retryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Cloudflare Workers AI adapter.
+ *
+ * @developer Eduardo Arana
+ *
+ * Calls a function-calling model through the `AI` binding. Workers AI
+ * returns `{ response, tool_calls }` with tool arguments as objects and
+ * often without ids; both are normalised here. The binding's streaming
+ * mode does not carry tool calls, so the turn is generated in one piece
+ * and forwarded to `onDelta` as a single fragment. The binding takes no
+ * AbortSignal, so cancellation only stops waiting for the result.
+ */
+
+import {
+  LLMError,
+  type ChatMessage,
+  type LLMProvider,
+  type LLMRequest,
+  type LLMResponse,
+  type ToolCall,
+} from "./types";
+
+export interface WorkersAIProviderConfig {
+  ai: Ai;
+  model: string;
+}
+
+interface WorkersAIOutput {
+  response?: string | null;
+  tool_calls?: { id?: string; name: string; arguments: unknown }[];
+}
+
+export class WorkersAIProvider implements LLMProvider {
+  readonly name = "workers-ai";
+  readonly model: string;
+  private ai: Ai;
+
+  constructor(config: WorkersAIProviderConfig) {
+    this.ai = config.ai;
+    this.model = config.model;
+  }
+
+  async complete({ system, messages, tools, onDelta, signal }: LLMRequest): Promise<LLMResponse> {
+    // the binding's model list is statically typed; our model is configurable
+    const run = this.ai.run.bind(this.ai) as unknown as (
+      model: string,
+      inputs: Record<string, unknown>
+    ) => Promise<WorkersAIOutput>;
+
+    let output: WorkersAIOutput;
+    try {
+      signal?.throwIfAborted();
+      const pending = run(this.model, {
+        messages: [{ role: "system", content: system }, ...messages],
+        ...(tools.length > 0 ? { tools } : {}),
+        temperature: 0.4,
+        max_tokens: 2048,
+      });
+      output = await (signal
+        ? Promise.race([
+            pending,
+            new Promise<never>((_, reject) =>
+              signal.addEventListener("abort", () => reject(signal.reason), { once: true })
+            ),
+          ])
+        : pending);
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      // binding errors carry no HTTP status — treat them as upstream failures
+      throw new LLMError(this.name, 502, err instanceof Error ? err.message : String(err));
+    }
+
+    const toolCalls: ToolCall[] = (output.tool_calls ?? []).map((tc) => ({
+      id: tc.id ?? `call_${crypto.randomUUID()}`,
+      type: "function",
+      function: {
+        name: tc.name,
+        arguments: typeof tc.arguments === "string" ? tc.arguments : JSON.stringify(tc.arguments ?? {}),
+      },
+    }));
+
+    const message: ChatMessage = { role: "assistant", content: output.response ?? "" };
+    if (toolCalls.length > 0) message.tool_calls = toolCalls;
+
+    if (onDelta) {
+      if (message.content) onDelta({ content: message.content });
+      toolCalls.forEach((tc, index) =>
+        onDelta({
+          tool_call: { index, id: tc.id, name: tc.function.name, arguments: tc.function.arguments },
+        })
+      );
+    }
+
+    return { message, provider: this.name };
+  }
+}
@@ -9,15 +9,39 @@
  * Flow: Agent → McpClient.callTool() → POST /mcp (JSON-RPC) → MCP Server → Tool
  */
 
+import { ToolError } from "../tools";
+
+/**
+ * Carries a signed agent instance token (see `signAgentInstance` in
+ * `src/auth.ts`) naming the instance whose storage agent-scoped tools use.
+ */
+export const AGENT_INSTANCE_HEADER = "X-Agent-Instance";
+
+/**
+ * The MCP server could not be reached or did not answer with JSON-RPC
+ * (network failure, HTTP error). Unlike a tool's own failure, the call never
+ * ran, so it is safe to run it another way.
+ */
+export class McpTransportError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "McpTransportError";
+  }
+}
+
 export class McpClient {
   private baseUrl: string;
   private apiKey: string | undefined;
+  private instanceToken: Promise<string | null> | undefined;
   private sessionId: string | null = null;
-  private initialized = false;
+  private initializing: Promise<void> | null = null;
+  // parallel tool calls need distinct JSON-RPC ids (Date.now() can collide)
+  private nextId = 3;
 
-  constructor(baseUrl: string, apiKey?: string) {
+  constructor(baseUrl: string, apiKey?: string, instanceToken?: Promise<string | null>) {
     this.baseUrl = baseUrl;
     this.apiKey = apiKey;
+    this.instanceToken = instanceToken;
   }
 
   // ── internal JSON-RPC call ───────────────────────────────────────────────
@@ -25,7 +49,8 @@ export class McpClient {
   private async rpc(
     method: string,
     params?: Record<string, unknown>,
-    id?: number
+    id?: number,
+    signal?: AbortSignal
   ): Promise<unknown> {
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -38,6 +63,10 @@ export class McpClient {
     if (this.sessionId) {
       headers["Mcp-Session-Id"] = this.sessionId;
     }
+    const token = await this.instanceToken;
+    if (token) {
+      headers[AGENT_INSTANCE_HEADER] = token;
+    }
 
     const body: Record<string, unknown> = {
       jsonrpc: "2.0",
@@ -46,11 +75,20 @@ export class McpClient {
     if (id !== undefined) body.id = id;
     if (params) body.params = params;
 
-    const res = await fetch(this.baseUrl, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(body),
-    });
+    let res: Response;
+    try {
+      res = await fetch(this.baseUrl, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new McpTransportError(`MCP server unreachable: ${err instanceof Error ? err.message : String(err)}`, {
+        cause: err,
+      });
+    }
 
     // Capture session header
     const sid = res.headers.get("mcp-session-id");
@@ -61,7 +99,7 @@ export class McpClient {
 
     if (!res.ok) {
       const text = await res.text();
-      throw new Error(`MCP server ${res.status}: ${text}`);
+      throw new McpTransportError(`MCP server ${res.status}: ${text}`);
     }
 
     const data = (await res.json()) as {
@@ -70,7 +108,9 @@ export class McpClient {
     };
 
     if (data.error) {
-      throw new Error(`MCP error ${data.error.code}: ${data.error.message}`);
+      // invalid tool arguments carry the field errors as a ToolError in `data`
+      const typed = data.error.code === -32602 ? ToolError.fromData(data.error.data) : null;
+      throw typed ?? new Error(`MCP error ${data.error.code}: ${data.error.message}`);
     }
 
     return data.result;
@@ -78,24 +118,29 @@ export class McpClient {
 
   // ── public API ───────────────────────────────────────────────────────────
 
-  /** Perform MCP handshake (initialize + notifications/initialized). */
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
-
-    await this.rpc(
-      "initialize",
-      {
-        protocolVersion: "2025-03-26",
-        clientInfo: { name: "NutriAgent", version: "1.2.0" },
-        capabilities: {},
-      },
-      1
-    );
-
-    // Send initialized notification (no id)
-    await this.rpc("notifications/initialized");
-
-    this.initialized = true;
+  /**
+   * Perform MCP handshake (initialize + notifications/initialized).
+   * Concurrent callers share one handshake; a failed one is retried later.
+   */
+  initialize(): Promise<void> {
+    this.initializing ??= (async () => {
+      await this.rpc(
+        "initialize",
+        {
+          protocolVersion: "2025-03-26",
+          clientInfo: { name: "NutriAgent", version: "1.2.0" },
+          capabilities: {},
+        },
+        1
+      );
+
+      // Send initialized notification (no id)
+      await this.rpc("notifications/initialized");
+    })().catch((err) => {
+      this.initializing = null;
+      throw err;
+    });
+    return this.initializing;
   }
 
   /** List available tools from the MCP server. */
@@ -111,18 +156,23 @@ export class McpClient {
 
   /**
    * Call a tool by name with the given arguments.
-   * Returns the tool's text response or throws on error.
+   * Returns the tool's text response or throws on error: `McpTransportError`
+   * when the server was not reached, a `ToolError` when the tool reported a
+   * typed failure, a plain Error for other failures it reported. Aborting
+   * `signal` cancels the HTTP request (and with it the server-side OFF fetch).
    */
   async callTool(
     name: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    signal?: AbortSignal
   ): Promise<string> {
     await this.initialize();
 
     const result = (await this.rpc(
       "tools/call",
       { name, arguments: args },
-      Date.now()
+      this.nextId++,
+      signal
     )) as {
       content: { type: string; text: string }[];
       isError?: boolean;
@@ -134,7 +184,7 @@ export class McpClient {
       .join("\n");
 
     if (result.isError) {
-      throw new Error(text);
+      throw ToolError.fromJSON(text) ?? new Error(text);
     }
 
     return text;
@@ -4,4 +4,4 @@
  * @developer Eduardo Arana
  */
 export { handleMcpRequest } from "./server";
-export { McpClient } from "./client";
+export { McpClient, McpTransportError } from "./client";
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { guidelines } from "../agent/prompt";
+import { getPrompt, listPrompts } from "./prompts";
+
+describe("getPrompt", () => {
+  it("renders the task from its arguments and quotes the agent's guidelines", () => {
+    const prompt = getPrompt("compare_products", { barcodes: "3017620422003; 5000159407236  7622210449283" });
+    const text = prompt!.messages[0].content.text;
+
+    expect(text).toContain("Compare these products: 3017620422003, 5000159407236, 7622210449283.");
+    expect(text).toContain("then say which is the better choice and why.");
+    expect(text).toContain(guidelines("allergens"));
+  });
+
+  it("includes optional arguments only when given", () => {
+    const text = getPrompt("compare_products", { barcodes: "1", focus: " sugar " })!.messages[0].content.text;
+
+    expect(text).toContain("paying particular attention to sugar.");
+  });
+
+  it("requires the required arguments and ignores unknown prompts", () => {
+    expect(() => getPrompt("allergen_safety_check", { allergy: "peanuts", product: "  " })).toThrow(
+      "Missing required argument: product"
+    );
+    expect(getPrompt("no_such_prompt")).toBeNull();
+  });
+
+  it("renders every listed prompt once its required arguments are set", () => {
+    for (const { name, arguments: args } of listPrompts()) {
+      const values = Object.fromEntries(args.filter((a) => a.required).map((a) => [a.name, "x"]));
+      expect(getPrompt(name, values)!.messages[0].content.text).toContain("GUIDELINES:");
+    }
+  });
+});
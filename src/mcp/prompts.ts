@@ -0,0 +1,129 @@
+/**
+ * MCP prompts
+ *
+ * @developer Eduardo Arana
+ *
+ * Parameterised prompt templates for common nutrition workflows, served by
+ * `prompts/list` and `prompts/get`. They give external MCP clients the same
+ * domain know-how as the agent: each template states the task, names the
+ * tools to call and quotes the agent's own guideline groups
+ * (`src/agent/prompt.ts`), so the two never drift apart.
+ */
+
+import { guidelines, type GuidelineName } from "../agent/prompt";
+
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptSpec {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  /** Guideline groups quoted after the task. */
+  guidelines: GuidelineName[];
+  /** The task, from arguments whose required ones are present. */
+  task(args: Record<string, string>): string;
+}
+
+/** "3017620422003, 5000159407236 7622210449283" → three barcodes */
+const list = (value: string) => value.split(/[\s,;]+/).filter(Boolean);
+
+const PROMPTS: PromptSpec[] = [
+  {
+    name: "compare_products",
+    description: "Compare products side by side by their barcodes and pick the better choice",
+    arguments: [
+      { name: "barcodes", description: "Barcodes to compare, separated by commas", required: true },
+      { name: "focus", description: "What matters most, e.g. 'sugar', 'protein' or 'processing'" },
+    ],
+    guidelines: ["data", "errors", "presentation", "dailyValues", "allergens"],
+    task: ({ barcodes, focus }) =>
+      `Compare these products: ${list(barcodes).join(", ")}.\n` +
+      "Call compare_products once with every barcode. Present a table of Nutri-Score, NOVA group and " +
+      "the main nutrients per 100g, then say which is the better choice and why" +
+      (focus ? `, paying particular attention to ${focus}.` : ".") +
+      " Mention any barcode that was not found.",
+  },
+  {
+    name: "allergen_safety_check",
+    description: "Check whether a product is safe for someone with a given allergy, including traces",
+    arguments: [
+      { name: "allergy", description: "The allergy or intolerance, e.g. 'peanuts' or 'gluten'", required: true },
+      { name: "product", description: "The product's barcode or name", required: true },
+    ],
+    guidelines: ["data", "errors", "allergens"],
+    task: ({ allergy, product }) =>
+      `Is "${product}" safe for someone with a ${allergy} allergy?\n` +
+      "Call get_allergen_info with its barcode; for a name, find it with search_products first and " +
+      "confirm the match. Check both the allergens and the traces (\"may contain\"), and answer plainly: " +
+      "safe, not safe, or uncertain (e.g. no allergen data). If it is not safe, offer safer products with " +
+      `find_healthier_alternatives, passing exclude_allergens ["${allergy}"].`,
+  },
+  {
+    name: "healthy_swap",
+    description: "Suggest healthier products from the same category to replace a product",
+    arguments: [
+      { name: "barcode", description: "Barcode of the product to replace", required: true },
+      { name: "nutrient", description: "Nutrient to cut down: 'sugars' (default), 'salt' or 'saturated_fat'" },
+      { name: "avoid", description: "Allergens the alternatives must not contain, separated by commas" },
+    ],
+    guidelines: ["data", "errors", "presentation", "alternatives", "allergens"],
+    task: ({ barcode, nutrient, avoid }) => {
+      const options = {
+        barcode,
+        ...(nutrient ? { nutrient } : {}),
+        ...(avoid ? { exclude_allergens: list(avoid) } : {}),
+      };
+      return (
+        `Suggest healthier alternatives to product ${barcode}.\n` +
+        `Call find_healthier_alternatives with ${JSON.stringify(options)}. Present the best few with their ` +
+        "Nutri-Score, NOVA group and the per-100g differences against the original, and say what the " +
+        "user gains with each swap."
+      );
+    },
+  },
+  {
+    name: "explain_label",
+    description: "Explain a product's label in plain language: scores, nutrient levels, labels and additives",
+    arguments: [{ name: "barcode", description: "The product's barcode", required: true }],
+    guidelines: ["data", "errors", "presentation", "detail", "additives", "dailyValues", "allergens"],
+    task: ({ barcode }) =>
+      `Explain the label of product ${barcode} in plain language.\n` +
+      'Call get_product_by_barcode with detail "full". Cover the Nutri-Score and NOVA group, the nutrient ' +
+      "levels (fat, saturated fat, sugars, salt), the % of daily intake per serving, its labels (organic, " +
+      "fair trade…) and what each additive is for, using get_additive_info for additives worth a closer look.",
+  },
+];
+
+/** Prompt descriptors for `prompts/list`. */
+export function listPrompts(): { name: string; description: string; arguments: PromptArgument[] }[] {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+/**
+ * Render a prompt for `prompts/get`; null for an unknown name. Throws when a
+ * required argument is missing.
+ */
+export function getPrompt(
+  name: string,
+  args: Record<string, unknown> = {}
+): { description: string; messages: { role: "user"; content: { type: "text"; text: string } }[] } | null {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) return null;
+
+  const values: Record<string, string> = {};
+  for (const { name: arg, required } of prompt.arguments) {
+    const value = args[arg] === undefined || args[arg] === null ? "" : String(args[arg]).trim();
+    if (value) values[arg] = value;
+    else if (required) throw new Error(`Missing required argument: ${arg}`);
+  }
+
+  const text = `${prompt.task(values)}\n\nGUIDELINES:\n${guidelines(...prompt.guidelines)}`;
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import { findTool, InvalidBarcodeError, validateArguments } from "../tools";
+import { resolveResource, resourcesForCacheUrl } from "./resources";
+
+vi.mock("cloudflare:workers", () => ({ waitUntil: () => {} }));
+
+describe("resolveResource", () => {
+  it("maps each URI to the tool call serving it, in canonical form", () => {
+    expect(resolveResource("off://product/3017620422003")).toMatchObject({
+      uri: "off://product/3017620422003",
+      tool: "get_product_by_barcode",
+      subscribable: true,
+    });
+    expect(resolveResource("off://category/Breakfast%20Cereals")).toMatchObject({
+      uri: "off://category/breakfast-cereals",
+      args: { category: "breakfast-cereals" },
+    });
+    expect(resolveResource("nutri://diary/today")).toMatchObject({ tool: "get_diary", args: {} });
+  });
+
+  it("resolves to arguments the tool's schema accepts", () => {
+    for (const uri of [
+      "off://product/3017620422003",
+      "off://allergens/3017620422003",
+      "off://category/yogurts",
+      "nutri://profile",
+      "nutri://diary/2024-02-29",
+    ]) {
+      const { tool, args } = resolveResource(uri)!;
+      expect(() => validateArguments(findTool(tool)!, args)).not.toThrow();
+    }
+  });
+
+  it("returns null for unknown and badly escaped URIs", () => {
+    expect(resolveResource("off://recipes/1")).toBeNull();
+    expect(resolveResource("off://product/%E0")).toBeNull();
+    expect(resolveResource("off://category/%")).toBeNull();
+  });
+
+  it("throws on an invalid barcode", () => {
+    expect(() => resolveResource("off://product/3017620422004")).toThrow(InvalidBarcodeError);
+  });
+});
+
+describe("resourcesForCacheUrl", () => {
+  it("names the resources a cached OFF response backs", () => {
+    expect(resourcesForCacheUrl("https://world.openfoodfacts.org/api/v2/product/3017620422003.json")).toEqual([
+      "off://product/3017620422003",
+      "off://allergens/3017620422003",
+    ]);
+    expect(resourcesForCacheUrl("https://fr.openfoodfacts.org/category/yogurts.json?page=1")).toEqual([
+      "off://category/yogurts",
+    ]);
+    expect(resourcesForCacheUrl("https://world.openfoodfacts.org/api/v2/search?page=1")).toEqual([]);
+  });
+});
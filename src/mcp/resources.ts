@@ -0,0 +1,173 @@
+/**
+ * MCP resources
+ *
+ * @developer Eduardo Arana
+ *
+ * Read-only views of OpenFoodFacts data and the user's stored data,
+ * addressed by URI so MCP clients (e.g. IDE assistants) can attach them as
+ * context without a tool call:
+ *
+ *   off://product/{barcode}     product summary
+ *   off://allergens/{barcode}   allergens and traces
+ *   off://category/{tag}        the most scanned products in a category
+ *   nutri://profile             dietary profile      (needs a signed X-Agent-Instance token)
+ *   nutri://diary/{date}        one day of the food diary, or "today"
+ *
+ * Every resource is read through the tool serving the same data, so
+ * validation, locale defaults, caching and agent forwarding are shared with
+ * `tools/call`. `off://` resources come from the OpenFoodFacts response
+ * cache: clients may subscribe to them and are notified when a background
+ * refresh replaces the cached entry.
+ */
+
+import { normaliseBarcode } from "../tools";
+
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: "application/json";
+}
+
+/** A resource URI resolved to the tool call that reads it. */
+export interface ResolvedResource {
+  /** Canonical form of the URI (normalised barcode, category tag). */
+  uri: string;
+  tool: string;
+  args: Record<string, unknown>;
+  /** Refreshed by the OFF cache, so clients may subscribe to it. */
+  subscribable: boolean;
+}
+
+interface ResourceRoute {
+  template: ResourceTemplate;
+  pattern: RegExp;
+  resolve(param: string): ResolvedResource;
+}
+
+/** Products listed by `off://category/{tag}`. */
+const CATEGORY_PAGE_SIZE = 20;
+
+/** "Breakfast Cereals" → "breakfast-cereals", as `get_products_by_category` spells it. */
+const categoryTag = (name: string) => name.trim().toLowerCase().replace(/\s+/g, "-");
+
+const json = "application/json" as const;
+
+const ROUTES: ResourceRoute[] = [
+  {
+    template: {
+      uriTemplate: "off://product/{barcode}",
+      name: "Product",
+      description: "Nutrition facts, Nutri-Score, ingredients and allergens of a product, by EAN/UPC barcode",
+      mimeType: json,
+    },
+    pattern: /^off:\/\/product\/([^/]+)$/,
+    resolve: (barcode) => {
+      const { code } = normaliseBarcode(barcode);
+      return {
+        uri: `off://product/${code}`,
+        tool: "get_product_by_barcode",
+        args: { barcode: code },
+        subscribable: true,
+      };
+    },
+  },
+  {
+    template: {
+      uriTemplate: "off://allergens/{barcode}",
+      name: "Product allergens",
+      description: "Allergens and traces declared for a product, by EAN/UPC barcode",
+      mimeType: json,
+    },
+    pattern: /^off:\/\/allergens\/([^/]+)$/,
+    resolve: (barcode) => {
+      const { code } = normaliseBarcode(barcode);
+      return {
+        uri: `off://allergens/${code}`,
+        tool: "get_allergen_info",
+        args: { barcode: code },
+        subscribable: true,
+      };
+    },
+  },
+  {
+    template: {
+      uriTemplate: "off://category/{tag}",
+      name: "Category",
+      description: `The ${CATEGORY_PAGE_SIZE} most relevant products in a food category, e.g. breakfast-cereals`,
+      mimeType: json,
+    },
+    pattern: /^off:\/\/category\/([^/]+)$/,
+    resolve: (name) => {
+      const tag = categoryTag(name);
+      return {
+        uri: `off://category/${encodeURIComponent(tag)}`,
+        tool: "get_products_by_category",
+        args: { category: tag, page_size: CATEGORY_PAGE_SIZE },
+        subscribable: true,
+      };
+    },
+  },
+  {
+    template: {
+      uriTemplate: "nutri://profile",
+      name: "Dietary profile",
+      description: "The user's allergies, intolerances, diet, calorie goal and units (needs a signed X-Agent-Instance token)",
+      mimeType: json,
+    },
+    pattern: /^nutri:\/\/profile$/,
+    resolve: () => ({ uri: "nutri://profile", tool: "get_dietary_profile", args: {}, subscribable: false }),
+  },
+  {
+    template: {
+      uriTemplate: "nutri://diary/{date}",
+      name: "Food diary",
+      description: "One day of the user's food diary with totals per meal; date is YYYY-MM-DD or 'today' (needs a signed X-Agent-Instance token)",
+      mimeType: json,
+    },
+    pattern: /^nutri:\/\/diary\/([^/]+)$/,
+    resolve: (date) => ({
+      uri: `nutri://diary/${date}`,
+      tool: "get_diary",
+      args: date === "today" ? {} : { date },
+      subscribable: false,
+    }),
+  },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = ROUTES.map((r) => r.template);
+
+/** Fixed resources listed by `resources/list` to callers with a validly signed agent instance token. */
+export const USER_RESOURCES = [
+  { uri: "nutri://profile", name: "Dietary profile", mimeType: json },
+  { uri: "nutri://diary/today", name: "Today's food diary", mimeType: json },
+];
+
+/**
+ * The tool call behind a resource URI; null if no template matches or the
+ * URI is badly escaped (`%E0`). Throws on an invalid barcode.
+ */
+export function resolveResource(uri: string): ResolvedResource | null {
+  for (const route of ROUTES) {
+    const match = route.pattern.exec(uri);
+    if (!match) continue;
+    let param: string;
+    try {
+      param = decodeURIComponent(match[1] ?? "");
+    } catch {
+      return null; // URIError: not a URI any resource has
+    }
+    return route.resolve(param);
+  }
+  return null;
+}
+
+/** Resources whose data comes from a cached OFF URL, e.g. after a background refresh of it. */
+export function resourcesForCacheUrl(url: string): string[] {
+  const { pathname } = new URL(url);
+  const product = /^\/api\/v2\/product\/([^/]+)\.json$/.exec(pathname);
+  if (product) return [`off://product/${product[1]}`, `off://allergens/${product[1]}`];
+  const category = /^\/category\/([^/]+)\.json$/.exec(pathname);
+  if (category) return [`off://category/${category[1]}`];
+  return [];
+}
@@ -0,0 +1,257 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Env } from "../types";
+import { listPrompts } from "./prompts";
+import { handleMcpRequest } from "./server";
+
+vi.mock("cloudflare:workers", () => ({ waitUntil: () => {} }));
+vi.mock("agents", () => ({ getAgentByName: vi.fn() }));
+vi.mock("./prompts", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./prompts")>();
+  return { ...actual, listPrompts: vi.fn(actual.listPrompts) };
+});
+
+const env = {} as Env;
+const BARCODE = "3017620422003";
+const OTHER_BARCODE = "5449000000996";
+
+function post(body: unknown, headers: Record<string, string> = {}): Promise<Response> {
+  return handleMcpRequest(
+    new Request("https://nutri-agent.test/mcp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    }),
+    env
+  );
+}
+
+const toolCall = (id: number, _meta?: Record<string, unknown>) => ({
+  jsonrpc: "2.0",
+  id,
+  method: "tools/call",
+  params: { name: "get_product_by_barcode", arguments: { barcode: BARCODE }, ...(_meta ? { _meta } : {}) },
+});
+
+/** Start a session and return its id. */
+async function initialize(): Promise<string> {
+  const res = await post({ jsonrpc: "2.0", id: 0, method: "initialize", params: {} });
+  return res.headers.get("Mcp-Session-Id")!;
+}
+
+/** An OpenFoodFacts fetch answering with the product named in the URL. */
+function offProduct(url: string): Response {
+  const code = /\/product\/(\d+)\.json/.exec(url)?.[1];
+  return Response.json({ status: 1, product: { code, product_name: `Product ${code}`, nutriments: {} } });
+}
+
+/** The JSON-RPC messages of an SSE body, read until the server closes it. */
+async function sseMessages(res: Response): Promise<Record<string, any>[]> {
+  const text = await res.text();
+  return text
+    .split("\n")
+    .filter((line) => line.startsWith("data: "))
+    .map((line) => JSON.parse(line.slice(6)));
+}
+
+beforeEach(() => {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () =>
+      Response.json({ status: 1, product: { code: BARCODE, product_name: "Nutella", nutriments: {} } })
+    )
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("streamed POST responses", () => {
+  it("answers a request whose handler throws with an error frame", async () => {
+    vi.mocked(listPrompts).mockImplementationOnce(() => {
+      throw new Error("prompt registry is broken");
+    });
+
+    const res = await post([toolCall(1), { jsonrpc: "2.0", id: 2, method: "prompts/list" }], {
+      Accept: "application/json, text/event-stream",
+    });
+    const messages = await sseMessages(res);
+
+    expect(res.headers.get("Content-Type")).toBe("text/event-stream");
+    expect(messages.find((m) => m.id === 1)?.result.isError).toBe(false);
+    expect(messages.find((m) => m.id === 2)?.error).toEqual({
+      code: -32603,
+      message: "prompt registry is broken",
+    });
+  });
+});
+
+describe("progress and cancellation", () => {
+  it("sends progress notifications for the call's token before its result", async () => {
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => offProduct(url)));
+
+    const res = await post(
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: {
+          name: "compare_products",
+          arguments: { barcodes: [BARCODE, OTHER_BARCODE] },
+          _meta: { progressToken: "p1" },
+        },
+      },
+      { Accept: "application/json, text/event-stream" }
+    );
+    const messages = await sseMessages(res);
+
+    expect(messages.slice(0, 2)).toEqual([
+      {
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: "p1", progress: 1, total: 2, message: "1 of 2 products fetched" },
+      },
+      {
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: { progressToken: "p1", progress: 2, total: 2, message: "2 of 2 products fetched" },
+      },
+    ]);
+    expect(messages[2]).toMatchObject({ id: 1, result: { isError: false } });
+  });
+
+  it("aborts a request named by notifications/cancelled and leaves it unanswered", async () => {
+    let aborted: unknown;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise<Response>((_, reject) => {
+            init?.signal?.addEventListener("abort", () => {
+              aborted = init.signal!.reason;
+              reject(init.signal!.reason);
+            });
+          })
+      )
+    );
+    const sessionId = await initialize();
+    const headers = { "Mcp-Session-Id": sessionId };
+
+    const call = post(toolCall(7), headers);
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    const cancel = await post(
+      { jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 7, reason: "user gave up" } },
+      headers
+    );
+    const res = await call;
+
+    expect(cancel.status).toBe(202);
+    expect(res.status).toBe(202);
+    expect(await res.text()).toBe("");
+    expect(aborted).toMatchObject({ name: "AbortError", message: "user gave up" });
+  });
+});
+
+describe("resource update notifications", () => {
+  /** A Cache API holding a two-day-old (stale) copy of every product. */
+  function staleCache() {
+    const storedAt = String(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    const put = vi.fn(async () => {});
+    vi.stubGlobal("caches", {
+      default: {
+        match: async (key: Request) => {
+          const res = offProduct(key.url);
+          return new Response(res.body, { headers: { "x-nutriagent-stored-at": storedAt } });
+        },
+        put,
+      },
+    });
+    return put;
+  }
+
+  /** Read a GET stream until `count` messages arrived, then close it. */
+  async function streamMessages(res: Response, count: number): Promise<Record<string, any>[]> {
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = "";
+    const messages = () => text.split("\n").filter((line) => line.startsWith("data: "));
+    while (messages().length < count) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+    await reader.cancel();
+    return messages().map((line) => JSON.parse(line.slice(6)));
+  }
+
+  it("replays the updates after Last-Event-ID to a reconnecting stream", async () => {
+    vi.stubGlobal("fetch", vi.fn(async (url: string) => offProduct(url)));
+    const put = staleCache();
+    const sessionId = await initialize();
+    const headers = { "Mcp-Session-Id": sessionId };
+
+    for (const code of [BARCODE, OTHER_BARCODE]) {
+      const uri = `off://product/${code}`;
+      await post({ jsonrpc: "2.0", id: 1, method: "resources/subscribe", params: { uri } }, headers);
+      await post({ jsonrpc: "2.0", id: 2, method: "resources/read", params: { uri } }, headers);
+      await vi.waitFor(() => expect(put).toHaveBeenCalledTimes(code === BARCODE ? 1 : 2));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    const res = await handleMcpRequest(
+      new Request("https://nutri-agent.test/mcp", { headers: { ...headers, "Last-Event-ID": "1" } }),
+      env
+    );
+
+    expect(await streamMessages(res, 1)).toEqual([
+      {
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: `off://product/${OTHER_BARCODE}` },
+      },
+    ]);
+  });
+});
+
+describe("notifications", () => {
+  it("accepts an unknown notification without a response", async () => {
+    const res = await post({ jsonrpc: "2.0", method: "notifications/roots/list_changed" });
+
+    expect(res.status).toBe(202);
+    expect(await res.text()).toBe("");
+  });
+
+  it("leaves unknown notifications out of a batch's responses", async () => {
+    const res = await post([
+      { jsonrpc: "2.0", method: "notifications/unknown" },
+      { jsonrpc: "2.0", id: 1, method: "ping" },
+    ]);
+
+    expect(await res.json()).toEqual([{ jsonrpc: "2.0", id: 1, result: {} }]);
+  });
+
+  it("still answers unknown methods of requests", async () => {
+    const res = await post({ jsonrpc: "2.0", id: 1, method: "no/such/method" });
+
+    expect(await res.json()).toMatchObject({ id: 1, error: { code: -32601 } });
+  });
+});
+
+describe("resources/read", () => {
+  const read = (uri: string) => post({ jsonrpc: "2.0", id: 1, method: "resources/read", params: { uri } });
+
+  it("reads a resource through its tool", async () => {
+    const { result } = (await (await read(`off://product/${BARCODE}`)).json()) as Record<string, any>;
+
+    expect(result.contents[0].uri).toBe(`off://product/${BARCODE}`);
+    expect(JSON.parse(result.contents[0].text)).toMatchObject({ code: BARCODE, product_name: "Nutella" });
+  });
+
+  it("reports a badly escaped URI as not found rather than an internal error", async () => {
+    expect(await (await read("off://product/%E0")).json()).toMatchObject({ error: { code: -32002 } });
+  });
+
+  it("reports an invalid barcode as invalid params", async () => {
+    expect(await (await read("off://product/3017620422004")).json()).toMatchObject({ error: { code: -32602 } });
+  });
+});
@@ -10,9 +10,33 @@
  *   - initialize          → handshake + capabilities
  *   - tools/list          → list available tools
  *   - tools/call          → execute a tool
+ *   - resources/list, resources/templates/list, resources/read
+ *                         → product, category and user data by URI (see `./resources`)
+ *   - resources/subscribe, resources/unsubscribe
+ *                         → `notifications/resources/updated` on the session's GET stream
+ *   - prompts/list, prompts/get  → nutrition workflow templates (see `./prompts`)
  *   - notifications/initialized  → client ack (no-op)
+ *   - notifications/cancelled    → aborts the named in-flight request
  *   - ping                → keepalive
  *
+ * Responses: a POST carrying a `tools/call` is answered as an SSE stream when
+ * the client accepts `text/event-stream`, and calls that pass a
+ * `progressToken` get `notifications/progress` on it before their result.
+ * Other POSTs get a single JSON body. Server-initiated messages (resource
+ * updates) go on the session's GET stream with event ids, so a client that
+ * reconnects with `Last-Event-ID` is replayed what it missed. Sessions live
+ * in the isolate's memory: cancellation and replay only reach requests and
+ * streams served by the same isolate.
+ *
+ * Tools come from the registry in `src/tools`. Arguments are validated
+ * against each tool's input schema; invalid ones get JSON-RPC -32602 with
+ * the field errors as `data`.
+ *
+ * Agent-scoped tools (dietary profile, food diary, schedules) act on a user's NutriAgent
+ * instance: the caller passes a token signed for it (`AGENT_TOKEN_SECRET`) in
+ * the `X-Agent-Instance` header and the call is forwarded to that Durable
+ * Object. A bare instance name is never trusted.
+ *
  * Security:
  *   - Bearer token auth via MCP_API_KEY secret
  *   - Origin header validation
@@ -21,8 +45,34 @@
  * Spec: https://modelcontextprotocol.io/specification/2025-03-26/basic/transports#streamable-http
  */
 
-import { dispatchTool } from "../tools";
+import { getAgentByName, type AgentNamespace } from "agents";
+import type { NutriAgent } from "../agent";
+import { verifyAgentInstance } from "../auth";
+import {
+  cacheSummary,
+  findTool,
+  InvalidArgumentsError,
+  localeFromAcceptLanguage,
+  onCacheRefresh,
+  OpenFoodFactsError,
+  ToolError,
+  TOOLS,
+  trackCache,
+  trackProgress,
+  validateArguments,
+  withLocaleDefaults,
+  type ToolSpec,
+} from "../tools";
 import type { Env } from "../types";
+import { AGENT_INSTANCE_HEADER } from "./client";
+import { getPrompt, listPrompts } from "./prompts";
+import {
+  RESOURCE_TEMPLATES,
+  resolveResource,
+  resourcesForCacheUrl,
+  USER_RESOURCES,
+  type ResolvedResource,
+} from "./resources";
 
 // ── protocol constants ─────────────────────────────────────────────────────
 
@@ -35,105 +85,97 @@ const SERVER_INFO = {
 
 const SERVER_CAPABILITIES = {
   tools: { listChanged: false },
+  resources: { subscribe: true, listChanged: false },
+  prompts: { listChanged: false },
 };
 
 // ── MCP tool definitions (MCP schema format) ───────────────────────────────
 
-const MCP_TOOLS = [
-  {
-    name: "get_product_by_barcode",
-    description:
-      "Look up a food product by its barcode (EAN/UPC). Returns full nutritional facts, Nutri-Score, ingredients, allergens.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        barcode: {
-          type: "string",
-          description:
-            "The product barcode (EAN-13 or UPC-A), e.g. '3017620422003' for Nutella",
-        },
-      },
-      required: ["barcode"],
-    },
-  },
-  {
-    name: "search_products",
-    description:
-      "Search the OpenFoodFacts database by product name or keyword. Returns matching products with nutritional info.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        query: {
-          type: "string",
-          description: "Product name or keyword to search for",
-        },
-        page: { type: "number", description: "Page number (default 1)" },
-        page_size: {
-          type: "number",
-          description: "Results per page, max 50 (default 5)",
-        },
-      },
-      required: ["query"],
-    },
-  },
-  {
-    name: "get_products_by_category",
-    description:
-      "Browse products in a specific food category, e.g. 'breakfast-cereals', 'yogurts', 'sodas'.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        category: { type: "string", description: "Food category name" },
-        page: { type: "number", description: "Page number (default 1)" },
-        page_size: {
-          type: "number",
-          description: "Results per page (default 5)",
-        },
-      },
-      required: ["category"],
-    },
-  },
-  {
-    name: "compare_products",
-    description:
-      "Compare nutritional facts and Nutri-Score across multiple products by their barcodes.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        barcodes: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of barcodes to compare",
-        },
-      },
-      required: ["barcodes"],
-    },
-  },
-  {
-    name: "get_allergen_info",
-    description:
-      "Get allergen and trace information for a product by barcode. Useful for dietary restriction checks.",
-    inputSchema: {
-      type: "object",
-      properties: {
-        barcode: { type: "string", description: "Product barcode" },
-      },
-      required: ["barcode"],
-    },
-  },
-];
+/** MCP only allows object output schemas: tools returning arrays advertise none. */
+const hasStructuredOutput = (tool: ToolSpec) => tool.outputSchema.type === "object";
+
+const MCP_TOOLS = TOOLS.map((tool) => ({
+  name: tool.name,
+  description:
+    tool.scope === "agent"
+      ? `${tool.description} Requires the ${AGENT_INSTANCE_HEADER} header.`
+      : tool.description,
+  inputSchema: tool.inputSchema,
+  ...(hasStructuredOutput(tool) ? { outputSchema: tool.outputSchema } : {}),
+}));
 
 // ── session store (in-memory, per-isolate) ─────────────────────────────────
 
-const sessions = new Map<string, { createdAt: number }>();
+interface Session {
+  createdAt: number;
+  /** Resource URIs the client subscribed to. */
+  subscriptions: Set<string>;
+  /** Open GET streams, where server-initiated notifications are sent. */
+  streams: Set<ReadableStreamDefaultController<Uint8Array>>;
+  /** Recent server-initiated events, oldest first, replayed after `Last-Event-ID`. */
+  history: { id: number; event: Uint8Array }[];
+  nextEventId: number;
+  /** Requests still being handled, by JSON-RPC id, for `notifications/cancelled`. */
+  inFlight: Map<string | number, AbortController>;
+}
+
+/** Server-initiated events kept per session for resumption. */
+const REPLAY_LIMIT = 100;
+
+const sessions = new Map<string, Session>();
 
 function getOrCreateSession(sessionId?: string | null): string {
   if (sessionId && sessions.has(sessionId)) return sessionId;
   const id = crypto.randomUUID();
-  sessions.set(id, { createdAt: Date.now() });
+  sessions.set(id, {
+    createdAt: Date.now(),
+    subscriptions: new Set(),
+    streams: new Set(),
+    history: [],
+    nextEventId: 1,
+    inFlight: new Map(),
+  });
   return id;
 }
 
+const encoder = new TextEncoder();
+
+/** One SSE `message` event carrying a JSON-RPC message. */
+function sseEvent(message: JsonRpcMessage, eventId?: number): Uint8Array {
+  const id = eventId === undefined ? "" : `id: ${eventId}\n`;
+  return encoder.encode(`${id}event: message\ndata: ${JSON.stringify(message)}\n\n`);
+}
+
+/**
+ * Send a JSON-RPC notification on one of the session's GET streams (the
+ * transport forbids broadcasting a message on several). With no stream open
+ * it waits in the history for the client to reconnect.
+ */
+function notify(session: Session, method: string, params: Record<string, unknown>): void {
+  const id = session.nextEventId++;
+  const event = sseEvent({ jsonrpc: "2.0", method, params }, id);
+  session.history.push({ id, event });
+  if (session.history.length > REPLAY_LIMIT) session.history.shift();
+
+  for (const stream of session.streams) {
+    try {
+      stream.enqueue(event);
+      return;
+    } catch {
+      session.streams.delete(stream); // closed by the client
+    }
+  }
+}
+
+// a background refresh replaced cached OFF data: tell the sessions subscribed to it
+onCacheRefresh((url) => {
+  for (const uri of resourcesForCacheUrl(url)) {
+    for (const session of sessions.values()) {
+      if (session.subscriptions.has(uri)) notify(session, "notifications/resources/updated", { uri });
+    }
+  }
+});
+
 // ── JSON-RPC helpers ───────────────────────────────────────────────────────
 
 interface JsonRpcRequest {
@@ -150,6 +192,22 @@ interface JsonRpcResponse {
   error?: { code: number; message: string; data?: unknown };
 }
 
+interface JsonRpcNotification {
+  jsonrpc: "2.0";
+  method: string;
+  params: Record<string, unknown>;
+}
+
+type JsonRpcMessage = JsonRpcResponse | JsonRpcNotification;
+
+/** How one request is being handled. */
+interface CallContext {
+  /** Aborted when the client disconnects or cancels the request. */
+  signal: AbortSignal;
+  /** Sends a message ahead of the response, on the POST's SSE stream; absent for JSON responses. */
+  send?: (message: JsonRpcNotification) => void;
+}
+
 function rpcOk(id: string | number | null, result: unknown): JsonRpcResponse {
   return { jsonrpc: "2.0", id, result };
 }
@@ -198,34 +256,41 @@ export async function handleMcpRequest(
   const authErr = checkMcpAuth(request, env);
   if (authErr) return authErr;
 
-  // ── GET /mcp → SSE keepalive stream (for client connections) ──
+  // ── GET /mcp → SSE stream for server-initiated messages ──
   if (request.method === "GET") {
     const sessionId = getOrCreateSession(
       request.headers.get("mcp-session-id")
     );
+    const session = sessions.get(sessionId)!;
+    // a reconnecting client names the last event it received
+    const lastEventId = request.headers.get("Last-Event-ID");
 
-    const stream = new ReadableStream({
+    // stays open until the client closes it; carries resource update notifications
+    let stream: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
       start(controller) {
-        const encoder = new TextEncoder();
+        stream = controller;
         controller.enqueue(encoder.encode(": MCP SSE keepalive\n\n"));
-        // In a full implementation, server-initiated notifications go here.
-        // For now we just keep the connection open until the client closes.
+        if (lastEventId !== null) {
+          for (const { id, event } of session.history) {
+            if (id > Number(lastEventId)) controller.enqueue(event);
+          }
+        }
+        session.streams.add(controller);
       },
-    });
-
-    return new Response(stream, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-        "Mcp-Session-Id": sessionId,
+      cancel() {
+        session.streams.delete(stream);
       },
     });
+
+    return new Response(body, { headers: sseHeaders(sessionId) });
   }
 
   // ── DELETE /mcp → close session ──────────────────────
   if (request.method === "DELETE") {
     const sessionId = request.headers.get("mcp-session-id");
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    session?.streams.forEach((stream) => stream.close());
     if (sessionId) sessions.delete(sessionId);
     return new Response(null, { status: 204 });
   }
@@ -252,16 +317,27 @@ export async function handleMcpRequest(
     });
   }
 
+  const sessionId = getOrCreateSession(
+    request.headers.get("mcp-session-id")
+  );
+  const session = sessions.get(sessionId)!;
+
+  // tool calls may take a while: stream their progress when the client can read SSE
+  const messages = (Array.isArray(body) ? body : [body]) as JsonRpcRequest[];
+  if (
+    (request.headers.get("Accept") ?? "").includes("text/event-stream") &&
+    messages.some((m) => m?.method === "tools/call" && m.id !== undefined)
+  ) {
+    return streamResponses(messages, request, env, session, sessionId);
+  }
+
   // Handle batch requests
   if (Array.isArray(body)) {
     const results = await Promise.all(
-      body.map((req: JsonRpcRequest) => handleRpcMethod(req))
+      body.map((req: JsonRpcRequest) => handleRpcMethod(req, request, env, session))
     );
     // Filter out notifications (no id → no response)
     const responses = results.filter((r): r is JsonRpcResponse => r !== null);
-    const sessionId = getOrCreateSession(
-      request.headers.get("mcp-session-id")
-    );
     if (responses.length === 0) {
       return new Response(null, {
         status: 202,
@@ -278,11 +354,7 @@ export async function handleMcpRequest(
 
   // Single request
   const rpcReq = body as JsonRpcRequest;
-  const sessionId = getOrCreateSession(
-    request.headers.get("mcp-session-id")
-  );
-
-  const result = await handleRpcMethod(rpcReq);
+  const result = await handleRpcMethod(rpcReq, request, env, session);
 
   // Notification (no id) → 202 Accepted
   if (result === null) {
@@ -300,21 +372,113 @@ export async function handleMcpRequest(
   });
 }
 
+function sseHeaders(sessionId: string): HeadersInit {
+  return {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Mcp-Session-Id": sessionId,
+  };
+}
+
+/**
+ * Answer a POST as an SSE stream: each response is sent as soon as its
+ * request is done, preceded by the notifications (progress) it emits. The
+ * stream closes after the last response.
+ */
+function streamResponses(
+  messages: JsonRpcRequest[],
+  request: Request,
+  env: Env,
+  session: Session,
+  sessionId: string
+): Response {
+  let stream!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      stream = controller;
+    },
+  });
+
+  const send = (message: JsonRpcMessage) => {
+    try {
+      stream.enqueue(sseEvent(message));
+    } catch {
+      // the client went away; its request signal aborts the calls
+    }
+  };
+
+  void Promise.all(
+    messages.map(async (req) => {
+      try {
+        const response = await handleRpcMethod(req, request, env, session, send);
+        if (response) send(response);
+      } catch (err) {
+        // answer anyway: the client waits for a response to every request id
+        if (req?.id !== undefined) {
+          send(rpcError(req.id, -32603, err instanceof Error ? err.message : String(err)));
+        }
+      }
+    })
+  ).finally(() => {
+    try {
+      stream.close();
+    } catch {
+      // already cancelled by the client
+    }
+  });
+
+  return new Response(body, { headers: sseHeaders(sessionId) });
+}
+
 // ── method dispatcher ──────────────────────────────────────────────────────
 
 async function handleRpcMethod(
-  req: JsonRpcRequest
+  req: JsonRpcRequest,
+  request: Request,
+  env: Env,
+  session: Session,
+  send?: CallContext["send"]
 ): Promise<JsonRpcResponse | null> {
-  const id = req.id ?? null;
-
   // Notifications (no id) are fire-and-forget
   if (req.method === "notifications/initialized") {
     return null;
   }
   if (req.method === "notifications/cancelled") {
+    const requestId = req.params?.requestId;
+    if (typeof requestId === "string" || typeof requestId === "number") {
+      const reason = typeof req.params?.reason === "string" ? req.params.reason : "Request cancelled";
+      session.inFlight.get(requestId)?.abort(new DOMException(reason, "AbortError"));
+    }
     return null;
   }
+  // JSON-RPC never answers a notification, including ones we do not handle
+  if (req.id === undefined) return null;
+
+  // every request gets a signal of its own: batched calls keep separate cache
+  // and progress reports, and the client can cancel it by id
+  const id = req.id ?? null;
+  const cancel = new AbortController();
+  if (id !== null) session.inFlight.set(id, cancel);
+  const call: CallContext = { signal: AbortSignal.any([request.signal, cancel.signal]), send };
+
+  try {
+    const response = await callRpcMethod(req, id, request, env, session, call);
+    // the client has given up on a cancelled request: it gets no response
+    return cancel.signal.aborted ? null : response;
+  } finally {
+    if (id !== null && session.inFlight.get(id) === cancel) session.inFlight.delete(id);
+  }
+}
 
+async function callRpcMethod(
+  req: JsonRpcRequest,
+  id: string | number | null,
+  request: Request,
+  env: Env,
+  session: Session,
+  call: CallContext
+): Promise<JsonRpcResponse> {
   switch (req.method) {
     case "initialize":
       return rpcOk(id, {
@@ -330,7 +494,29 @@ async function handleRpcMethod(
       return rpcOk(id, { tools: MCP_TOOLS });
 
     case "tools/call":
-      return await handleToolCall(id, req.params);
+      return await handleToolCall(id, req.params, request, env, call);
+
+    case "resources/list":
+      // user data only for callers holding a signed token for their instance
+      return rpcOk(id, {
+        resources: (await signedAgentInstance(request, env)) ? USER_RESOURCES : [],
+      });
+
+    case "resources/templates/list":
+      return rpcOk(id, { resourceTemplates: RESOURCE_TEMPLATES });
+
+    case "resources/read":
+      return await handleResourceRead(id, req.params, request, env, call.signal);
+
+    case "resources/subscribe":
+    case "resources/unsubscribe":
+      return handleSubscription(id, req.method, req.params, session);
+
+    case "prompts/list":
+      return rpcOk(id, { prompts: listPrompts() });
+
+    case "prompts/get":
+      return handlePromptGet(id, req.params);
 
     default:
       return rpcError(id, -32601, `Method not found: ${req.method}`);
@@ -339,38 +525,228 @@ async function handleRpcMethod(
 
 // ── tools/call handler ─────────────────────────────────────────────────────
 
+/**
+ * Execute a tool. The call's abort signal is passed on, so a client that
+ * gives up (timeout, disconnect, `notifications/cancelled`) also stops the
+ * upstream OFF fetch. With a `progressToken` and an SSE response, the tool's
+ * progress reports are sent as `notifications/progress`.
+ */
 async function handleToolCall(
   id: string | number | null,
-  params?: Record<string, unknown>
+  params: Record<string, unknown> | undefined,
+  request: Request,
+  env: Env,
+  { signal, send }: CallContext
 ): Promise<JsonRpcResponse> {
   if (!params || !params.name) {
     return rpcError(id, -32602, "Missing required parameter: name");
   }
 
   const toolName = params.name as string;
-  const args = (params.arguments as Record<string, unknown>) ?? {};
+  // OFF tools default to the caller's Accept-Language locale
+  const args = withLocaleDefaults(
+    toolName,
+    (params.arguments as Record<string, unknown>) ?? {},
+    localeFromAcceptLanguage(request.headers.get("Accept-Language"))
+  );
 
   // Verify tool exists
-  const tool = MCP_TOOLS.find((t) => t.name === toolName);
+  const tool = findTool(toolName);
   if (!tool) {
     return rpcError(id, -32602, `Unknown tool: ${toolName}`);
   }
 
+  // malformed arguments are a protocol error, with every bad field listed
+  try {
+    validateArguments(tool, args);
+  } catch (err) {
+    if (err instanceof InvalidArgumentsError) return rpcError(id, -32602, err.message, err.toJSON());
+    throw err;
+  }
+
+  const lookups = trackCache(signal);
+  const progressToken = (params._meta as { progressToken?: unknown } | undefined)?.progressToken;
+  if (send && (typeof progressToken === "string" || typeof progressToken === "number")) {
+    trackProgress(signal, (update) =>
+      send({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken, ...update } })
+    );
+  }
+
   try {
-    const result = await dispatchTool(toolName, args);
+    const result = await runTool(tool, args, request, env, signal);
     return rpcOk(id, {
       content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      ...(hasStructuredOutput(tool) ? { structuredContent: result } : {}),
       isError: false,
+      _meta: { cache: cacheSummary(lookups) },
     });
   } catch (err) {
     return rpcOk(id, {
       content: [
         {
           type: "text",
-          text: `Error: ${err instanceof Error ? err.message : String(err)}`,
+          // typed failures go out as JSON so clients can act on `code`
+          text:
+            err instanceof ToolError
+              ? JSON.stringify(err)
+              : `Error: ${err instanceof Error ? err.message : String(err)}`,
         },
       ],
       isError: true,
     });
   }
 }
+
+/** Run a validated tool call: in-process, or on the caller's agent instance. */
+function runTool(
+  tool: ToolSpec,
+  args: Record<string, unknown>,
+  request: Request,
+  env: Env,
+  signal: AbortSignal
+): Promise<unknown> {
+  return tool.scope === "agent"
+    ? callAgentTool(request, env, tool.name, args, signal)
+    : tool.handler(args, signal);
+}
+
+// ── resources ──────────────────────────────────────────────────────────────
+
+/** MCP's "resource not found" error code. */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** Read a resource through the tool that serves its data. */
+async function handleResourceRead(
+  id: string | number | null,
+  params: Record<string, unknown> | undefined,
+  request: Request,
+  env: Env,
+  signal: AbortSignal
+): Promise<JsonRpcResponse> {
+  const uri = params?.uri;
+  if (typeof uri !== "string") {
+    return rpcError(id, -32602, "Missing required parameter: uri");
+  }
+
+  try {
+    const resource = resolveResource(uri);
+    if (!resource) return rpcError(id, RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+
+    const tool = findTool(resource.tool)!;
+    // checked like `tools/call` arguments; an InvalidArgumentsError is a ToolError (-32602 below)
+    const args = validateArguments(
+      tool,
+      withLocaleDefaults(tool.name, resource.args, localeFromAcceptLanguage(request.headers.get("Accept-Language")))
+    );
+    const result = await runTool(tool, args, request, env, signal);
+    return rpcOk(id, {
+      contents: [{ uri: resource.uri, mimeType: "application/json", text: JSON.stringify(result, null, 2) }],
+    });
+  } catch (err) {
+    if (err instanceof OpenFoodFactsError && err.code === "not_found") {
+      return rpcError(id, RESOURCE_NOT_FOUND, err.message, { uri, ...err.toJSON() });
+    }
+    // e.g. an invalid barcode in the URI
+    if (err instanceof ToolError) return rpcError(id, -32602, err.message, err.toJSON());
+    return rpcError(id, -32603, err instanceof Error ? err.message : String(err), { uri });
+  }
+}
+
+function handleSubscription(
+  id: string | number | null,
+  method: string,
+  params: Record<string, unknown> | undefined,
+  session: Session
+): JsonRpcResponse {
+  const uri = params?.uri;
+  if (typeof uri !== "string") {
+    return rpcError(id, -32602, "Missing required parameter: uri");
+  }
+
+  let resource: ResolvedResource | null;
+  try {
+    resource = resolveResource(uri);
+  } catch (err) {
+    return rpcError(id, -32602, (err as Error).message, err instanceof ToolError ? err.toJSON() : undefined);
+  }
+  if (!resource) return rpcError(id, RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+
+  if (method === "resources/unsubscribe") {
+    session.subscriptions.delete(resource.uri);
+    return rpcOk(id, {});
+  }
+  if (!resource.subscribable) {
+    return rpcError(id, -32602, `${uri} does not send updates; only off:// resources can be subscribed to`);
+  }
+  session.subscriptions.add(resource.uri);
+  return rpcOk(id, {});
+}
+
+// ── prompts ────────────────────────────────────────────────────────────────
+
+function handlePromptGet(
+  id: string | number | null,
+  params: Record<string, unknown> | undefined
+): JsonRpcResponse {
+  const name = params?.name;
+  if (typeof name !== "string") {
+    return rpcError(id, -32602, "Missing required parameter: name");
+  }
+
+  try {
+    const prompt = getPrompt(name, params?.arguments as Record<string, unknown> | undefined);
+    if (!prompt) return rpcError(id, -32602, `Unknown prompt: ${name}`);
+    return rpcOk(id, prompt);
+  } catch (err) {
+    return rpcError(id, -32602, (err as Error).message);
+  }
+}
+
+// ── agent-scoped tools ─────────────────────────────────────────────────────
+
+/** The agent instance named by the request's signed token; null if absent or not validly signed. */
+async function signedAgentInstance(request: Request, env: Env): Promise<string | null> {
+  const token = request.headers.get(AGENT_INSTANCE_HEADER);
+  return token ? verifyAgentInstance(token, env) : null;
+}
+
+/** Forward an agent-scoped tool call to the instance the caller's token was signed for. */
+async function callAgentTool(
+  request: Request,
+  env: Env,
+  name: string,
+  args: Record<string, unknown>,
+  signal: AbortSignal
+): Promise<unknown> {
+  if (!request.headers.get(AGENT_INSTANCE_HEADER)) {
+    throw new Error(`${name} needs the ${AGENT_INSTANCE_HEADER} header with a signed agent instance token`);
+  }
+  const instance = await signedAgentInstance(request, env);
+  if (!instance) {
+    throw new Error(`${name}: the ${AGENT_INSTANCE_HEADER} token is not validly signed`);
+  }
+
+  const agent = await getAgentByName(
+    env.NUTRI_AGENT as unknown as AgentNamespace<NutriAgent>,
+    instance
+  );
+  const res = await agent.fetch(
+    new Request(
+      `https://nutri-agent.internal/agents/nutri-agent/${encodeURIComponent(instance)}/tools/${name}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-partykit-room": instance },
+        body: JSON.stringify(args),
+        signal,
+      }
+    )
+  );
+
+  const data = (await res.json()) as { result?: unknown; error?: string; code?: string };
+  if (!res.ok) {
+    const { error, code, ...details } = data;
+    if (error && code) throw new ToolError(error, code, details);
+    throw new Error(error ?? `Agent instance ${res.status}`);
+  }
+  return data.result;
+}
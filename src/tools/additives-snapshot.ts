@@ -0,0 +1,301 @@
+/**
+ * Bundled additives snapshot
+ *
+ * @developer Eduardo Arana
+ *
+ * Offline fallback for `get_additive_info` when OFF's additives taxonomy
+ * cannot be fetched: the additives most often found on product labels,
+ * curated from the OFF taxonomy and EFSA re-evaluation opinions. Keep it
+ * small — the live taxonomy is the source of truth.
+ */
+
+import type { AnalysisStatus } from "./detail";
+import type { EfsaEvaluation } from "./additives";
+
+export interface SnapshotEntry {
+  name: string;
+  classes: string[];
+  vegan: AnalysisStatus;
+  vegetarian: AnalysisStatus;
+  efsa?: EfsaEvaluation;
+}
+
+// the "Southampton six" colours carry a mandatory EU warning label
+const SOUTHAMPTON_WARNING =
+  "Must be labelled 'may have an adverse effect on activity and attention in children' in the EU.";
+
+const PHOSPHATES: EfsaEvaluation = {
+  summary: "Re-evaluated with the other phosphates; a group ADI covers all phosphate additives.",
+  adi: "40 mg/kg body weight/day (group, as phosphorus)",
+  overexposure_risk: "moderate",
+  date: "2019",
+};
+
+export const ADDITIVES_SNAPSHOT: Record<string, SnapshotEntry> = {
+  // ── colours ──────────────────────────────────────────────────────────────
+  "en:e100": {
+    name: "Curcumin",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "3 mg/kg body weight/day", date: "2010" },
+  },
+  "en:e102": {
+    name: "Tartrazine",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: SOUTHAMPTON_WARNING, adi: "7.5 mg/kg body weight/day", date: "2009" },
+  },
+  "en:e104": {
+    name: "Quinoline yellow",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: SOUTHAMPTON_WARNING, adi: "0.5 mg/kg body weight/day", date: "2009" },
+  },
+  "en:e110": {
+    name: "Sunset yellow FCF",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: SOUTHAMPTON_WARNING, adi: "4 mg/kg body weight/day", date: "2014" },
+  },
+  "en:e120": {
+    name: "Cochineal, carminic acid, carmines",
+    classes: ["colour"],
+    vegan: "no",
+    vegetarian: "no",
+    efsa: { summary: "Made from cochineal insects.", adi: "5 mg/kg body weight/day", date: "2015" },
+  },
+  "en:e122": {
+    name: "Azorubine, carmoisine",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: SOUTHAMPTON_WARNING, adi: "4 mg/kg body weight/day", date: "2009" },
+  },
+  "en:e124": {
+    name: "Ponceau 4R, cochineal red A",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: SOUTHAMPTON_WARNING, adi: "0.7 mg/kg body weight/day", date: "2009" },
+  },
+  "en:e129": {
+    name: "Allura red AC",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: SOUTHAMPTON_WARNING, adi: "7 mg/kg body weight/day", date: "2009" },
+  },
+  "en:e133": {
+    name: "Brilliant blue FCF",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "6 mg/kg body weight/day", date: "2010" },
+  },
+  "en:e150d": {
+    name: "Sulphite ammonia caramel",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+  },
+  "en:e160a": { name: "Carotenes", classes: ["colour"], vegan: "yes", vegetarian: "yes" },
+  "en:e162": { name: "Beetroot red, betanin", classes: ["colour"], vegan: "yes", vegetarian: "yes" },
+  "en:e171": {
+    name: "Titanium dioxide",
+    classes: ["colour"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: {
+      summary:
+        "No longer considered safe as a food additive: genotoxicity could not be ruled out. Banned in EU food since 2022.",
+      date: "2021",
+    },
+  },
+
+  // ── preservatives ────────────────────────────────────────────────────────
+  "en:e200": {
+    name: "Sorbic acid",
+    classes: ["preservative"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "11 mg/kg body weight/day (group, as sorbic acid)", date: "2019" },
+  },
+  "en:e202": {
+    name: "Potassium sorbate",
+    classes: ["preservative"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "11 mg/kg body weight/day (group, as sorbic acid)", date: "2019" },
+  },
+  "en:e211": {
+    name: "Sodium benzoate",
+    classes: ["preservative"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "5 mg/kg body weight/day (group, as benzoic acid)", date: "2016" },
+  },
+  "en:e220": {
+    name: "Sulphur dioxide",
+    classes: ["preservative", "antioxidant"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: {
+      summary: "Sulphites are a declared allergen above 10 mg/kg. Intake by high consumers may be a safety concern.",
+      overexposure_risk: "high",
+      date: "2022",
+    },
+  },
+  "en:e223": {
+    name: "Sodium metabisulphite",
+    classes: ["preservative", "antioxidant"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: {
+      summary: "Sulphites are a declared allergen above 10 mg/kg. Intake by high consumers may be a safety concern.",
+      overexposure_risk: "high",
+      date: "2022",
+    },
+  },
+  "en:e250": {
+    name: "Sodium nitrite",
+    classes: ["preservative"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: {
+      summary: "Used in cured meats. Can form nitrosamines, which are a health concern.",
+      adi: "0.07 mg/kg body weight/day (as nitrite ion)",
+      date: "2017",
+    },
+  },
+  "en:e252": {
+    name: "Potassium nitrate",
+    classes: ["preservative"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "3.7 mg/kg body weight/day (as nitrate ion)", date: "2017" },
+  },
+
+  // ── acids, antioxidants, acidity regulators ─────────────────────────────
+  "en:e270": { name: "Lactic acid", classes: ["acid"], vegan: "yes", vegetarian: "yes" },
+  "en:e290": { name: "Carbon dioxide", classes: ["carbonating agent"], vegan: "yes", vegetarian: "yes" },
+  "en:e296": { name: "Malic acid", classes: ["acid"], vegan: "yes", vegetarian: "yes" },
+  "en:e300": {
+    name: "Ascorbic acid",
+    classes: ["antioxidant"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: "No safety concern; no numerical ADI needed.", date: "2015" },
+  },
+  "en:e301": { name: "Sodium ascorbate", classes: ["antioxidant"], vegan: "yes", vegetarian: "yes" },
+  "en:e306": { name: "Tocopherol-rich extract", classes: ["antioxidant"], vegan: "yes", vegetarian: "yes" },
+  "en:e322": {
+    name: "Lecithins",
+    classes: ["emulsifier"],
+    vegan: "maybe",
+    vegetarian: "yes",
+    efsa: { summary: "No safety concern; no numerical ADI needed. Usually from soy or sunflower, sometimes egg.", date: "2017" },
+  },
+  "en:e330": { name: "Citric acid", classes: ["acid"], vegan: "yes", vegetarian: "yes" },
+  "en:e331": { name: "Sodium citrates", classes: ["acidity regulator"], vegan: "yes", vegetarian: "yes" },
+  "en:e338": { name: "Phosphoric acid", classes: ["acid"], vegan: "yes", vegetarian: "yes", efsa: PHOSPHATES },
+  "en:e339": { name: "Sodium phosphates", classes: ["acidity regulator"], vegan: "yes", vegetarian: "yes", efsa: PHOSPHATES },
+  "en:e450": { name: "Diphosphates", classes: ["raising agent"], vegan: "yes", vegetarian: "yes", efsa: PHOSPHATES },
+  "en:e451": { name: "Triphosphates", classes: ["stabiliser"], vegan: "yes", vegetarian: "yes", efsa: PHOSPHATES },
+  "en:e452": { name: "Polyphosphates", classes: ["stabiliser"], vegan: "yes", vegetarian: "yes", efsa: PHOSPHATES },
+
+  // ── thickeners, stabilisers, emulsifiers ────────────────────────────────
+  "en:e407": {
+    name: "Carrageenan",
+    classes: ["thickener", "gelling agent"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: "Temporary ADI pending more data.", adi: "75 mg/kg body weight/day (temporary)", date: "2018" },
+  },
+  "en:e410": { name: "Locust bean gum", classes: ["thickener"], vegan: "yes", vegetarian: "yes" },
+  "en:e412": { name: "Guar gum", classes: ["thickener"], vegan: "yes", vegetarian: "yes" },
+  "en:e414": { name: "Acacia gum, gum arabic", classes: ["thickener"], vegan: "yes", vegetarian: "yes" },
+  "en:e415": {
+    name: "Xanthan gum",
+    classes: ["thickener", "stabiliser"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { summary: "No safety concern; no numerical ADI needed.", date: "2017" },
+  },
+  "en:e420": { name: "Sorbitol", classes: ["sweetener", "humectant"], vegan: "yes", vegetarian: "yes" },
+  "en:e422": { name: "Glycerol", classes: ["humectant"], vegan: "maybe", vegetarian: "maybe" },
+  "en:e440": { name: "Pectins", classes: ["gelling agent"], vegan: "yes", vegetarian: "yes" },
+  "en:e466": { name: "Carboxymethylcellulose", classes: ["thickener"], vegan: "yes", vegetarian: "yes" },
+  "en:e471": {
+    name: "Mono- and diglycerides of fatty acids",
+    classes: ["emulsifier"],
+    vegan: "maybe",
+    vegetarian: "maybe",
+    efsa: {
+      summary: "No safety concern; no numerical ADI needed. Fatty acids may come from plant or animal fat.",
+      date: "2017",
+    },
+  },
+  "en:e472e": {
+    name: "Mono- and diacetyl tartaric acid esters of mono- and diglycerides of fatty acids",
+    classes: ["emulsifier"],
+    vegan: "maybe",
+    vegetarian: "maybe",
+  },
+  "en:e476": { name: "Polyglycerol polyricinoleate", classes: ["emulsifier"], vegan: "yes", vegetarian: "yes" },
+
+  // ── raising agents, flavour enhancers ───────────────────────────────────
+  "en:e500": { name: "Sodium carbonates", classes: ["raising agent"], vegan: "yes", vegetarian: "yes" },
+  "en:e503": { name: "Ammonium carbonates", classes: ["raising agent"], vegan: "yes", vegetarian: "yes" },
+  "en:e621": {
+    name: "Monosodium glutamate",
+    classes: ["flavour enhancer"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: {
+      adi: "30 mg/kg body weight/day (group, as glutamic acid)",
+      overexposure_risk: "high",
+      date: "2017",
+    },
+  },
+  "en:e627": { name: "Disodium guanylate", classes: ["flavour enhancer"], vegan: "maybe", vegetarian: "maybe" },
+  "en:e631": { name: "Disodium inosinate", classes: ["flavour enhancer"], vegan: "maybe", vegetarian: "maybe" },
+
+  // ── glazing agents, flour treatment ─────────────────────────────────────
+  "en:e901": { name: "Beeswax", classes: ["glazing agent"], vegan: "no", vegetarian: "yes" },
+  "en:e904": { name: "Shellac", classes: ["glazing agent"], vegan: "no", vegetarian: "yes" },
+  "en:e920": { name: "L-cysteine", classes: ["flour treatment agent"], vegan: "maybe", vegetarian: "maybe" },
+
+  // ── sweeteners ──────────────────────────────────────────────────────────
+  "en:e950": { name: "Acesulfame K", classes: ["sweetener"], vegan: "yes", vegetarian: "yes" },
+  "en:e951": {
+    name: "Aspartame",
+    classes: ["sweetener"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: {
+      summary: "Safe at the ADI. Contains a source of phenylalanine, which matters for people with phenylketonuria.",
+      adi: "40 mg/kg body weight/day",
+      date: "2013",
+    },
+  },
+  "en:e954": {
+    name: "Saccharin",
+    classes: ["sweetener"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "9 mg/kg body weight/day", date: "2024" },
+  },
+  "en:e955": { name: "Sucralose", classes: ["sweetener"], vegan: "yes", vegetarian: "yes" },
+  "en:e960": {
+    name: "Steviol glycosides",
+    classes: ["sweetener"],
+    vegan: "yes",
+    vegetarian: "yes",
+    efsa: { adi: "4 mg/kg body weight/day (as steviol)", date: "2010" },
+  },
+  "en:e967": { name: "Xylitol", classes: ["sweetener"], vegan: "yes", vegetarian: "yes" },
+};
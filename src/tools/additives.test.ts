@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { additiveRefs, additiveTag, findAdditive, indexTaxonomy, snapshotIndex } from "./additives";
+
+const TAXONOMY = {
+  "en:e471": {
+    name: { en: "E471 - Mono- and diglycerides of fatty acids" },
+    additives_classes: { en: "en:emulsifier, en:stabiliser" },
+    vegan: { en: "maybe" },
+    vegetarian: { en: "yes" },
+    efsa_evaluation_overexposure_risk: { en: "en:no" },
+  },
+  "en:e160aii": { name: { en: "E160a(ii) - Beta-carotene" } },
+  "en:colour": { name: { en: "Colour" } },
+};
+
+describe("additiveTag", () => {
+  it("normalises the ways E-numbers are written", () => {
+    expect(additiveTag("E 471")).toBe("en:e471");
+    expect(additiveTag("471")).toBe("en:e471");
+    expect(additiveTag("en:E471")).toBe("en:e471");
+    expect(additiveTag("E160a(ii)")).toBe("en:e160aii");
+    expect(additiveTag("lecithin")).toBeNull();
+    expect(additiveTag("E47")).toBeNull();
+  });
+});
+
+describe("indexTaxonomy", () => {
+  it("indexes E-numbers only, reading English names, classes and statuses", () => {
+    const index = indexTaxonomy(TAXONOMY);
+
+    expect([...index.keys()]).toEqual(["en:e471", "en:e160aii"]);
+    expect(index.get("en:e471")).toEqual({
+      tag: "en:e471",
+      code: "E471",
+      name: "Mono- and diglycerides of fatty acids",
+      classes: ["emulsifier", "stabiliser"],
+      vegan: "maybe",
+      vegetarian: "yes",
+      efsa: { overexposure_risk: "no" },
+      source: "openfoodfacts",
+    });
+    expect(index.get("en:e160aii")).toMatchObject({ name: "Beta-carotene", vegan: "unknown", efsa: null });
+  });
+
+  it("tolerates a missing or malformed taxonomy", () => {
+    expect(indexTaxonomy(null).size).toBe(0);
+    expect(indexTaxonomy("not json").size).toBe(0);
+  });
+});
+
+describe("findAdditive / additiveRefs", () => {
+  const index = indexTaxonomy(TAXONOMY);
+
+  it("finds by E-number, then exact name, then part of a name", () => {
+    expect(findAdditive(index, "e-471")?.code).toBe("E471");
+    expect(findAdditive(index, "beta-carotene")?.code).toBe("E160aii");
+    expect(findAdditive(index, "diglycerides")?.code).toBe("E471");
+    expect(findAdditive(index, "E999")).toBeUndefined();
+    expect(findAdditive(index, " ")).toBeUndefined();
+  });
+
+  it("keeps just the code of tags the index lacks", () => {
+    expect(additiveRefs(index, ["en:e999"])).toEqual([
+      { tag: "en:e999", code: "E999", name: "E999", classes: [], vegan: "unknown", vegetarian: "unknown" },
+    ]);
+  });
+
+  it("ships a usable snapshot", () => {
+    expect(findAdditive(snapshotIndex(), "E330")).toMatchObject({ code: "E330", source: "snapshot" });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Food additives (E-numbers)
+ *
+ * @developer Eduardo Arana
+ *
+ * Reads OFF's additives taxonomy
+ * (https://static.openfoodfacts.org/data/taxonomies/additives.json) into an
+ * index of `AdditiveInfo` entries: name, function classes, vegan /
+ * vegetarian status and EFSA evaluation notes. Taxonomy properties are
+ * per-language maps (`{ en: "…" }`); only English values are used.
+ *
+ * When the taxonomy cannot be fetched, the bundled snapshot of common
+ * additives (`./additives-snapshot`) is used instead; results say which
+ * source they came from.
+ */
+
+import { ADDITIVES_SNAPSHOT } from "./additives-snapshot";
+import type { AnalysisStatus } from "./detail";
+
+export interface EfsaEvaluation {
+  /** EFSA's conclusion, as summarised by OFF. */
+  summary?: string;
+  /** Acceptable daily intake, e.g. "40 mg/kg body weight/day". */
+  adi?: string;
+  /** Whether some consumers exceed the ADI: "no", "moderate" or "high". */
+  overexposure_risk?: string;
+  date?: string;
+  url?: string;
+}
+
+export interface AdditiveInfo {
+  /** OFF tag, e.g. `en:e471`. */
+  tag: string;
+  /** E-number, e.g. "E471". */
+  code: string;
+  name: string;
+  /** Function classes, e.g. ["emulsifier"]. */
+  classes: string[];
+  vegan: AnalysisStatus;
+  vegetarian: AnalysisStatus;
+  efsa: EfsaEvaluation | null;
+  source: "openfoodfacts" | "snapshot";
+}
+
+/** Compact form attached to product details; `get_additive_info` has the rest. */
+export type AdditiveRef = Pick<AdditiveInfo, "tag" | "code" | "name" | "classes" | "vegan" | "vegetarian"> & {
+  overexposure_risk?: string;
+};
+
+export type AdditiveIndex = Map<string, AdditiveInfo>;
+
+// ── identifiers ────────────────────────────────────────────────────────────
+
+/** "E 471", "e471", "471", "en:e471", "E160a(ii)" → "en:e471" / "en:e160aii"; null if not an E-number. */
+export function additiveTag(input: string): string | null {
+  const compact = input.trim().toLowerCase().replace(/^en:/, "").replace(/[\s\-().]/g, "");
+  const match = /^e?(\d{3,4}[a-z]*)$/.exec(compact);
+  return match ? `en:e${match[1]}` : null;
+}
+
+/** "en:e160aii" → "E160aii" */
+function codeOf(tag: string): string {
+  return tag.replace(/^en:e/, "E");
+}
+
+// ── taxonomy ───────────────────────────────────────────────────────────────
+
+type TaxonomyEntry = Record<string, unknown>;
+
+/** English value of a per-language taxonomy property. */
+function en(entry: TaxonomyEntry, property: string): string | undefined {
+  const value = (entry[property] as Record<string, unknown> | undefined)?.en;
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function status(value: string | undefined): AnalysisStatus {
+  return value === "yes" || value === "no" || value === "maybe" ? value : "unknown";
+}
+
+/** "en:no" → "no" */
+const untag = (value: string | undefined) => value?.replace(/^[a-z]{2}:/, "");
+
+function fromTaxonomy(tag: string, entry: TaxonomyEntry): AdditiveInfo {
+  const code = codeOf(tag);
+  const efsa: EfsaEvaluation = Object.fromEntries(
+    Object.entries({
+      summary: en(entry, "efsa_evaluation"),
+      adi: en(entry, "efsa_evaluation_adi"),
+      overexposure_risk: untag(en(entry, "efsa_evaluation_overexposure_risk")),
+      date: en(entry, "efsa_evaluation_date"),
+      url: en(entry, "efsa_evaluation_url"),
+    }).filter(([, v]) => v !== undefined)
+  );
+
+  return {
+    tag,
+    code,
+    // names read "E471 - Mono- and diglycerides of fatty acids" or "E160a(ii) - Beta-carotene"
+    name: (en(entry, "name") ?? code).replace(/^E\d{3,4}[a-z]*(\([ivx]+\))?\s*[-–:]\s*/i, ""),
+    classes: (en(entry, "additives_classes") ?? "")
+      .split(",")
+      .map((c) => untag(c.trim())!)
+      .filter(Boolean),
+    vegan: status(en(entry, "vegan")),
+    vegetarian: status(en(entry, "vegetarian")),
+    efsa: Object.keys(efsa).length > 0 ? efsa : null,
+    source: "openfoodfacts",
+  };
+}
+
+/** Index the E-number entries of the raw taxonomy JSON. */
+export function indexTaxonomy(json: unknown): AdditiveIndex {
+  const index: AdditiveIndex = new Map();
+  if (!json || typeof json !== "object") return index;
+  for (const [tag, entry] of Object.entries(json as Record<string, TaxonomyEntry>)) {
+    if (/^en:e\d{3,4}/.test(tag) && entry && typeof entry === "object") {
+      index.set(tag, fromTaxonomy(tag, entry));
+    }
+  }
+  return index;
+}
+
+/** The bundled snapshot as an index. */
+export function snapshotIndex(): AdditiveIndex {
+  return new Map(
+    Object.entries(ADDITIVES_SNAPSHOT).map(([tag, entry]) => [
+      tag,
+      { tag, code: codeOf(tag), ...entry, efsa: entry.efsa ?? null, source: "snapshot" as const },
+    ])
+  );
+}
+
+// ── lookup ─────────────────────────────────────────────────────────────────
+
+/** Find an additive by E-number or (part of) its name. */
+export function findAdditive(index: AdditiveIndex, query: string): AdditiveInfo | undefined {
+  const tag = additiveTag(query);
+  if (tag) return index.get(tag);
+
+  const q = query.trim().toLowerCase();
+  if (!q) return undefined;
+  const entries = [...index.values()];
+  return (
+    entries.find((a) => a.name.toLowerCase() === q) ??
+    entries.find((a) => a.name.toLowerCase().includes(q))
+  );
+}
+
+/** Link a product's `additives_tags` to their entries; tags missing from the index keep just their code. */
+export function additiveRefs(index: AdditiveIndex, tags: string[]): AdditiveRef[] {
+  return tags.map((tag) => {
+    const a = index.get(tag);
+    if (!a) {
+      return { tag, code: codeOf(tag), name: codeOf(tag), classes: [], vegan: "unknown", vegetarian: "unknown" };
+    }
+    return {
+      tag,
+      code: a.code,
+      name: a.name,
+      classes: a.classes,
+      vegan: a.vegan,
+      vegetarian: a.vegetarian,
+      ...(a.efsa?.overexposure_risk ? { overexposure_risk: a.efsa.overexposure_risk } : {}),
+    };
+  });
+}
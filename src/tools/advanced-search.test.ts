@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { localOnlyFilters, parseAdvancedSearch, searchUrl } from "./advanced-search";
+
+const BASE = new URL("https://world.openfoodfacts.org/api/v2/search?lc=en");
+
+describe("searchUrl", () => {
+  it("sends NOVA groups as tags and nutrient bounds as conditions", () => {
+    const search = parseAdvancedSearch({
+      nova: "1-2",
+      nutrients: [
+        { nutrient: "sugars", max: 5 },
+        { nutrient: "saturated_fat", min: 0.5, max: 2 },
+      ],
+    });
+    const { url, server } = searchUrl(BASE, search, 30);
+
+    expect(url.searchParams.get("nova_groups_tags")).toBe("en:1|en:2");
+    expect(url.searchParams.get("lc")).toBe("en");
+    expect(url.search.split("&").slice(-3)).toEqual([
+      "sugars_100g%3C5",
+      "saturated-fat_100g%3E0.5",
+      "saturated-fat_100g%3C2",
+    ]);
+    expect(server).toEqual(["nova", "sugars range", "saturated_fat range"]);
+  });
+
+  it("leaves out nutrient conditions when there are no bounds", () => {
+    const { url } = searchUrl(BASE, parseAdvancedSearch({ categories: ["breakfast cereals"] }), 30);
+
+    expect(url.searchParams.get("categories_tags")).toBe("en:breakfast-cereals");
+    expect(url.search).not.toContain("_100g");
+  });
+});
+
+describe("Eco-Score and sorting", () => {
+  it("sends Eco-Score ranges to the API", () => {
+    const search = parseAdvancedSearch({ ecoscore: "a-b" });
+    const { url, server } = searchUrl(BASE, search, 30);
+
+    expect(url.searchParams.get("ecoscore_tags")).toBe("a|b");
+    expect(server).toEqual(["ecoscore"]);
+    expect(localOnlyFilters(search)).toEqual([]);
+  });
+
+  it.each([
+    ["popularity", "unique_scans_n"],
+    ["newest", "created_t"],
+    ["nutriscore", "nutriscore_score"],
+    ["nova", "nova_score"],
+    ["ecoscore", "ecoscore_score"],
+  ])("requests the %s sort from the API", (sortBy, apiSort) => {
+    const search = parseAdvancedSearch({ categories: ["yogurts"], sort_by: sortBy });
+
+    expect(searchUrl(BASE, search, 30).url.searchParams.get("sort_by")).toBe(apiSort);
+    expect(localOnlyFilters(search)).toEqual([]);
+  });
+
+  it("reports nutrient sorts as applied to the returned page only", () => {
+    const search = parseAdvancedSearch({ categories: ["yogurts"], sort_by: "sugars" });
+
+    expect(searchUrl(BASE, search, 30).url.searchParams.get("sort_by")).toBe("unique_scans_n");
+    expect(localOnlyFilters(search)).toEqual(["sort_by sugars"]);
+  });
+});
+
+describe("parseAdvancedSearch", () => {
+  it("rejects a query without a filter the API can apply", () => {
+    expect(() => parseAdvancedSearch({ query: "granola" })).toThrow("use search_products");
+  });
+
+  it("accepts a query narrowed by another filter", () => {
+    const search = parseAdvancedSearch({ query: "Granola Bar", categories: ["cereal bars"] });
+
+    expect(search.words).toEqual(["granola", "bar"]);
+    expect(localOnlyFilters(search)).toEqual(["query"]);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Advanced product search
+ *
+ * @developer Eduardo Arana
+ *
+ * Structured filters for `search_products_advanced`: categories, brands,
+ * Nutri-Score / NOVA / Eco-Score ranges, per-100g nutrient bounds, allergens
+ * and labels to require or exclude, and a sort order.
+ *
+ * Filters are sent as OFF v2 search parameters where the API can express
+ * them (`categories_tags`, `nova_groups_tags=en:1|en:2`, `ecoscore_tags`,
+ * `-tag` negation, and nutrient conditions such as `sugars_100g<5`) and every
+ * filter is checked again on the returned page, which also covers what the
+ * API cannot do: excluding allergen traces, name words and sorting by a
+ * nutrient. The result lists which filters ran where. v2 search has no
+ * full-text parameter, so a query needs at least one filter the API applies;
+ * keyword searches belong to `search_products`.
+ *
+ * API docs: https://openfoodfacts.github.io/openfoodfacts-server/api/ref-v2/#get-/api/v2/search
+ */
+
+import { allergenTag } from "./allergens";
+import { NUTRIENT_KEYS, type NutrientKey } from "./nutrition";
+import type { ProductSummary } from "./openfoodfacts";
+
+export const SEARCH_SORT_ORDERS = [
+  "popularity",
+  "newest",
+  "nutriscore",
+  "nova",
+  "ecoscore",
+  ...NUTRIENT_KEYS,
+] as const;
+
+export type SearchSortOrder = (typeof SEARCH_SORT_ORDERS)[number];
+
+/** OFF v2 `sort_by` per order; nutrient sorts have none and only order the returned page. */
+const API_SORTS: Partial<Record<SearchSortOrder, string>> = {
+  popularity: "unique_scans_n",
+  newest: "created_t",
+  nutriscore: "nutriscore_score",
+  nova: "nova_score",
+  ecoscore: "ecoscore_score",
+};
+
+/** Nutrients where more is better sort highest first; the rest lowest first. */
+const DESCENDING_NUTRIENTS: ReadonlySet<NutrientKey> = new Set(["proteins", "fiber"]);
+
+/** OFF spells these nutriment keys with hyphens. */
+const OFF_NUTRIENT_KEYS: Partial<Record<NutrientKey, string>> = {
+  energy_kcal: "energy-kcal",
+  saturated_fat: "saturated-fat",
+};
+
+const LABEL_ALIASES: Record<string, string> = {
+  "gluten-free": "en:no-gluten",
+  "lactose-free": "en:no-lactose",
+  "sugar-free": "en:no-added-sugar",
+  "no-added-sugar": "en:no-added-sugar",
+  fairtrade: "en:fair-trade",
+  bio: "en:organic",
+};
+
+export interface NutrientBound {
+  nutrient: NutrientKey;
+  min?: number;
+  max?: number;
+}
+
+export interface AdvancedSearch {
+  /** Words that must all appear in the product name (checked locally). */
+  words: string[];
+  categories: string[];
+  brands: string[];
+  nutriscore: string[] | null;
+  nova: number[] | null;
+  ecoscore: string[] | null;
+  nutrients: NutrientBound[];
+  includeAllergens: string[];
+  excludeAllergens: string[];
+  includeLabels: string[];
+  excludeLabels: string[];
+  sortBy: SearchSortOrder;
+  page: number;
+  limit: number;
+}
+
+// ── parsing ────────────────────────────────────────────────────────────────
+
+function list(value: unknown, field: string): string[] {
+  if (value === undefined || value === null) return [];
+  const items = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(items) || items.some((v) => typeof v !== "string")) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return [...new Set(items.map((v: string) => v.trim()).filter(Boolean))];
+}
+
+/** "breakfast cereals" → "en:breakfast-cereals"; tags with a language prefix are kept. */
+function taxonomyTag(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return /^[a-z]{2}:/.test(slug) ? slug : `en:${slug}`;
+}
+
+function labelTag(name: string): string {
+  const slug = name.trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return LABEL_ALIASES[slug] ?? taxonomyTag(slug);
+}
+
+/** A grade or range on `scale`: "b" → ["b"], "a-c" → ["a", "b", "c"]. */
+function gradeRange(value: unknown, field: string, scale: string): string[] | null {
+  if (value === undefined || value === null || value === "") return null;
+  const match = /^\s*([a-z0-9])\s*(?:-\s*([a-z0-9]))?\s*$/i.exec(String(value));
+  const from = match ? scale.indexOf(match[1].toLowerCase()) : -1;
+  const to = match ? scale.indexOf((match[2] ?? match[1]).toLowerCase()) : -1;
+  if (from < 0 || to < 0) {
+    throw new Error(`${field} must be a grade or range of ${scale.split("").join(", ")}, e.g. '${scale[0]}-${scale[1]}'`);
+  }
+  return scale.slice(Math.min(from, to), Math.max(from, to) + 1).split("");
+}
+
+function nutrientBounds(value: unknown): NutrientBound[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) throw new Error("nutrients must be a list of { nutrient, min?, max? }");
+  return value.map((raw: Record<string, unknown>) => {
+    const nutrient = String(raw?.nutrient ?? "") as NutrientKey;
+    if (!NUTRIENT_KEYS.includes(nutrient)) {
+      throw new Error(`nutrient must be one of: ${NUTRIENT_KEYS.join(", ")}`);
+    }
+    const bound: NutrientBound = { nutrient };
+    for (const side of ["min", "max"] as const) {
+      if (raw[side] === undefined || raw[side] === null) continue;
+      const n = Number(raw[side]);
+      if (!Number.isFinite(n) || n < 0) throw new Error(`${nutrient} ${side} must be a non-negative number`);
+      bound[side] = n;
+    }
+    if (bound.min === undefined && bound.max === undefined) {
+      throw new Error(`${nutrient} needs a min or a max`);
+    }
+    return bound;
+  });
+}
+
+/** Validate the tool arguments. At least one filter is required. */
+export function parseAdvancedSearch(args: Record<string, unknown>): AdvancedSearch {
+  const sortBy = (args.sort_by ?? "popularity") as SearchSortOrder;
+  if (!SEARCH_SORT_ORDERS.includes(sortBy)) {
+    throw new Error(`sort_by must be one of: ${SEARCH_SORT_ORDERS.join(", ")}`);
+  }
+
+  const search: AdvancedSearch = {
+    words: list(args.query, "query").flatMap((q) => q.toLowerCase().split(/\s+/)),
+    categories: list(args.categories, "categories").map(taxonomyTag),
+    brands: list(args.brands, "brands"),
+    nutriscore: gradeRange(args.nutriscore, "nutriscore", "abcde"),
+    nova: gradeRange(args.nova, "nova", "1234")?.map(Number) ?? null,
+    ecoscore: gradeRange(args.ecoscore, "ecoscore", "abcde"),
+    nutrients: nutrientBounds(args.nutrients),
+    includeAllergens: list(args.include_allergens, "include_allergens").map(allergenTag),
+    excludeAllergens: list(args.exclude_allergens, "exclude_allergens").map(allergenTag),
+    includeLabels: list(args.include_labels, "include_labels").map(labelTag),
+    excludeLabels: list(args.exclude_labels, "exclude_labels").map(labelTag),
+    sortBy,
+    page: Math.max(1, Math.trunc(Number(args.page ?? 1)) || 1),
+    limit: Math.min(Math.max(Math.trunc(Number(args.limit ?? 10)) || 10, 1), 50),
+  };
+
+  const filters = [
+    search.words,
+    search.categories,
+    search.brands,
+    search.nutriscore ?? [],
+    search.nova ?? [],
+    search.ecoscore ?? [],
+    search.nutrients,
+    search.includeAllergens,
+    search.excludeAllergens,
+    search.includeLabels,
+    search.excludeLabels,
+  ];
+  if (filters.every((f) => f.length === 0)) {
+    throw new Error("Give at least one filter (query, categories, brands, grades, nutrients, allergens or labels)");
+  }
+  // the words are only matched on the returned page, which without an API
+  // filter is just OFF's most popular products
+  if (search.words.length && filters.slice(1).every((f) => f.length === 0)) {
+    throw new Error(
+      "query needs another filter (categories, brands, grades, nutrients, allergens or labels); use search_products for a keyword search"
+    );
+  }
+  return search;
+}
+
+// ── OFF v2 parameters ──────────────────────────────────────────────────────
+
+/**
+ * The `/api/v2/search` URL for a search, from `base` (the localised endpoint),
+ * and a description of each filter sent. In tag parameters `,` is AND, `|` is
+ * OR and a leading `-` negates a tag.
+ *
+ * Nutrient conditions are whole parameter names with no value
+ * (`sugars_100g<5`), so they are appended after the other parameters:
+ * URLSearchParams would give them a trailing `=`. The API only compares
+ * strictly (`<`, `>`); a product exactly on a bound is left out.
+ */
+export function searchUrl(base: URL, search: AdvancedSearch, pageSize: number): {
+  url: URL;
+  server: string[];
+} {
+  const url = new URL(base);
+  const conditions: string[] = [];
+  const server: string[] = [];
+  const add = (key: string, value: string, description: string) => {
+    url.searchParams.set(key, value);
+    server.push(description);
+  };
+
+  if (search.categories.length) add("categories_tags", search.categories.join(","), "categories");
+  if (search.brands.length) {
+    add("brands_tags", search.brands.map((b) => taxonomyTag(b).replace(/^en:/, "")).join("|"), "brands");
+  }
+  if (search.nutriscore) add("nutrition_grades_tags", search.nutriscore.join("|"), "nutriscore");
+  if (search.nova) add("nova_groups_tags", search.nova.map((n) => `en:${n}`).join("|"), "nova");
+  if (search.ecoscore) add("ecoscore_tags", search.ecoscore.join("|"), "ecoscore");
+
+  const allergens = [...search.includeAllergens, ...search.excludeAllergens.map((t) => `-${t}`)];
+  if (allergens.length) add("allergens_tags", allergens.join(","), "allergens");
+  const labels = [...search.includeLabels, ...search.excludeLabels.map((t) => `-${t}`)];
+  if (labels.length) add("labels_tags", labels.join(","), "labels");
+
+  for (const { nutrient, min, max } of search.nutrients) {
+    const key = `${OFF_NUTRIENT_KEYS[nutrient] ?? nutrient}_100g`;
+    if (min !== undefined) conditions.push(`${key}>${min}`);
+    if (max !== undefined) conditions.push(`${key}<${max}`);
+    server.push(`${nutrient} range`);
+  }
+
+  url.searchParams.set("sort_by", API_SORTS[search.sortBy] ?? API_SORTS.popularity!);
+  url.searchParams.set("page", String(search.page));
+  url.searchParams.set("page_size", String(pageSize));
+  url.search += conditions.map((c) => `&${encodeURIComponent(c)}`).join("");
+  return { url, server };
+}
+
+// ── local filtering and sorting ────────────────────────────────────────────
+
+export type SearchCandidate = ProductSummary & { labels_tags: string[] };
+
+function nutrientValue(p: ProductSummary, nutrient: NutrientKey): number | null {
+  const v = p.nutriments[`${nutrient}_100g`];
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/** Does the product pass every filter? Unknown values fail a filter on them. */
+export function matchesSearch(search: AdvancedSearch, p: SearchCandidate): boolean {
+  const name = `${p.product_name} ${p.brands}`.toLowerCase();
+  const brands = p.brands.toLowerCase();
+  const has = (tags: string[], tag: string) => tags.includes(tag);
+
+  return (
+    search.words.every((w) => name.includes(w)) &&
+    search.categories.every((c) => has(p.categories_tags, c)) &&
+    (!search.brands.length || search.brands.some((b) => brands.includes(b.toLowerCase()))) &&
+    (!search.nutriscore || search.nutriscore.includes(p.nutriscore_grade.toLowerCase())) &&
+    (!search.nova || search.nova.includes(Number(p.nova_group))) &&
+    (!search.ecoscore || search.ecoscore.includes(p.ecoscore_grade.toLowerCase())) &&
+    search.nutrients.every(({ nutrient, min, max }) => {
+      const v = nutrientValue(p, nutrient);
+      return v !== null && (min === undefined || v >= min) && (max === undefined || v <= max);
+    }) &&
+    search.includeAllergens.every((t) => has(p.allergens_tags, t)) &&
+    // an excluded allergen must not be present as a trace either
+    search.excludeAllergens.every((t) => !has(p.allergens_tags, t) && !has(p.traces_tags, t)) &&
+    search.includeLabels.every((t) => has(p.labels_tags, t)) &&
+    search.excludeLabels.every((t) => !has(p.labels_tags, t))
+  );
+}
+
+/** Filters and sorts the API cannot express, applied only on the returned page. */
+export function localOnlyFilters(search: AdvancedSearch): string[] {
+  return [
+    search.words.length ? "query" : null,
+    search.excludeAllergens.length ? "allergen traces" : null,
+    API_SORTS[search.sortBy] ? null : `sort_by ${search.sortBy}`,
+  ].filter((f): f is string => f !== null);
+}
+
+const gradeRank = (grade: string, scale: string) => {
+  const i = scale.indexOf(grade.toLowerCase());
+  return grade.length === 1 && i >= 0 ? i : scale.length;
+};
+
+/**
+ * Sort in place; "popularity" and "newest" keep the API's order. Grade sorts
+ * were already requested from the API and are re-applied so unknown values go
+ * last; nutrient sorts only order this page.
+ */
+export function sortCandidates(products: SearchCandidate[], sortBy: SearchSortOrder): SearchCandidate[] {
+  if (sortBy === "popularity" || sortBy === "newest") return products;
+  const key = (p: SearchCandidate): number => {
+    switch (sortBy) {
+      case "nutriscore":
+        return gradeRank(p.nutriscore_grade, "abcde");
+      case "ecoscore":
+        return gradeRank(p.ecoscore_grade, "abcde");
+      case "nova": {
+        const n = Number(p.nova_group);
+        return n >= 1 && n <= 4 ? n : 5;
+      }
+      default: {
+        const v = nutrientValue(p, sortBy);
+        if (v === null) return Number.MAX_SAFE_INTEGER;
+        return DESCENDING_NUTRIENTS.has(sortBy) ? -v : v;
+      }
+    }
+  };
+  // stable sort: ties keep the API's popularity order
+  return products.sort((a, b) => key(a) - key(b));
+}
@@ -0,0 +1,34 @@
+/**
+ * Allergen names → OpenFoodFacts tags
+ *
+ * @developer Eduardo Arana
+ *
+ * Maps what users say ("peanuts", "dairy", "coeliac") to the allergen tags
+ * OpenFoodFacts uses in `allergens_tags` / `traces_tags`.
+ */
+
+/** Common names → OpenFoodFacts allergen tags (the EU's 14 major allergens). */
+const ALLERGEN_TAGS: [RegExp, string][] = [
+  [/peanut/, "en:peanuts"],
+  [/(tree )?nuts?$|almond|hazelnut|walnut|cashew|pecan|pistachio|macadamia/, "en:nuts"],
+  [/milk|dairy|lactose|casein|whey/, "en:milk"],
+  [/eggs?$/, "en:eggs"],
+  [/gluten|wheat|barley|rye|oat|coeliac|celiac/, "en:gluten"],
+  [/soy|soya/, "en:soybeans"],
+  [/^fish/, "en:fish"],
+  [/shellfish|crustacean|shrimp|prawn|crab|lobster/, "en:crustaceans"],
+  [/mollusc|mollusk|squid|mussel|oyster|clam/, "en:molluscs"],
+  [/sesame/, "en:sesame-seeds"],
+  [/mustard/, "en:mustard"],
+  [/celery/, "en:celery"],
+  [/lupin/, "en:lupin"],
+  [/sulphite|sulfite|sulphur|sulfur/, "en:sulphur-dioxide-and-sulphites"],
+];
+
+/** The OFF tag for an allergen name; names that already are tags pass through. */
+export function allergenTag(name: string): string {
+  const key = name.trim().toLowerCase();
+  if (key.includes(":")) return key;
+  const match = ALLERGEN_TAGS.find(([pattern]) => pattern.test(key));
+  return match ? match[1] : `en:${key.replace(/\s+/g, "-")}`;
+}
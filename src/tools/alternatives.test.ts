@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { findHealthierAlternatives } from "./alternatives";
+
+vi.mock("cloudflare:workers", () => ({ waitUntil: () => {} }));
+
+const ORIGINAL = "3017620422003";
+
+const product = (code: string, nutriscore: string, nova: number, sugars: number, extra = {}) => ({
+  code,
+  product_name: `Spread ${code}`,
+  nutriscore_grade: nutriscore,
+  nova_group: nova,
+  nutriments: { sugars_100g: sugars, fat_100g: 30 },
+  allergens_tags: [],
+  traces_tags: [],
+  ...extra,
+});
+
+/** Products listed under each category tag. */
+let categories: Record<string, Record<string, unknown>[]> = {};
+
+beforeEach(() => {
+  categories = {};
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (input: string) => {
+      const url = new URL(input);
+      if (url.pathname.startsWith("/api/v2/product/")) {
+        const original = product(ORIGINAL, "e", 4, 56, {
+          categories_hierarchy: ["en:spreads", "en:sweet-spreads", "en:cocoa-and-hazelnuts-spreads"],
+        });
+        return Response.json({ status: 1, product: original });
+      }
+      return Response.json({ products: categories[url.searchParams.get("categories_tags")!] ?? [] });
+    })
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("findHealthierAlternatives", () => {
+  it("ranks by Nutri-Score, then NOVA, then the nutrient, and reports the differences", async () => {
+    categories["en:cocoa-and-hazelnuts-spreads"] = [
+      product(ORIGINAL, "e", 4, 56),
+      product("1", "d", 4, 40),
+      product("2", "c", 4, 50),
+      product("3", "c", 3, 58),
+      product("4", "e", 4, 60),
+    ];
+
+    const result = await findHealthierAlternatives(ORIGINAL, "sugars", [], 2);
+
+    expect(result.category).toBe("en:cocoa-and-hazelnuts-spreads");
+    expect(result.alternatives.map((a) => a.code)).toEqual(["3", "2"]);
+    expect(result.alternatives[0].delta_100g).toEqual({ sugars: 2, fat: 0 });
+  });
+
+  it("widens to broader categories until there are enough candidates", async () => {
+    categories["en:cocoa-and-hazelnuts-spreads"] = [product("1", "d", 4, 40)];
+    categories["en:sweet-spreads"] = [product("1", "d", 4, 40), product("2", "e", 4, 30)];
+
+    const result = await findHealthierAlternatives(ORIGINAL, "sugars", [], 2);
+
+    expect(result.category).toBe("en:sweet-spreads");
+    expect(result.alternatives.map((a) => a.code)).toEqual(["1", "2"]);
+  });
+
+  it("leaves out products containing or possibly containing an excluded allergen", async () => {
+    categories["en:cocoa-and-hazelnuts-spreads"] = [
+      product("1", "a", 1, 5, { allergens_tags: ["en:nuts"] }),
+      product("2", "b", 1, 5, { traces_tags: ["en:milk"] }),
+      product("3", "c", 1, 5),
+    ];
+
+    const result = await findHealthierAlternatives(ORIGINAL, "sugars", ["dairy", "nuts"], 1);
+
+    expect(result.excluded_allergens).toEqual(["en:milk", "en:nuts"]);
+    expect(result.alternatives.map((a) => a.code)).toEqual(["3"]);
+  });
+
+  it("rejects an unknown ranking nutrient", async () => {
+    await expect(findHealthierAlternatives(ORIGINAL, "fiber" as never)).rejects.toThrow(
+      "nutrient must be one of: sugars, salt, saturated_fat"
+    );
+  });
+});
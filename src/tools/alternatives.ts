@@ -0,0 +1,250 @@
+/**
+ * Healthier alternatives
+ *
+ * @developer Eduardo Arana
+ *
+ * "What should I buy instead of this?" — looks up the product, searches its
+ * most specific category (widening to parent categories when that yields
+ * too few candidates) and ranks the candidates by Nutri-Score, then NOVA
+ * group, then a chosen nutrient per 100g. Candidates containing (or
+ * possibly containing) an excluded allergen are dropped.
+ */
+
+import { allergenTag } from "./allergens";
+import { LOCALE_PARAMETERS, parseLocale, type OffLocale } from "./locale";
+import { NUTRIENT_KEYS, type NutrientKey } from "./nutrition";
+import {
+  getProductByBarcode,
+  getProductsByCategoryTag,
+  type ProductSummary,
+} from "./openfoodfacts";
+import { statelessTool } from "./registry";
+
+export const RANKING_NUTRIENTS = ["sugars", "salt", "saturated_fat"] as const;
+
+export type RankingNutrient = (typeof RANKING_NUTRIENTS)[number];
+
+/** How many categories (most specific first) are searched before giving up. */
+const MAX_CATEGORY_LEVELS = 3;
+
+export interface Alternative {
+  code: string;
+  product_name: string;
+  brands: string;
+  nutriscore_grade: string;
+  nova_group: number | string;
+  /** The ranking nutrient, per 100g. */
+  value_100g: number | null;
+  /** Candidate minus original, per 100g, for every nutrient both products report. */
+  delta_100g: Partial<Record<NutrientKey, number>>;
+}
+
+export interface AlternativesResult {
+  original: {
+    code: string;
+    product_name: string;
+    nutriscore_grade: string;
+    nova_group: number | string;
+    value_100g: number | null;
+  };
+  category: string | null;
+  nutrient: RankingNutrient;
+  excluded_allergens: string[];
+  alternatives: Alternative[];
+}
+
+// ── ranking ────────────────────────────────────────────────────────────────
+
+/** Nutri-Score A → 0 … E → 4; unknown ranks last. */
+function nutriscoreRank(p: ProductSummary): number {
+  const i = "abcde".indexOf(p.nutriscore_grade.toLowerCase());
+  return p.nutriscore_grade.length === 1 && i >= 0 ? i : 5;
+}
+
+function novaRank(p: ProductSummary): number {
+  const n = Number(p.nova_group);
+  return n >= 1 && n <= 4 ? n : 5;
+}
+
+function nutrientValue(p: ProductSummary, nutrient: NutrientKey): number | null {
+  const v = p.nutriments[`${nutrient}_100g`];
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function rankKey(p: ProductSummary, nutrient: RankingNutrient): [number, number, number] {
+  return [nutriscoreRank(p), novaRank(p), nutrientValue(p, nutrient) ?? Infinity];
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return a[i] - b[i];
+  return 0;
+}
+
+/** Not worse on Nutri-Score, and better on at least one ranking criterion. */
+function isHealthier(
+  candidate: ProductSummary,
+  original: ProductSummary,
+  nutrient: RankingNutrient
+): boolean {
+  const c = rankKey(candidate, nutrient);
+  const o = rankKey(original, nutrient);
+  return c[0] <= o[0] && compareKeys(c, o) < 0;
+}
+
+function delta(
+  candidate: ProductSummary,
+  original: ProductSummary
+): Partial<Record<NutrientKey, number>> {
+  const out: Partial<Record<NutrientKey, number>> = {};
+  for (const k of NUTRIENT_KEYS) {
+    const c = nutrientValue(candidate, k);
+    const o = nutrientValue(original, k);
+    if (c !== null && o !== null) out[k] = Math.round((c - o) * 10) / 10;
+  }
+  return out;
+}
+
+// ── MCP TOOL: find healthier alternatives ──────────────────────────────────
+
+export async function findHealthierAlternatives(
+  barcode: string,
+  nutrient: RankingNutrient = "sugars",
+  excludeAllergens: string[] = [],
+  limit = 5,
+  locale: OffLocale = {},
+  signal?: AbortSignal
+): Promise<AlternativesResult> {
+  if (!RANKING_NUTRIENTS.includes(nutrient)) {
+    throw new Error(`nutrient must be one of: ${RANKING_NUTRIENTS.join(", ")}`);
+  }
+  const count = Math.min(Math.max(Math.trunc(limit) || 5, 1), 10);
+  const excluded = [...new Set(excludeAllergens.map(allergenTag))];
+
+  const original = await getProductByBarcode(barcode, "eu", locale, signal);
+  const safe = (p: ProductSummary) =>
+    !excluded.some((tag) => p.allergens_tags.includes(tag) || p.traces_tags.includes(tag));
+
+  // most specific category first, widening until there are enough candidates
+  const categories = [...original.categories_tags].reverse().slice(0, MAX_CATEGORY_LEVELS);
+  const seen = new Set([original.code]);
+  const candidates: ProductSummary[] = [];
+  let category: string | null = null;
+
+  for (const tag of categories) {
+    category = tag;
+    for (const p of await getProductsByCategoryTag(tag, 50, locale, signal)) {
+      if (seen.has(p.code)) continue;
+      seen.add(p.code);
+      if (safe(p) && isHealthier(p, original, nutrient)) candidates.push(p);
+    }
+    if (candidates.length >= count) break;
+  }
+
+  const alternatives = candidates
+    .sort((a, b) => compareKeys(rankKey(a, nutrient), rankKey(b, nutrient)))
+    .slice(0, count)
+    .map((p) => ({
+      code: p.code,
+      product_name: p.product_name,
+      brands: p.brands,
+      nutriscore_grade: p.nutriscore_grade,
+      nova_group: p.nova_group,
+      value_100g: nutrientValue(p, nutrient),
+      delta_100g: delta(p, original),
+    }));
+
+  return {
+    original: {
+      code: original.code,
+      product_name: original.product_name,
+      nutriscore_grade: original.nutriscore_grade,
+      nova_group: original.nova_group,
+      value_100g: nutrientValue(original, nutrient),
+    },
+    category,
+    nutrient,
+    excluded_allergens: excluded,
+    alternatives,
+  };
+}
+
+// ── tool spec ──────────────────────────────────────────────────────────────
+
+export const ALTERNATIVES_TOOLS = [
+  statelessTool<{
+    barcode: string;
+    nutrient?: RankingNutrient;
+    exclude_allergens?: string[];
+    limit?: number;
+    country?: string;
+    lang?: string;
+  }>({
+    name: "find_healthier_alternatives",
+    description:
+      "Find healthier alternatives to a product: products in its most specific category ranked by Nutri-Score, " +
+      "NOVA group and a chosen nutrient, with the per-100g nutrient difference against the original. " +
+      "Use for 'what should I buy instead of this?'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        barcode: { type: "string", description: "Barcode of the product to replace" },
+        nutrient: {
+          type: "string",
+          enum: RANKING_NUTRIENTS,
+          description: "Nutrient to minimise after Nutri-Score and NOVA (default 'sugars')",
+        },
+        exclude_allergens: {
+          type: "array",
+          items: { type: "string" },
+          description: "Allergens the alternatives must not contain or have traces of, e.g. ['peanuts', 'milk']",
+        },
+        limit: { type: "integer", minimum: 1, maximum: 10, description: "Number of alternatives, max 10 (default 5)" },
+        ...LOCALE_PARAMETERS,
+      },
+      required: ["barcode"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        original: {
+          type: "object",
+          properties: {
+            code: { type: "string" },
+            product_name: { type: "string" },
+            nutriscore_grade: { type: "string" },
+            nova_group: { type: ["integer", "string"] },
+            value_100g: { type: ["number", "null"] },
+          },
+        },
+        category: { type: ["string", "null"], description: "Category tag the alternatives came from" },
+        nutrient: { type: "string", enum: RANKING_NUTRIENTS },
+        excluded_allergens: { type: "array", items: { type: "string" } },
+        alternatives: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              code: { type: "string" },
+              product_name: { type: "string" },
+              brands: { type: "string" },
+              nutriscore_grade: { type: "string" },
+              nova_group: { type: ["integer", "string"] },
+              value_100g: { type: ["number", "null"] },
+              delta_100g: { type: "object", description: "Candidate minus original, per 100g" },
+            },
+          },
+        },
+      },
+      required: ["original", "category", "nutrient", "excluded_allergens", "alternatives"],
+    },
+    handler: (args, signal) =>
+      findHealthierAlternatives(
+        args.barcode,
+        args.nutrient ?? "sugars",
+        args.exclude_allergens ?? [],
+        args.limit ?? 5,
+        parseLocale(args),
+        signal
+      ),
+  }),
+];
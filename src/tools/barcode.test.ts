@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { checkDigit, InvalidBarcodeError, normaliseBarcode } from "./barcode";
+
+/** The `details` of the InvalidBarcodeError thrown for `input`. */
+function rejection(input: unknown) {
+  try {
+    normaliseBarcode(input);
+  } catch (err) {
+    expect(err).toBeInstanceOf(InvalidBarcodeError);
+    return (err as InvalidBarcodeError).details;
+  }
+  throw new Error(`${String(input)} was accepted`);
+}
+
+describe("checkDigit", () => {
+  it("weights digits 3, 1, 3, … from the right", () => {
+    expect(checkDigit("301762042200")).toBe(3);
+    expect(checkDigit("9638507")).toBe(4);
+    expect(checkDigit("03600029145")).toBe(2);
+  });
+});
+
+describe("normaliseBarcode", () => {
+  it("keeps a valid EAN-13 and strips spaces and dashes", () => {
+    expect(normaliseBarcode(" 3017-6204 22003 ")).toEqual({ code: "3017620422003", format: "EAN-13" });
+  });
+
+  it("pads UPC-A to EAN-13", () => {
+    expect(normaliseBarcode("036000291452")).toEqual({ code: "0036000291452", format: "UPC-A" });
+  });
+
+  it("keeps a valid EAN-8", () => {
+    expect(normaliseBarcode("96385074")).toEqual({ code: "96385074", format: "EAN-8" });
+  });
+
+  it("expands UPC-E to its EAN-13 form", () => {
+    expect(normaliseBarcode("04252614")).toEqual({ code: "0042100005264", format: "UPC-E" });
+  });
+
+  it("suggests the code with a corrected check digit", () => {
+    expect(rejection("3017620422004")).toEqual({
+      barcode: "3017620422004",
+      reason: "EAN-13 check digit mismatch",
+      suggestion: "3017620422003",
+    });
+    expect(rejection("04252615")).toMatchObject({ reason: "UPC-E check digit mismatch", suggestion: "04252614" });
+  });
+
+  it("rejects empty, non-numeric and wrongly sized codes without a suggestion", () => {
+    expect(rejection(undefined)).toEqual({ barcode: "", reason: "no barcode given" });
+    expect(rejection("30176204220O3")).toMatchObject({ reason: "barcodes contain digits only" });
+    expect(rejection("123456")).toMatchObject({ reason: expect.stringContaining("got 6") });
+    expect(rejection("123456")).not.toHaveProperty("suggestion");
+  });
+});
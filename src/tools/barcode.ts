@@ -0,0 +1,110 @@
+/**
+ * Barcode validation and normalisation
+ *
+ * @developer Eduardo Arana
+ *
+ * Barcodes produced by the LLM are checked before any OpenFoodFacts request:
+ * spaces and dashes are stripped, the GS1 check digit is verified, UPC-E is
+ * expanded to UPC-A and UPC-A is zero-padded to EAN-13 (the form OFF keys
+ * products by). A bad code fails fast with an `invalid_barcode` error that
+ * suggests the code with a corrected check digit, instead of a 404.
+ */
+
+import { ToolError } from "./errors";
+
+export type BarcodeFormat = "EAN-8" | "EAN-13" | "UPC-A" | "UPC-E";
+
+export class InvalidBarcodeError extends ToolError {
+  constructor(barcode: string, reason: string, suggestion?: string) {
+    super(
+      `Invalid barcode "${barcode}": ${reason}${suggestion ? ` — did you mean ${suggestion}?` : ""}`,
+      "invalid_barcode",
+      { barcode, reason, ...(suggestion ? { suggestion } : {}) }
+    );
+    this.name = "InvalidBarcodeError";
+  }
+}
+
+/** GS1 check digit for the digits before it (weights 3, 1, 3, … from the right). */
+export function checkDigit(body: string): number {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const weight = i % 2 === 0 ? 3 : 1;
+    sum += Number(body[body.length - 1 - i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/** UPC-E body (number system + 6 digits, no check digit) → UPC-A body (11 digits). */
+function expandUpcE(body: string): string {
+  const ns = body[0];
+  const [d1, d2, d3, d4, d5, d6] = body.slice(1);
+  switch (d6) {
+    case "0":
+    case "1":
+    case "2":
+      return `${ns}${d1}${d2}${d6}0000${d3}${d4}${d5}`;
+    case "3":
+      return `${ns}${d1}${d2}${d3}00000${d4}${d5}`;
+    case "4":
+      return `${ns}${d1}${d2}${d3}${d4}00000${d5}`;
+    default:
+      return `${ns}${d1}${d2}${d3}${d4}${d5}0000${d6}`;
+  }
+}
+
+const valid = (code: string) => checkDigit(code.slice(0, -1)) === Number(code.slice(-1));
+const corrected = (code: string) => code.slice(0, -1) + checkDigit(code.slice(0, -1));
+
+export interface NormalisedBarcode {
+  /** The code to send to OpenFoodFacts (EAN-13, or EAN-8). */
+  code: string;
+  format: BarcodeFormat;
+}
+
+/**
+ * Validate a barcode and return it in the form OpenFoodFacts uses.
+ * Throws `InvalidBarcodeError` for anything that is not a valid EAN-8,
+ * EAN-13, UPC-A or UPC-E.
+ */
+export function normaliseBarcode(input: unknown): NormalisedBarcode {
+  const raw = String(input ?? "").trim();
+  const digits = raw.replace(/[\s-]/g, "");
+
+  if (!digits) throw new InvalidBarcodeError(raw, "no barcode given");
+  if (!/^\d+$/.test(digits)) throw new InvalidBarcodeError(raw, "barcodes contain digits only");
+
+  switch (digits.length) {
+    case 13:
+      if (valid(digits)) return { code: digits, format: "EAN-13" };
+      throw new InvalidBarcodeError(raw, "EAN-13 check digit mismatch", corrected(digits));
+
+    case 12:
+      if (valid(digits)) return { code: `0${digits}`, format: "UPC-A" };
+      throw new InvalidBarcodeError(raw, "UPC-A check digit mismatch", corrected(digits));
+
+    case 8: {
+      // UPC-E codes start with number system 0 or 1; EAN-8 with prefix 0 is rare
+      // (restricted circulation), so a leading 0 is tried as UPC-E first
+      const upcA = /^[01]/.test(digits) ? expandUpcE(digits.slice(0, 7)) : null;
+      const upcEValid = upcA !== null && checkDigit(upcA) === Number(digits[7]);
+      const asUpcE = () => ({ code: `0${upcA}${digits[7]}`, format: "UPC-E" as const });
+
+      if (digits[0] === "0" && upcEValid) return asUpcE();
+      if (valid(digits)) return { code: digits, format: "EAN-8" };
+      if (upcEValid) return asUpcE();
+      const suggestion = upcA !== null ? digits.slice(0, 7) + checkDigit(upcA) : corrected(digits);
+      throw new InvalidBarcodeError(
+        raw,
+        `${upcA !== null ? "UPC-E" : "EAN-8"} check digit mismatch`,
+        suggestion
+      );
+    }
+
+    default:
+      throw new InvalidBarcodeError(
+        raw,
+        `expected 8 (EAN-8 / UPC-E), 12 (UPC-A) or 13 (EAN-13) digits, got ${digits.length}`
+      );
+  }
+}
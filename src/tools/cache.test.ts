@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cachedJson, cacheSummary, onCacheRefresh, trackCache } from "./cache";
+
+const background = vi.hoisted((): Promise<unknown>[] => []);
+vi.mock("cloudflare:workers", () => ({ waitUntil: (promise: Promise<unknown>) => background.push(promise) }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const URL_A = "https://world.openfoodfacts.org/cgi/search.pl?search_terms=pan&json=1";
+
+/** A Cache API backed by a Map; `seed` stores an entry `ageMs` old. */
+function memoryCache() {
+  const entries = new Map<string, { body: string; storedAt: number }>();
+  const cache = {
+    match: vi.fn(async (key: Request) => {
+      const entry = entries.get(key.url);
+      return entry
+        ? new Response(entry.body, { headers: { "x-nutriagent-stored-at": String(entry.storedAt) } })
+        : undefined;
+    }),
+    put: vi.fn(async (key: Request, res: Response) => {
+      entries.set(key.url, { body: await res.text(), storedAt: Number(res.headers.get("x-nutriagent-stored-at")) });
+    }),
+  };
+  vi.stubGlobal("caches", { default: cache });
+  return {
+    cache,
+    seed: (url: string, data: unknown, ageMs: number) =>
+      entries.set(url, { body: JSON.stringify(data), storedAt: Date.now() - ageMs }),
+  };
+}
+
+beforeEach(() => {
+  background.length = 0;
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("cachedJson", () => {
+  it("loads and stores a miss, then serves it as a hit under any parameter order", async () => {
+    memoryCache();
+    const load = vi.fn(async () => ({ count: 1 }));
+    const signal = new AbortController().signal;
+    const lookups = trackCache(signal);
+
+    expect(await cachedJson(URL_A, "search", load, signal)).toEqual({ count: 1 });
+    await Promise.all(background);
+    const reordered = "https://world.openfoodfacts.org/cgi/search.pl?json=1&search_terms=pan";
+    expect(await cachedJson(reordered, "search", load, signal)).toEqual({ count: 1 });
+
+    expect(load).toHaveBeenCalledOnce();
+    expect(lookups).toEqual([
+      { kind: "search", status: "miss" },
+      { kind: "search", status: "hit", age_s: 0 },
+    ]);
+    expect(cacheSummary(lookups).status).toBe("mixed");
+  });
+
+  it("serves a stale entry and refreshes it once in the background", async () => {
+    const { seed } = memoryCache();
+    const sortedUrl = "https://world.openfoodfacts.org/cgi/search.pl?json=1&search_terms=pan";
+    seed(sortedUrl, { count: 1 }, 2 * HOUR_MS);
+    const refreshed = vi.fn();
+    const stop = onCacheRefresh(refreshed);
+    const load = vi.fn(async () => ({ count: 2 }));
+
+    expect(await cachedJson(URL_A, "search", load)).toEqual({ count: 1 });
+    expect(await cachedJson(URL_A, "search", load)).toEqual({ count: 1 });
+    await Promise.all(background);
+    stop();
+
+    expect(load).toHaveBeenCalledOnce();
+    expect(refreshed).toHaveBeenCalledWith(sortedUrl);
+    expect(await cachedJson(URL_A, "search", load)).toEqual({ count: 2 });
+  });
+
+  it("reloads an entry past its stale window", async () => {
+    const { seed } = memoryCache();
+    seed("https://world.openfoodfacts.org/cgi/search.pl?json=1&search_terms=pan", { count: 1 }, 8 * HOUR_MS);
+
+    expect(await cachedJson(URL_A, "search", async () => ({ count: 3 }))).toEqual({ count: 3 });
+  });
+
+  it("never caches a failed load", async () => {
+    const { cache } = memoryCache();
+
+    await expect(cachedJson(URL_A, "product", async () => Promise.reject(new Error("down")))).rejects.toThrow("down");
+    expect(cache.put).not.toHaveBeenCalled();
+  });
+
+  it("loads directly where the Cache API is unavailable", async () => {
+    expect(await cachedJson(URL_A, "search", async () => ({ count: 4 }))).toEqual({ count: 4 });
+    expect(cacheSummary([])).toEqual({ status: "none", lookups: [] });
+  });
+});
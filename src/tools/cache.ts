@@ -0,0 +1,156 @@
+/**
+ * OpenFoodFacts response cache
+ *
+ * @developer Eduardo Arana
+ *
+ * Sits in front of `offFetch`, backed by the Workers Cache API
+ * (`caches.default`, per data centre). Entries are keyed by the request URL
+ * with its query parameters sorted, and stamped with the time they were
+ * stored:
+ *
+ *   age < fresh            → served from cache ("hit")
+ *   age < fresh + stale    → served from cache, refreshed in the background ("stale")
+ *   otherwise / not cached → fetched from OFF and stored ("miss")
+ *
+ * Product records change rarely, so they are kept much longer than search
+ * and category listings; taxonomies (e.g. additives) longer still. Errors
+ * are never cached.
+ *
+ * Lookups are reported per tool call: `trackCache(signal)` starts a report
+ * for the call's AbortSignal (each call has its own), and every cached
+ * fetch made with that signal is recorded in it. The MCP server returns the
+ * summary as the result's `_meta.cache`.
+ *
+ * `onCacheRefresh` listeners hear about every background refresh, which the
+ * MCP server turns into resource update notifications.
+ */
+
+import { waitUntil } from "cloudflare:workers";
+
+export type CacheKind = "product" | "search" | "taxonomy";
+
+export type CacheStatus = "hit" | "stale" | "miss";
+
+/** Seconds an entry is fresh, then how long it may still be served while refreshing. */
+export const CACHE_TTLS: Record<CacheKind, { fresh: number; stale: number }> = {
+  product: { fresh: 24 * 60 * 60, stale: 7 * 24 * 60 * 60 },
+  search: { fresh: 60 * 60, stale: 6 * 60 * 60 },
+  taxonomy: { fresh: 7 * 24 * 60 * 60, stale: 30 * 24 * 60 * 60 },
+};
+
+const STORED_AT = "x-nutriagent-stored-at";
+
+export interface CacheLookup {
+  kind: CacheKind;
+  status: CacheStatus;
+  /** Age of the served entry in seconds (hits and stale hits). */
+  age_s?: number;
+}
+
+// ── per-call reports ───────────────────────────────────────────────────────
+
+const reports = new WeakMap<AbortSignal, CacheLookup[]>();
+
+/** Start recording the cache lookups made with `signal`; the array fills as the call runs. */
+export function trackCache(signal: AbortSignal): CacheLookup[] {
+  const lookups: CacheLookup[] = [];
+  reports.set(signal, lookups);
+  return lookups;
+}
+
+/** Summary for tool result metadata: overall status plus each lookup. */
+export function cacheSummary(lookups: CacheLookup[]): {
+  status: CacheStatus | "mixed" | "none";
+  lookups: CacheLookup[];
+} {
+  const statuses = new Set(lookups.map((l) => l.status));
+  const status = statuses.size === 0 ? "none" : statuses.size === 1 ? [...statuses][0] : "mixed";
+  return { status, lookups };
+}
+
+// ── refresh listeners ──────────────────────────────────────────────────────
+
+const refreshListeners = new Set<(url: string) => void>();
+
+/** Call `listener` with the (normalised) URL of every entry a background refresh replaced. */
+export function onCacheRefresh(listener: (url: string) => void): () => void {
+  refreshListeners.add(listener);
+  return () => refreshListeners.delete(listener);
+}
+
+// ── cache ──────────────────────────────────────────────────────────────────
+
+/** Cache key: the URL with sorted query parameters, so equivalent requests share an entry. */
+function cacheKey(url: string): Request {
+  const key = new URL(url);
+  key.searchParams.sort();
+  return new Request(key.toString());
+}
+
+/** `caches.default`, or null where the Cache API is unavailable. */
+function defaultCache(): Cache | null {
+  return typeof caches !== "undefined" ? caches.default : null;
+}
+
+// refreshes in flight in this isolate, so a burst of stale hits refreshes once
+const refreshing = new Set<string>();
+
+async function store(cache: Cache, key: Request, kind: CacheKind, data: unknown): Promise<void> {
+  const { fresh, stale } = CACHE_TTLS[kind];
+  await cache.put(
+    key,
+    new Response(JSON.stringify(data), {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": `public, max-age=${fresh + stale}`,
+        [STORED_AT]: String(Date.now()),
+      },
+    })
+  );
+}
+
+/**
+ * Serve `url` from the cache, or `load()` it and cache the result. `signal`
+ * aborts the load and identifies the call's cache report.
+ */
+export async function cachedJson(
+  url: string,
+  kind: CacheKind,
+  load: (signal?: AbortSignal) => Promise<unknown>,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const cache = defaultCache();
+  if (!cache) return load(signal);
+
+  const record = (lookup: CacheLookup) => signal && reports.get(signal)?.push(lookup);
+  const key = cacheKey(url);
+  const { fresh, stale } = CACHE_TTLS[kind];
+
+  const cached = await cache.match(key);
+  if (cached) {
+    const age = Math.round((Date.now() - Number(cached.headers.get(STORED_AT) ?? 0)) / 1000);
+    if (age < fresh) {
+      record({ kind, status: "hit", age_s: age });
+      return cached.json();
+    }
+    if (age < fresh + stale) {
+      record({ kind, status: "stale", age_s: age });
+      if (!refreshing.has(key.url)) {
+        refreshing.add(key.url);
+        waitUntil(
+          load()
+            .then((data) => store(cache, key, kind, data))
+            .then(() => refreshListeners.forEach((listener) => listener(key.url)))
+            .catch((err) => console.warn("[off-cache] background refresh failed:", err))
+            .finally(() => refreshing.delete(key.url))
+        );
+      }
+      return cached.json();
+    }
+  }
+
+  record({ kind, status: "miss" });
+  const data = await load(signal);
+  waitUntil(store(cache, key, kind, data).catch((err) => console.warn("[off-cache] put failed:", err)));
+  return data;
+}
@@ -0,0 +1,144 @@
+/**
+ * Extended product detail
+ *
+ * @developer Eduardo Arana
+ *
+ * The fields `get_product_by_barcode` adds at `detail: "full"`: vitamins and
+ * minerals, additives, labels, OFF's traffic-light nutrient levels, NOVA
+ * group tags and the ingredient analysis (vegan / vegetarian / palm oil).
+ * They roughly double the payload, so the default `summary` level leaves
+ * them out.
+ */
+
+export const DETAIL_LEVELS = ["summary", "full"] as const;
+
+export type DetailLevel = (typeof DETAIL_LEVELS)[number];
+
+export function parseDetailLevel(value: unknown): DetailLevel {
+  if (value === undefined || value === null || value === "") return "summary";
+  const level = String(value).toLowerCase();
+  if (!DETAIL_LEVELS.includes(level as DetailLevel)) {
+    throw new Error(`detail must be one of: ${DETAIL_LEVELS.join(", ")}`);
+  }
+  return level as DetailLevel;
+}
+
+// ── micronutrients ─────────────────────────────────────────────────────────
+
+/** OFF nutriment key → output key and the unit it is reported in. OFF stores `_100g` values in grams. */
+const MICRONUTRIENTS: [offKey: string, key: string, unit: "mg" | "µg"][] = [
+  ["vitamin-a", "vitamin_a", "µg"],
+  ["vitamin-d", "vitamin_d", "µg"],
+  ["vitamin-e", "vitamin_e", "mg"],
+  ["vitamin-k", "vitamin_k", "µg"],
+  ["vitamin-c", "vitamin_c", "mg"],
+  ["vitamin-b1", "thiamin", "mg"],
+  ["vitamin-b2", "riboflavin", "mg"],
+  ["vitamin-pp", "niacin", "mg"],
+  ["vitamin-b6", "vitamin_b6", "mg"],
+  ["vitamin-b9", "folate", "µg"],
+  ["vitamin-b12", "vitamin_b12", "µg"],
+  ["biotin", "biotin", "µg"],
+  ["pantothenic-acid", "pantothenic_acid", "mg"],
+  ["calcium", "calcium", "mg"],
+  ["iron", "iron", "mg"],
+  ["magnesium", "magnesium", "mg"],
+  ["phosphorus", "phosphorus", "mg"],
+  ["potassium", "potassium", "mg"],
+  ["zinc", "zinc", "mg"],
+  ["copper", "copper", "mg"],
+  ["manganese", "manganese", "mg"],
+  ["selenium", "selenium", "µg"],
+  ["iodine", "iodine", "µg"],
+];
+
+const UNIT_FACTORS = { mg: 1_000, "µg": 1_000_000 };
+
+export interface Micronutrient {
+  value_100g: number;
+  unit: "mg" | "µg";
+}
+
+function micronutrients(nutriments: Record<string, unknown>): Record<string, Micronutrient> {
+  const out: Record<string, Micronutrient> = {};
+  for (const [offKey, key, unit] of MICRONUTRIENTS) {
+    const raw = nutriments[`${offKey}_100g`];
+    const grams = Number(raw);
+    if (raw === undefined || raw === "" || !Number.isFinite(grams) || grams < 0) continue;
+    // three significant figures: µg-scale values would round to 0 at one decimal
+    out[key] = { value_100g: Number((grams * UNIT_FACTORS[unit]).toPrecision(3)), unit };
+  }
+  return out;
+}
+
+// ── ingredient analysis ────────────────────────────────────────────────────
+
+export type AnalysisStatus = "yes" | "no" | "maybe" | "unknown";
+
+export interface IngredientsAnalysis {
+  vegan: AnalysisStatus;
+  vegetarian: AnalysisStatus;
+  /** "yes" = contains palm oil. */
+  palm_oil: AnalysisStatus;
+}
+
+/** Read one property from OFF's `en:vegan` / `en:non-vegan` / `en:maybe-vegan` style tags. */
+function analysisStatus(tags: string[], yes: string, no: string, maybe: string): AnalysisStatus {
+  if (tags.includes(yes)) return "yes";
+  if (tags.includes(no)) return "no";
+  if (tags.includes(maybe)) return "maybe";
+  return "unknown";
+}
+
+function ingredientsAnalysis(tags: string[]): IngredientsAnalysis {
+  return {
+    vegan: analysisStatus(tags, "en:vegan", "en:non-vegan", "en:maybe-vegan"),
+    vegetarian: analysisStatus(tags, "en:vegetarian", "en:non-vegetarian", "en:maybe-vegetarian"),
+    palm_oil: analysisStatus(tags, "en:palm-oil", "en:palm-oil-free", "en:may-contain-palm-oil"),
+  };
+}
+
+// ── product details ────────────────────────────────────────────────────────
+
+export type NutrientLevel = "low" | "moderate" | "high";
+
+export interface ProductDetails {
+  /** Vitamins and minerals per 100g, in mg or µg. Only those the product declares. */
+  micronutrients: Record<string, Micronutrient>;
+  /** e.g. `en:e330`, `en:e322i` */
+  additives_tags: string[];
+  /** e.g. `en:organic`, `en:fair-trade`, `en:no-gluten` */
+  labels_tags: string[];
+  /** OFF's traffic lights for fat, saturated fat, sugars and salt. */
+  nutrient_levels: Partial<Record<"fat" | "saturated_fat" | "sugars" | "salt", NutrientLevel>>;
+  /** e.g. `en:4-ultra-processed-food-and-drink-products` */
+  nova_groups_tags: string[];
+  ingredients_analysis: IngredientsAnalysis;
+}
+
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+
+/** The extended fields of a raw OFF product. */
+export function productDetails(p: Record<string, unknown>): ProductDetails {
+  const levels = (p.nutrient_levels ?? {}) as Record<string, unknown>;
+  const nutrientLevels: ProductDetails["nutrient_levels"] = {};
+  for (const [offKey, key] of [
+    ["fat", "fat"],
+    ["saturated-fat", "saturated_fat"],
+    ["sugars", "sugars"],
+    ["salt", "salt"],
+  ] as const) {
+    const level = levels[offKey];
+    if (level === "low" || level === "moderate" || level === "high") nutrientLevels[key] = level;
+  }
+
+  return {
+    micronutrients: micronutrients((p.nutriments ?? {}) as Record<string, unknown>),
+    additives_tags: strings(p.additives_tags),
+    labels_tags: strings(p.labels_tags),
+    nutrient_levels: nutrientLevels,
+    nova_groups_tags: strings(p.nova_groups_tags),
+    ingredients_analysis: ingredientsAnalysis(strings(p.ingredients_analysis_tags)),
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Food diary tools
+ *
+ * @developer Eduardo Arana
+ *
+ * Tool definitions for logging eaten food and reading daily / weekly totals.
+ * Like the dietary profile tools they operate on per-user state and are
+ * executed by the user's NutriAgent instance (see `src/agent/agent-tools.ts`).
+ */
+
+import { parseDate, sumDays, weekOf, type Nutrients } from "../agent/diary";
+import { NUTRIENT_KEYS } from "./nutrition";
+import { getProductByBarcode } from "./openfoodfacts";
+import { agentTool, type AgentToolContext } from "./registry";
+import type { JsonSchema } from "./schema";
+
+/** Meals a diary entry can belong to; the agent's diary store validates against the same list. */
+export const MEALS = ["breakfast", "lunch", "dinner", "snack"] as const;
+
+export type Meal = (typeof MEALS)[number];
+
+const NUTRIENTS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: Object.fromEntries(NUTRIENT_KEYS.map((k) => [k, { type: "number" }])),
+};
+
+const ENTRY_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "integer" },
+    date: { type: "string" },
+    meal: { type: "string", enum: MEALS },
+    barcode: { type: "string" },
+    productName: { type: "string" },
+    quantityG: { type: "number" },
+    nutrients: NUTRIENTS_SCHEMA,
+    missing: { type: "array", items: { type: "string" }, description: "Nutrients the product did not provide" },
+    createdAt: { type: "integer" },
+  },
+};
+
+// ── handlers ───────────────────────────────────────────────────────────────
+
+async function logFood(
+  args: { barcode: string; quantity_g: number; meal: Meal; date?: string },
+  ctx: AgentToolContext,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const barcode = args.barcode.trim();
+  if (!barcode) throw new Error("barcode is required");
+
+  const quantityG = args.quantity_g;
+  if (quantityG <= 0 || quantityG > 5000) {
+    throw new Error("quantity_g must be a number of grams between 0 and 5000");
+  }
+
+  const date = parseDate(args.date, ctx.timezone);
+  const product = await getProductByBarcode(barcode, "eu", ctx.locale, signal);
+  const entry = ctx.diary.log(date, args.meal, product, quantityG);
+  const [day] = ctx.diary.totals([date]);
+
+  return { logged: entry, day_total: day.total };
+}
+
+function getDiary(args: { date?: string; period?: "day" | "week" }, ctx: AgentToolContext): unknown {
+  const date = parseDate(args.date, ctx.timezone);
+  const goal = ctx.profiles.get().calorieGoal;
+
+  if ((args.period ?? "day") === "week") {
+    const dates = weekOf(date);
+    const entries = ctx.diary.entries(dates);
+    const days = ctx.diary.totals(dates, entries);
+    const { total, byMeal } = sumDays(days);
+    const logged = new Set(entries.map((e) => e.date)).size;
+    return {
+      period: "week",
+      from: dates[0],
+      to: dates[6],
+      days,
+      total,
+      by_meal: byMeal,
+      // averaged over days with entries, so an unfinished week isn't diluted
+      daily_average: logged ? average(total, logged) : null,
+      days_logged: logged,
+      calorie_goal: goal,
+    };
+  }
+
+  const entries = ctx.diary.entries([date]);
+  const [day] = ctx.diary.totals([date], entries);
+  return {
+    period: "day",
+    date,
+    entries,
+    total: day.total,
+    by_meal: day.byMeal,
+    calorie_goal: goal,
+    remaining_kcal: goal ? Math.round(goal - day.total.energy_kcal) : null,
+  };
+}
+
+function average(total: Nutrients, days: number): Nutrients {
+  return Object.fromEntries(
+    Object.entries(total).map(([k, v]) => [k, Math.round((v / days) * 10) / 10])
+  ) as unknown as Nutrients;
+}
+
+// ── tool specs ─────────────────────────────────────────────────────────────
+
+export const DIARY_TOOLS = [
+  agentTool<{ barcode: string; quantity_g: number; meal: Meal; date?: string }>({
+    name: "log_food",
+    description:
+      "Log food the user ate in their food diary, by product barcode and quantity in grams. Nutrients are computed from the product's per-100g values.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        barcode: { type: "string", description: "Product barcode (EAN/UPC)" },
+        quantity_g: { type: "number", description: "Amount eaten in grams (or ml for drinks)" },
+        meal: { type: "string", enum: MEALS, description: "Meal the food belongs to" },
+        date: { type: "string", description: "Day eaten, YYYY-MM-DD (default: today in the user's timezone)" },
+      },
+      required: ["barcode", "quantity_g", "meal"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: { logged: ENTRY_SCHEMA, day_total: NUTRIENTS_SCHEMA },
+      required: ["logged", "day_total"],
+    },
+    handler: logFood,
+  }),
+  agentTool<{ date?: string; period?: "day" | "week" }>({
+    name: "get_diary",
+    description:
+      "Get the user's food diary with nutrient totals per meal: one day with its entries, or the Monday–Sunday week containing the date with per-day totals.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        date: { type: "string", description: "Day (or a day in the week), YYYY-MM-DD (default: today in the user's timezone)" },
+        period: { type: "string", enum: ["day", "week"], description: "Default 'day'" },
+      },
+    },
+    outputSchema: {
+      type: "object",
+      description: "A day has date, entries and remaining_kcal; a week has from, to, days and daily_average",
+      properties: {
+        period: { type: "string", enum: ["day", "week"] },
+        date: { type: "string" },
+        entries: { type: "array", items: ENTRY_SCHEMA },
+        from: { type: "string" },
+        to: { type: "string" },
+        days: { type: "array", items: { type: "object" } },
+        total: NUTRIENTS_SCHEMA,
+        by_meal: { type: "object" },
+        daily_average: { type: ["object", "null"] },
+        days_logged: { type: "integer" },
+        calorie_goal: { type: ["number", "null"] },
+        remaining_kcal: { type: ["number", "null"] },
+      },
+      required: ["period", "total", "by_meal", "calorie_goal"],
+    },
+    handler: getDiary,
+  }),
+  agentTool<{ id: number }>({
+    name: "delete_diary_entry",
+    description: "Delete a food diary entry by its id (as returned by log_food or get_diary).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "integer", description: "Diary entry id" },
+      },
+      required: ["id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: { deleted: { type: "integer" } },
+      required: ["deleted"],
+    },
+    handler: ({ id }, ctx) => {
+      if (!ctx.diary.delete(id)) throw new Error(`Diary entry ${id} not found`);
+      return { deleted: id };
+    },
+  }),
+];
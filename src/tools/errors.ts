@@ -0,0 +1,44 @@
+/**
+ * Typed tool errors
+ *
+ * @developer Eduardo Arana
+ *
+ * A `ToolError` is a tool failure the model should see as data: it
+ * serialises to `{ error, code, ...details }`, travels through MCP as the
+ * error content, and is handed to the LLM as the tool result so it can
+ * correct its arguments instead of guessing at a plain message.
+ */
+
+export class ToolError extends Error {
+  readonly code: string;
+  readonly details: Record<string, unknown>;
+
+  constructor(message: string, code: string, details: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "ToolError";
+    this.code = code;
+    this.details = details;
+  }
+
+  toJSON(): Record<string, unknown> {
+    return { error: this.message, code: this.code, ...this.details };
+  }
+
+  /** Rebuild a ToolError from its JSON form (e.g. MCP error content); null if it isn't one. */
+  static fromJSON(text: string): ToolError | null {
+    try {
+      return ToolError.fromData(JSON.parse(text));
+    } catch {
+      return null;
+    }
+  }
+
+  /** Rebuild a ToolError from its parsed JSON form (e.g. JSON-RPC error `data`). */
+  static fromData(data: unknown): ToolError | null {
+    if (!data || typeof data !== "object") return null;
+    const { error, code, ...details } = data as Record<string, unknown>;
+    return typeof error === "string" && typeof code === "string"
+      ? new ToolError(error, code, details)
+      : null;
+  }
+}
@@ -3,5 +3,76 @@
  *
  * @developer Eduardo Arana
  */
-export { TOOL_DEFINITIONS, dispatchTool } from "./openfoodfacts";
-export type { ProductSummary, NutrientInfo } from "./openfoodfacts";
+import { ALTERNATIVES_TOOLS } from "./alternatives";
+import { DIARY_TOOLS } from "./diary";
+import { OFF_TOOLS } from "./openfoodfacts";
+import { PROFILE_TOOLS } from "./profile";
+import { RECIPE_TOOLS } from "./recipe";
+import { functionDefinition, validateArguments, type ToolSpec } from "./registry";
+import { SCHEDULE_TOOLS } from "./schedules";
+
+/** Every tool, declared once; the lists below and the MCP server's are derived from it. */
+export const TOOLS: readonly ToolSpec[] = [
+  ...OFF_TOOLS,
+  ...ALTERNATIVES_TOOLS,
+  ...RECIPE_TOOLS,
+  ...PROFILE_TOOLS,
+  ...DIARY_TOOLS,
+  ...SCHEDULE_TOOLS,
+];
+
+const TOOLS_BY_NAME = new Map(TOOLS.map((t) => [t.name, t]));
+
+export function findTool(name: string): ToolSpec | undefined {
+  return TOOLS_BY_NAME.get(name);
+}
+
+/** Every tool offered to the LLM, in function-calling format. */
+export const TOOL_DEFINITIONS = TOOLS.map(functionDefinition);
+
+/** Tools backed by per-user agent storage, executed by the user's agent instance. */
+export const AGENT_TOOL_NAMES: ReadonlySet<string> = new Set(
+  TOOLS.filter((t) => t.scope === "agent").map((t) => t.name)
+);
+
+/**
+ * Run a stateless tool call (OpenFoodFacts lookups, alternatives, recipe
+ * calculator) after validating its arguments.
+ */
+export async function dispatchTool(
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const tool = findTool(name);
+  if (tool?.scope !== "stateless") throw new Error(`Unknown tool: ${name}`);
+  return tool.handler(validateArguments(tool, args), signal);
+}
+
+export { allergenTag } from "./allergens";
+export { InvalidBarcodeError, normaliseBarcode } from "./barcode";
+export { MEALS } from "./diary";
+export type { Meal } from "./diary";
+export { NUTRIENT_KEYS } from "./nutrition";
+export type { NutrientKey } from "./nutrition";
+export { cacheSummary, onCacheRefresh, trackCache } from "./cache";
+export { ToolError } from "./errors";
+export { trackProgress } from "./progress";
+export type { ProgressUpdate } from "./progress";
+export { InvalidArgumentsError, validateArguments } from "./registry";
+export type { AgentToolContext, AgentToolSpec, StatelessToolSpec, ToolSpec } from "./registry";
+export type { FieldError, JsonSchema } from "./schema";
+export {
+  localeFromAcceptLanguage,
+  parseCountry,
+  parseLanguage,
+  withLocaleDefaults,
+} from "./locale";
+export type { OffLocale } from "./locale";
+export { OpenFoodFactsError } from "./off-client";
+export type { OffErrorCode } from "./off-client";
+export { getProductByBarcode } from "./openfoodfacts";
+export type { ProductDetail, ProductSummary, NutrientInfo } from "./openfoodfacts";
+export type { DetailLevel, ProductDetails } from "./detail";
+export type { AdvancedSearch, SearchSortOrder } from "./advanced-search";
+export type { AdvancedSearchResult } from "./openfoodfacts";
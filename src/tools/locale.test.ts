@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  localeFromAcceptLanguage,
+  localisedField,
+  localiseUrl,
+  parseCountry,
+  parseLanguage,
+  withLocaleDefaults,
+} from "./locale";
+
+describe("parseCountry / parseLanguage", () => {
+  it("lowercases two-letter codes and maps GB to OFF's uk", () => {
+    expect(parseCountry(" ES ")).toBe("es");
+    expect(parseCountry("gb")).toBe("uk");
+    expect(parseCountry("world")).toBe("world");
+    expect(parseLanguage("FR")).toBe("fr");
+  });
+
+  it("treats empty values as absent and rejects anything else", () => {
+    expect(parseCountry("")).toBeUndefined();
+    expect(parseLanguage(null)).toBeUndefined();
+    expect(() => parseCountry("spain")).toThrow("two-letter ISO country code");
+    expect(() => parseLanguage("es-ES")).toThrow("two-letter ISO language code");
+  });
+});
+
+describe("localeFromAcceptLanguage", () => {
+  it("takes the highest-weighted language and its region", () => {
+    expect(localeFromAcceptLanguage("es-ES,es;q=0.9,en;q=0.8")).toEqual({ lang: "es", country: "es" });
+    expect(localeFromAcceptLanguage("en;q=0.5, en-GB;q=0.9")).toEqual({ lang: "en", country: "uk" });
+  });
+
+  it("sets no country for a bare language or a numeric region", () => {
+    expect(localeFromAcceptLanguage("fr")).toEqual({ lang: "fr", country: undefined });
+    expect(localeFromAcceptLanguage("es-419")).toEqual({ lang: "es", country: undefined });
+  });
+
+  it("ignores wildcards, refused languages and malformed tags", () => {
+    expect(localeFromAcceptLanguage("*, de;q=0")).toEqual({});
+    expect(localeFromAcceptLanguage("zh-Hans-CN")).toEqual({ lang: "zh", country: undefined });
+    expect(localeFromAcceptLanguage("x-klingon")).toEqual({});
+    expect(localeFromAcceptLanguage(null)).toEqual({});
+  });
+});
+
+describe("withLocaleDefaults", () => {
+  it("fills in missing arguments of locale-aware tools only", () => {
+    const defaults = { country: "es", lang: "es" };
+
+    expect(withLocaleDefaults("search_products", { query: "pan", lang: "en" }, defaults)).toEqual({
+      query: "pan",
+      lang: "en",
+      country: "es",
+    });
+    expect(withLocaleDefaults("log_food", { barcode: "1" }, defaults)).toEqual({ barcode: "1" });
+  });
+});
+
+describe("localiseUrl / localisedField", () => {
+  it("routes to the country subdomain and sets the display language", () => {
+    const url = localiseUrl(new URL("https://world.openfoodfacts.org/cgi/search.pl?q=pan"), {
+      country: "fr",
+      lang: "fr",
+    });
+
+    expect(url.toString()).toBe("https://fr.openfoodfacts.org/cgi/search.pl?q=pan&lc=fr");
+  });
+
+  it("picks the wanted language, then the main field, then English", () => {
+    const product = { product_name: "", product_name_en: "Bread", product_name_es: "Pan" };
+
+    expect(localisedField(product, "product_name", "es")).toBe("Pan");
+    expect(localisedField(product, "product_name", "fr")).toBe("Bread");
+    expect(localisedField({}, "product_name", "fr")).toBeUndefined();
+  });
+});
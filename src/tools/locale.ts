@@ -0,0 +1,136 @@
+/**
+ * Country and language for OpenFoodFacts queries
+ *
+ * @developer Eduardo Arana
+ *
+ * OFF serves every country from its own subdomain (`es.openfoodfacts.org`
+ * only lists products sold in Spain) and takes the display language as the
+ * `lc` parameter. Product records carry per-language fields
+ * (`product_name_es`, `ingredients_text_fr`, …), which summaries pick from.
+ *
+ * Tools take optional `country` / `lang` arguments. When they are absent the
+ * caller's defaults apply: the agent uses the user's profile, then the
+ * browser's `Accept-Language`; the MCP server uses the request's
+ * `Accept-Language`.
+ */
+
+export interface OffLocale {
+  /** ISO 3166-1 alpha-2 country code (lowercase), or "world". */
+  country?: string;
+  /** ISO 639-1 language code (lowercase). */
+  lang?: string;
+}
+
+/** OFF tools that accept `country` / `lang`. */
+export const LOCALE_TOOL_NAMES: ReadonlySet<string> = new Set([
+  "get_product_by_barcode",
+  "search_products",
+  "search_products_advanced",
+  "get_products_by_category",
+  "compare_products",
+  "get_allergen_info",
+  "find_healthier_alternatives",
+  "calculate_recipe_nutrition",
+]);
+
+/** JSON Schema properties shared by the locale-aware tools. */
+export const LOCALE_PARAMETERS = {
+  country: {
+    type: "string",
+    description:
+      "ISO country code, e.g. 'es' or 'fr', to only return products sold there (default: the user's country, or 'world')",
+  },
+  lang: {
+    type: "string",
+    description: "ISO language code for product names and ingredients, e.g. 'es' (default: the user's language)",
+  },
+} as const;
+
+// OFF uses `uk` rather than ISO `gb` for the United Kingdom
+const COUNTRY_ALIASES: Record<string, string> = { gb: "uk" };
+
+const CODE = /^[a-z]{2}$/;
+
+export function parseCountry(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const country = String(value).trim().toLowerCase();
+  if (country !== "world" && !CODE.test(country)) {
+    throw new Error("country must be a two-letter ISO country code (e.g. 'es') or 'world'");
+  }
+  return COUNTRY_ALIASES[country] ?? country;
+}
+
+export function parseLanguage(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const lang = String(value).trim().toLowerCase();
+  if (!CODE.test(lang)) throw new Error("lang must be a two-letter ISO language code (e.g. 'es')");
+  return lang;
+}
+
+/** Validate the `country` / `lang` tool arguments. */
+export function parseLocale(args: Record<string, unknown>): OffLocale {
+  return { country: parseCountry(args.country), lang: parseLanguage(args.lang) };
+}
+
+/**
+ * The preferred locale in an `Accept-Language` header: "es-ES,es;q=0.9" →
+ * { lang: "es", country: "es" }. A bare language ("fr") sets no country.
+ */
+export function localeFromAcceptLanguage(header: string | null | undefined): OffLocale {
+  if (!header) return {};
+  const [best] = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((p) => p.trim().startsWith("q="));
+      return { tag: tag.trim().toLowerCase(), q: q ? Number(q.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q);
+  if (!best) return {};
+
+  const [lang, region] = best.tag.split("-");
+  try {
+    return {
+      lang: parseLanguage(lang),
+      country: region && CODE.test(region) ? parseCountry(region) : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
+
+/** Fill in missing `country` / `lang` arguments of a locale-aware tool call. */
+export function withLocaleDefaults(
+  name: string,
+  args: Record<string, unknown>,
+  defaults: OffLocale
+): Record<string, unknown> {
+  if (!LOCALE_TOOL_NAMES.has(name)) return args;
+  return {
+    ...args,
+    ...(args.country === undefined && defaults.country ? { country: defaults.country } : {}),
+    ...(args.lang === undefined && defaults.lang ? { lang: defaults.lang } : {}),
+  };
+}
+
+/** Route a listing URL to the country's subdomain and set the display language. */
+export function localiseUrl(url: URL, locale: OffLocale): URL {
+  const out = new URL(url);
+  if (locale.country) out.hostname = `${locale.country}.openfoodfacts.org`;
+  if (locale.lang) out.searchParams.set("lc", locale.lang);
+  return out;
+}
+
+/** A text field in the wanted language, falling back to the main and English fields. */
+export function localisedField(
+  p: Record<string, unknown>,
+  field: string,
+  lang: string | undefined
+): string | undefined {
+  for (const key of [lang && `${field}_${lang}`, field, `${field}_en`]) {
+    const value = key ? p[key] : undefined;
+    if (typeof value === "string" && value.trim()) return value;
+  }
+  return undefined;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { dailyValues, parseReferenceTable, parseServingSize, scaleNutrients } from "./nutrition";
+
+describe("parseServingSize", () => {
+  it("reads metric amounts, preferring them over household measures", () => {
+    expect(parseServingSize("1 bar (45 g)")).toBe(45);
+    expect(parseServingSize("250ml")).toBe(250);
+    expect(parseServingSize("1 cup (240 ml)")).toBe(240);
+    expect(parseServingSize("1 oz (28g)")).toBe(28);
+    expect(parseServingSize("2,5 cl")).toBe(25);
+  });
+
+  it("converts ounces when no metric amount is given", () => {
+    expect(parseServingSize("1 oz")).toBe(28.3);
+    expect(parseServingSize("8 fl oz")).toBe(236.6);
+  });
+
+  it("returns null without a usable amount", () => {
+    expect(parseServingSize("")).toBeNull();
+    expect(parseServingSize("1 slice")).toBeNull();
+    expect(parseServingSize("0 g")).toBeNull();
+  });
+});
+
+describe("scaleNutrients", () => {
+  it("scales per-100g values and leaves out nutrients without data", () => {
+    expect(scaleNutrients({ energy_kcal_100g: 539, fat_100g: 30.9, sugars_100g: "n/a" }, 15)).toEqual({
+      energy_kcal: 80.9,
+      fat: 4.6,
+    });
+  });
+});
+
+describe("dailyValues", () => {
+  it("uses EU reference intakes, with salt but no fibre", () => {
+    expect(dailyValues({ energy_kcal: 500, salt: 1.5, fiber: 10 }, null, "eu")).toEqual({
+      reference: "eu",
+      label: "%RI",
+      per_100g: { energy_kcal: 25, salt: 25 },
+      per_serving: null,
+    });
+  });
+
+  it("uses FDA daily values, with sodium derived from salt and no total sugars", () => {
+    const values = dailyValues({ salt: 1.15, sugars: 20, fiber: 7 }, { fiber: 14 }, "us");
+
+    expect(values.label).toBe("%DV");
+    expect(values.per_100g).toEqual({ fiber: 25, sodium: 20 });
+    expect(values.per_serving).toEqual({ fiber: 50 });
+  });
+});
+
+describe("parseReferenceTable", () => {
+  it("defaults to the EU table and rejects unknown ones", () => {
+    expect(parseReferenceTable(undefined)).toBe("eu");
+    expect(parseReferenceTable("US")).toBe("us");
+    expect(() => parseReferenceTable("uk")).toThrow("reference must be one of: eu, us");
+  });
+});
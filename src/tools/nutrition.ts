@@ -0,0 +1,151 @@
+/**
+ * Serving sizes and daily reference intakes
+ *
+ * @developer Eduardo Arana
+ *
+ * Helpers used when summarising OpenFoodFacts products: parsing the
+ * free-text `serving_size` ("1 bar (45 g)", "250ml", "1 oz (28g)"), scaling
+ * per-100g nutrients to a serving, and expressing amounts as a percentage of
+ * a reference table — EU Reference Intakes (Regulation (EU) 1169/2011,
+ * Annex XIII) or US FDA Daily Values (21 CFR 101.9, 2016 revision).
+ */
+
+/** Core nutrients, keyed like `NutrientInfo` without the `_100g` suffix. */
+export const NUTRIENT_KEYS = [
+  "energy_kcal",
+  "fat",
+  "saturated_fat",
+  "carbohydrates",
+  "sugars",
+  "fiber",
+  "proteins",
+  "salt",
+] as const;
+
+export type NutrientKey = (typeof NUTRIENT_KEYS)[number];
+
+export type NutrientAmounts = Partial<Record<NutrientKey, number>>;
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+// ── serving size ───────────────────────────────────────────────────────────
+
+/** Grams (or ml) per unit found in serving-size text. */
+const SERVING_UNITS: Record<string, number> = {
+  g: 1,
+  gr: 1,
+  grams: 1,
+  kg: 1000,
+  mg: 0.001,
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  oz: 28.3495,
+  "fl oz": 29.57,
+};
+
+/**
+ * Grams (ml for drinks) in a serving-size string. Metric amounts win over
+ * the household measure they usually accompany: "1 cup (240 ml)" → 240.
+ */
+export function parseServingSize(text: string): number | null {
+  const pattern = /(\d+(?:[.,]\d+)?)\s*(fl\.? ?oz|kg|mg|grams|gr|g|ml|cl|dl|l|oz)\b/gi;
+  const amounts = [...text.matchAll(pattern)].map((m) => ({
+    value: Number(m[1].replace(",", ".")),
+    unit: m[2].toLowerCase().replace(/fl\.? ?oz/, "fl oz"),
+  }));
+  const metric = amounts.find((a) => !a.unit.includes("oz")) ?? amounts[0];
+  if (!metric || !(metric.value > 0)) return null;
+  return round(metric.value * SERVING_UNITS[metric.unit]);
+}
+
+/** Scale per-100g values to `grams`. Nutrients without data are left out. */
+export function scaleNutrients(per100g: Record<string, unknown>, grams: number): NutrientAmounts {
+  const out: NutrientAmounts = {};
+  for (const k of NUTRIENT_KEYS) {
+    const v = per100g[`${k}_100g`];
+    if (typeof v === "number" && Number.isFinite(v)) out[k] = round((v * grams) / 100);
+  }
+  return out;
+}
+
+// ── reference intakes ──────────────────────────────────────────────────────
+
+export type ReferenceTable = "eu" | "us";
+
+export const REFERENCE_TABLES = ["eu", "us"] as const;
+
+/** Reference amounts for an adult 2000 kcal diet (g, kcal for energy). */
+const REFERENCE_INTAKES: Record<ReferenceTable, Partial<Record<NutrientKey | "sodium", number>>> = {
+  // EU RI: no reference for fibre
+  eu: {
+    energy_kcal: 2000,
+    fat: 70,
+    saturated_fat: 20,
+    carbohydrates: 260,
+    sugars: 90,
+    proteins: 50,
+    salt: 6,
+  },
+  // FDA DV: sodium rather than salt; the sugars DV covers added sugars only, so total sugars get none
+  us: {
+    energy_kcal: 2000,
+    fat: 78,
+    saturated_fat: 20,
+    carbohydrates: 275,
+    fiber: 28,
+    proteins: 50,
+    sodium: 2.3,
+  },
+};
+
+export interface DailyValues {
+  reference: ReferenceTable;
+  /** "%RI" (EU) or "%DV" (US), as printed on labels. */
+  label: "%RI" | "%DV";
+  per_100g: Partial<Record<NutrientKey | "sodium", number>>;
+  per_serving: Partial<Record<NutrientKey | "sodium", number>> | null;
+}
+
+export function parseReferenceTable(value: unknown): ReferenceTable {
+  if (value === undefined || value === null || value === "") return "eu";
+  const table = String(value).toLowerCase();
+  if (!REFERENCE_TABLES.includes(table as ReferenceTable)) {
+    throw new Error(`reference must be one of: ${REFERENCE_TABLES.join(", ")}`);
+  }
+  return table as ReferenceTable;
+}
+
+/** Percentages of the reference table for the given amounts (whole percent). */
+function percentages(
+  amounts: NutrientAmounts,
+  table: ReferenceTable
+): Partial<Record<NutrientKey | "sodium", number>> {
+  // sodium (g) = salt (g) / 2.5
+  const values: Partial<Record<NutrientKey | "sodium", number>> = {
+    ...amounts,
+    ...(amounts.salt !== undefined ? { sodium: amounts.salt / 2.5 } : {}),
+  };
+  const out: Partial<Record<NutrientKey | "sodium", number>> = {};
+  for (const [key, reference] of Object.entries(REFERENCE_INTAKES[table])) {
+    const value = values[key as NutrientKey | "sodium"];
+    if (value !== undefined && reference) {
+      out[key as NutrientKey | "sodium"] = Math.round((value / reference) * 100);
+    }
+  }
+  return out;
+}
+
+export function dailyValues(
+  per100g: NutrientAmounts,
+  perServing: NutrientAmounts | null,
+  table: ReferenceTable
+): DailyValues {
+  return {
+    reference: table,
+    label: table === "eu" ? "%RI" : "%DV",
+    per_100g: percentages(per100g, table),
+    per_serving: perServing ? percentages(perServing, table) : null,
+  };
+}
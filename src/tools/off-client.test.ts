@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CircuitBreaker, OpenFoodFactsClient, OpenFoodFactsError, TokenBucket } from "./off-client";
+
+const PRODUCT_URL = "https://world.openfoodfacts.org/api/v2/product/3017620422003.json";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe("TokenBucket", () => {
+  it("hands out its capacity at once, then refills at the given rate", () => {
+    const bucket = new TokenBucket(2, 1 / 1000); // 1 token per second
+
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.waitMs()).toBe(1000);
+
+    vi.advanceTimersByTime(1000);
+    expect(bucket.waitMs()).toBe(0);
+  });
+
+  it("queues concurrent reservations behind one another", () => {
+    const bucket = new TokenBucket(1, 1 / 1000);
+
+    expect(bucket.reserve()).toBe(0);
+    expect(bucket.reserve()).toBe(1000);
+    expect(bucket.reserve()).toBe(2000);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after the threshold of consecutive failures", () => {
+    const breaker = new CircuitBreaker(2, 30_000);
+
+    breaker.failure();
+    expect(breaker.blockedForMs()).toBe(0);
+    breaker.failure();
+    expect(breaker.blockedForMs()).toBe(30_000);
+  });
+
+  it("lets a single probe through once the cooldown is over", () => {
+    const breaker = new CircuitBreaker(1, 30_000);
+    breaker.failure();
+    vi.advanceTimersByTime(30_000);
+
+    expect(breaker.blockedForMs()).toBe(0);
+    expect(breaker.blockedForMs()).toBeGreaterThan(0);
+  });
+
+  it("closes when the probe succeeds", () => {
+    const breaker = new CircuitBreaker(1, 30_000);
+    breaker.failure();
+    vi.advanceTimersByTime(30_000);
+    breaker.blockedForMs();
+
+    breaker.success();
+    expect(breaker.blockedForMs()).toBe(0);
+    expect(breaker.blockedForMs()).toBe(0);
+  });
+
+  it("reopens for a full cooldown when the probe fails", () => {
+    const breaker = new CircuitBreaker(5, 30_000);
+    for (let i = 0; i < 5; i++) breaker.failure();
+    vi.advanceTimersByTime(30_000);
+    breaker.blockedForMs();
+
+    breaker.failure();
+    expect(breaker.blockedForMs()).toBe(30_000);
+  });
+
+  it("lets another call probe when the probe is released", () => {
+    const breaker = new CircuitBreaker(1, 30_000);
+    breaker.failure();
+    vi.advanceTimersByTime(30_000);
+    breaker.blockedForMs();
+
+    breaker.release();
+    expect(breaker.blockedForMs()).toBe(0);
+  });
+});
+
+describe("OpenFoodFactsClient", () => {
+  const client = () =>
+    new OpenFoodFactsClient({ userAgent: "test", maxRetries: 0, breakerThreshold: 1, breakerCooldownMs: 30_000 });
+
+  function respond(...statuses: number[]) {
+    const fetch = vi.fn();
+    for (const status of statuses) {
+      fetch.mockResolvedValueOnce(Response.json({ status }, { status }));
+    }
+    vi.stubGlobal("fetch", fetch);
+    return fetch;
+  }
+
+  async function openCircuit(off: OpenFoodFactsClient) {
+    await expect(off.getJson(PRODUCT_URL)).rejects.toMatchObject({ code: "upstream_unavailable" });
+    vi.advanceTimersByTime(30_000);
+  }
+
+  it("closes the circuit when a probe finds no such product", async () => {
+    const off = client();
+    const fetch = respond(503, 404, 200);
+    await openCircuit(off);
+
+    await expect(off.getJson(PRODUCT_URL)).rejects.toMatchObject({ code: "not_found" });
+    await expect(off.getJson(PRODUCT_URL)).resolves.toEqual({ status: 200 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry or trip the circuit on other 4xx responses", async () => {
+    const off = new OpenFoodFactsClient({ userAgent: "test", breakerThreshold: 1 });
+    const fetch = respond(400, 200);
+
+    const err = await off.getJson(PRODUCT_URL).catch((e) => e);
+    expect(err).toBeInstanceOf(OpenFoodFactsError);
+    expect(err).toMatchObject({ code: "bad_request", details: { retryable: false, status: 400 } });
+    await expect(off.getJson(PRODUCT_URL)).resolves.toEqual({ status: 200 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("releases the probe when OFF rate limits it", async () => {
+    const off = client();
+    respond(503, 429, 200);
+    await openCircuit(off);
+
+    await expect(off.getJson(PRODUCT_URL)).rejects.toMatchObject({ code: "rate_limited" });
+    await expect(off.getJson(PRODUCT_URL)).resolves.toEqual({ status: 200 });
+  });
+
+  it("releases the probe when the call is aborted", async () => {
+    const off = client();
+    const fetch = respond(503);
+    await openCircuit(off);
+
+    const controller = new AbortController();
+    fetch.mockImplementationOnce((_url: string, init: RequestInit) => {
+      controller.abort(new Error("stopped"));
+      return Promise.reject(init.signal!.reason);
+    });
+    fetch.mockResolvedValueOnce(Response.json({ status: 200 }));
+    await expect(off.getJson(PRODUCT_URL, controller.signal)).rejects.toThrow("stopped");
+    await expect(off.getJson(PRODUCT_URL)).resolves.toEqual({ status: 200 });
+  });
+
+  it("retries 5xx responses with backoff before giving up", async () => {
+    const off = new OpenFoodFactsClient({ userAgent: "test", maxRetries: 2, baseDelayMs: 100 });
+    const fetch = respond(502, 503, 200);
+
+    const result = off.getJson(PRODUCT_URL);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual({ status: 200 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * OpenFoodFacts HTTP client
+ *
+ * @developer Eduardo Arana
+ *
+ * Every OFF request goes through one client per isolate, which adds:
+ *   - a per-request timeout
+ *   - retries with exponential backoff and full jitter for 429 / 5xx /
+ *     network errors, honouring `Retry-After`
+ *   - a token bucket per endpoint family, sized to OFF's published limits
+ *     (100 req/min product reads, 10 req/min search, 2 req/min facets)
+ *   - a circuit breaker that fails fast while OFF is down
+ *
+ * Failures surface as `OpenFoodFactsError` (a `ToolError`) with code
+ * `not_found`, `bad_request`, `rate_limited` or `upstream_unavailable`, so
+ * the agent can tell the user what actually happened. `not_found` and
+ * `bad_request` are never retried and count as OFF answering: they close the
+ * breaker. A call that never gets an answer (aborted, rate limited) leaves
+ * the breaker as it was, but gives up a half-open probe so another call can
+ * try.
+ *
+ * Rate limits: https://openfoodfacts.github.io/openfoodfacts-server/api/#rate-limits
+ */
+
+import { ToolError } from "./errors";
+
+// ── errors ─────────────────────────────────────────────────────────────────
+
+export type OffErrorCode = "not_found" | "bad_request" | "rate_limited" | "upstream_unavailable";
+
+export class OpenFoodFactsError extends ToolError {
+  constructor(code: OffErrorCode, message: string, details: Record<string, unknown> = {}) {
+    super(message, code, { retryable: code !== "not_found" && code !== "bad_request", ...details });
+    this.name = "OpenFoodFactsError";
+  }
+}
+
+// ── endpoint families ──────────────────────────────────────────────────────
+
+export type EndpointFamily = "product" | "search" | "facet";
+
+/** Which rate-limit family a request URL belongs to. */
+export function endpointFamily(url: string): EndpointFamily {
+  const { pathname } = new URL(url);
+  if (pathname.startsWith("/api/v2/product/")) return "product";
+  if (pathname.startsWith("/cgi/search.pl") || pathname.startsWith("/api/v2/search")) return "search";
+  return "facet";
+}
+
+/** Requests per minute OFF allows per family. */
+const RATE_LIMITS: Record<EndpointFamily, number> = {
+  product: 100,
+  search: 10,
+  facet: 2,
+};
+
+// ── token bucket ───────────────────────────────────────────────────────────
+
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly perMs: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.perMs);
+    this.updatedAt = now;
+  }
+
+  /** Ms until a token is free (0 = take it now). */
+  waitMs(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.perMs);
+  }
+
+  /**
+   * Claim the next token and return the ms until it is due. The count may go
+   * negative: each concurrent caller queues behind the previous reservation
+   * instead of all waiting for the same token.
+   */
+  reserve(): number {
+    const wait = this.waitMs();
+    this.tokens -= 1;
+    return wait;
+  }
+}
+
+// ── circuit breaker ────────────────────────────────────────────────────────
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  /** Ms until the circuit lets a request through, or 0 if it does now. */
+  blockedForMs(): number {
+    if (this.openedAt === null) return 0;
+    const remaining = this.openedAt + this.cooldownMs - Date.now();
+    if (remaining > 0) return remaining;
+    // half-open: let a single probe through
+    if (this.probing) return 1000;
+    this.probing = true;
+    return 0;
+  }
+
+  success() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  failure() {
+    this.failures++;
+    if (this.probing || this.failures >= this.threshold) {
+      this.openedAt = Date.now();
+      this.probing = false;
+    }
+  }
+
+  /** The call let through got no answer either way: let the next one probe. */
+  release() {
+    this.probing = false;
+  }
+}
+
+// ── client ─────────────────────────────────────────────────────────────────
+
+export interface OffClientOptions {
+  userAgent: string;
+  timeoutMs?: number;
+  /** Retries after the first attempt. */
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Longest `Retry-After` / rate-limit wait we will sit out before giving up. */
+  maxWaitMs?: number;
+  /** Consecutive failures that open the circuit, and how long it stays open. */
+  breakerThreshold?: number;
+  breakerCooldownMs?: number;
+}
+
+/** Thrown inside the retry loop for responses worth another attempt. */
+class RetryableResponse extends Error {
+  constructor(
+    readonly status: number,
+    readonly retryAfterMs: number | null
+  ) {
+    super(`OpenFoodFacts ${status}`);
+  }
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export class OpenFoodFactsClient {
+  private readonly options: Required<OffClientOptions>;
+  private readonly buckets: Record<EndpointFamily, TokenBucket>;
+  private readonly breaker: CircuitBreaker;
+
+  constructor(options: OffClientOptions) {
+    this.options = {
+      timeoutMs: 8_000,
+      maxRetries: 2,
+      baseDelayMs: 300,
+      maxDelayMs: 4_000,
+      maxWaitMs: 10_000,
+      breakerThreshold: 5,
+      breakerCooldownMs: 30_000,
+      ...options,
+    };
+    this.buckets = Object.fromEntries(
+      Object.entries(RATE_LIMITS).map(([family, perMinute]) => [
+        family,
+        new TokenBucket(perMinute, perMinute / 60_000),
+      ])
+    ) as Record<EndpointFamily, TokenBucket>;
+    this.breaker = new CircuitBreaker(this.options.breakerThreshold, this.options.breakerCooldownMs);
+  }
+
+  /**
+   * GET a JSON endpoint. Aborting `signal` rejects with its reason (never
+   * wrapped), so callers can tell a cancellation from an OFF failure.
+   */
+  async getJson(url: string, signal?: AbortSignal): Promise<unknown> {
+    const family = endpointFamily(url);
+    const { maxRetries, maxWaitMs } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      const blocked = this.breaker.blockedForMs();
+      if (blocked > 0) {
+        throw new OpenFoodFactsError(
+          "upstream_unavailable",
+          "OpenFoodFacts is unavailable right now (too many recent failures)",
+          { retry_after_s: Math.ceil(blocked / 1000) }
+        );
+      }
+
+      try {
+        await this.acquire(family, signal);
+      } catch (err) {
+        this.breaker.release(); // never reached OFF
+        throw err;
+      }
+
+      try {
+        const data = await this.request(url, signal);
+        this.breaker.success();
+        return data;
+      } catch (err) {
+        if (signal?.aborted) {
+          this.breaker.release();
+          throw signal.reason;
+        }
+        if (err instanceof OpenFoodFactsError) {
+          this.breaker.success(); // not_found / bad_request: OFF is fine
+          throw err;
+        }
+
+        const retryAfter = err instanceof RetryableResponse ? err.retryAfterMs : null;
+        const status = err instanceof RetryableResponse ? err.status : null;
+        // a 429 says OFF is up, just busy
+        if (status === 429) this.breaker.release();
+        else this.breaker.failure();
+
+        const delay = retryAfter ?? this.backoff(attempt);
+        if (attempt >= maxRetries || delay > maxWaitMs) {
+          throw status === 429
+            ? new OpenFoodFactsError("rate_limited", "OpenFoodFacts is rate limiting requests", {
+                retry_after_s: Math.ceil(delay / 1000),
+              })
+            : new OpenFoodFactsError(
+                "upstream_unavailable",
+                `OpenFoodFacts did not respond successfully (${status ?? describe(err)})`
+              );
+        }
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /** Take a token for the family, waiting for one if that is quick enough. */
+  private async acquire(family: EndpointFamily, signal?: AbortSignal) {
+    const bucket = this.buckets[family];
+    const wait = bucket.waitMs();
+    if (wait > this.options.maxWaitMs) {
+      throw new OpenFoodFactsError(
+        "rate_limited",
+        `Too many OpenFoodFacts ${family} requests — limit is ${RATE_LIMITS[family]} per minute`,
+        { retry_after_s: Math.ceil(wait / 1000) }
+      );
+    }
+    // reserve before sleeping, so parallel calls (compare, recipes) queue up
+    // rather than all waking for the same token
+    const due = bucket.reserve();
+    if (due > 0) await sleep(due, signal);
+  }
+
+  private async request(url: string, signal?: AbortSignal): Promise<unknown> {
+    const timeout = AbortSignal.timeout(this.options.timeoutMs);
+    const res = await fetch(url, {
+      headers: { "User-Agent": this.options.userAgent, Accept: "application/json" },
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (res.ok) return res.json();
+    if (res.status === 404) {
+      throw new OpenFoodFactsError("not_found", "OpenFoodFacts has no such record");
+    }
+    if (res.status === 429 || res.status >= 500) {
+      throw new RetryableResponse(res.status, parseRetryAfter(res.headers.get("Retry-After")));
+    }
+    // other 4xx: our request is wrong; retrying won't help and OFF itself is fine
+    throw new OpenFoodFactsError("bad_request", `OpenFoodFacts rejected the request (${res.status})`, {
+      status: res.status,
+    });
+  }
+
+  /** Full-jitter exponential backoff. */
+  private backoff(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.options;
+    return Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+  }
+}
+
+function describe(err: unknown): string {
+  if (err instanceof Error && err.name === "TimeoutError") return "timed out";
+  return err instanceof Error ? err.message : String(err);
+}
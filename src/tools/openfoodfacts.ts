@@ -10,17 +10,91 @@
  * API docs: https://openfoodfacts.github.io/openfoodfacts-server/api/
  */
 
+import {
+  additiveRefs,
+  findAdditive,
+  indexTaxonomy,
+  snapshotIndex,
+  type AdditiveIndex,
+  type AdditiveInfo,
+  type AdditiveRef,
+} from "./additives";
+import {
+  localOnlyFilters,
+  matchesSearch,
+  parseAdvancedSearch,
+  SEARCH_SORT_ORDERS,
+  searchUrl,
+  sortCandidates,
+  type AdvancedSearch,
+  type SearchCandidate,
+} from "./advanced-search";
+import { normaliseBarcode } from "./barcode";
+import { cachedJson } from "./cache";
+import { DETAIL_LEVELS, parseDetailLevel, productDetails, type ProductDetails } from "./detail";
+import {
+  LOCALE_PARAMETERS,
+  localisedField,
+  localiseUrl,
+  parseLocale,
+  type OffLocale,
+} from "./locale";
+import { OpenFoodFactsClient, OpenFoodFactsError } from "./off-client";
+import {
+  dailyValues,
+  NUTRIENT_KEYS,
+  parseReferenceTable,
+  parseServingSize,
+  REFERENCE_TABLES,
+  scaleNutrients,
+  type DailyValues,
+  type NutrientAmounts,
+  type ReferenceTable,
+} from "./nutrition";
+import { progressCounter } from "./progress";
+import { statelessTool } from "./registry";
+import type { JsonSchema } from "./schema";
+
 const OFF_BASE = "https://world.openfoodfacts.org";
+const OFF_STATIC = "https://static.openfoodfacts.org";
 const USER_AGENT = "NutriAgent/1.0 (cloudflare-agent; contact@nutriagent.dev)";
 
+// one client per isolate, so rate limits and the circuit breaker are shared
+const client = new OpenFoodFactsClient({ userAgent: USER_AGENT });
+
 // ── helpers ────────────────────────────────────────────────────────────────
 
-async function offFetch(url: string): Promise<unknown> {
-  const res = await fetch(url, {
-    headers: { "User-Agent": USER_AGENT, Accept: "application/json" },
+/** GET an OFF endpoint, through the response cache (product lookups, listings, taxonomies). */
+async function offFetch(url: string, signal?: AbortSignal): Promise<unknown> {
+  const kind = url.includes("/api/v2/product/")
+    ? "product"
+    : url.includes("/data/taxonomies/")
+      ? "taxonomy"
+      : "search";
+  return cachedJson(url, kind, (s) => client.getJson(url, s), signal);
+}
+
+function productNotFound(code: string): OpenFoodFactsError {
+  return new OpenFoodFactsError("not_found", `Product not found for barcode ${code}`, {
+    barcode: code,
   });
-  if (!res.ok) throw new Error(`OpenFoodFacts ${res.status}: ${res.statusText}`);
-  return res.json();
+}
+
+/** GET a product record; OFF answers 404 (or `status: 0`) for unknown barcodes. */
+async function fetchProduct(
+  code: string,
+  query: string,
+  signal?: AbortSignal
+): Promise<Record<string, unknown>> {
+  let data: { product?: Record<string, unknown> };
+  try {
+    data = (await offFetch(`${OFF_BASE}/api/v2/product/${code}.json${query}`, signal)) as typeof data;
+  } catch (err) {
+    if (err instanceof OpenFoodFactsError && err.code === "not_found") throw productNotFound(code);
+    throw err;
+  }
+  if (!data.product) throw productNotFound(code);
+  return data.product;
 }
 
 // ── types ──────────────────────────────────────────────────────────────────
@@ -43,6 +117,8 @@ export interface ProductSummary {
   product_name: string;
   brands: string;
   categories: string;
+  /** Category tags, from the most general to the most specific. */
+  categories_tags: string[];
   nutriscore_grade: string;
   nova_group: number | string;
   ecoscore_grade: string;
@@ -50,48 +126,113 @@ export interface ProductSummary {
   nutriments: NutrientInfo;
   ingredients_text: string;
   allergens: string;
+  allergens_tags: string[];
+  traces_tags: string[];
+  /** e.g. `en:non-vegan`, `en:vegetarian`, `en:palm-oil-free` */
+  ingredients_analysis_tags: string[];
   quantity: string;
+  /** Declared serving, e.g. "30 g" or "1 cup (240 ml)". */
+  serving_size: string;
+  /** Grams (or ml) per serving, from OFF or parsed from `serving_size`. */
+  serving_quantity: number | null;
+  /** Grams (or ml) in the whole package, when OFF could derive it. */
+  product_quantity: number | null;
+  /** Core nutrients for one serving, when the serving weight is known. */
+  nutriments_serving: NutrientAmounts | null;
+  /** Nutrients as a percentage of the daily reference intakes. */
+  daily_values: DailyValues;
 }
 
+/** A summary plus the extended fields, returned at `detail: "full"`. */
+export type ProductDetail = ProductSummary &
+  ProductDetails & {
+    /** `additives_tags` linked to the additives taxonomy. */
+    additives: AdditiveRef[];
+  };
+
 // ── normalise a raw OFF product into a lean summary ────────────────────────
 
-function summarise(p: Record<string, unknown>): ProductSummary {
+function summarise(
+  p: Record<string, unknown>,
+  reference: ReferenceTable = "eu",
+  lang?: string
+): ProductSummary {
   const n = (p.nutriments ?? {}) as NutrientInfo;
+  const nutriments: NutrientInfo = {
+    // OFF spells these keys with hyphens
+    energy_kcal_100g: n["energy-kcal_100g" as keyof NutrientInfo] as number | undefined ?? n.energy_kcal_100g,
+    fat_100g: n.fat_100g,
+    saturated_fat_100g: n["saturated-fat_100g" as keyof NutrientInfo] as number | undefined ?? n.saturated_fat_100g,
+    carbohydrates_100g: n.carbohydrates_100g,
+    sugars_100g: n.sugars_100g,
+    fiber_100g: n.fiber_100g,
+    proteins_100g: n.proteins_100g,
+    salt_100g: n.salt_100g,
+    sodium_100g: n.sodium_100g,
+  };
+  const servingSize = String(p.serving_size ?? "");
+  const servingQuantity = positiveNumber(p.serving_quantity) ?? parseServingSize(servingSize);
+  const perServing = servingQuantity ? scaleNutrients(nutriments, servingQuantity) : null;
+
   return {
     code: String(p.code ?? ""),
-    product_name: String(p.product_name ?? p.product_name_en ?? "Unknown"),
+    product_name: localisedField(p, "product_name", lang) ?? "Unknown",
     brands: String(p.brands ?? ""),
     categories: String(p.categories ?? ""),
+    categories_tags: ((p.categories_hierarchy ?? p.categories_tags) as string[]) ?? [],
     nutriscore_grade: String(p.nutriscore_grade ?? "unknown"),
     nova_group: (p.nova_group as number | string) ?? "unknown",
     ecoscore_grade: String(p.ecoscore_grade ?? "unknown"),
     image_url: String(p.image_front_url ?? p.image_url ?? ""),
-    nutriments: {
-      energy_kcal_100g: n.energy_kcal_100g,
-      fat_100g: n.fat_100g,
-      saturated_fat_100g: n["saturated-fat_100g" as keyof NutrientInfo] as number | undefined ?? n.saturated_fat_100g,
-      carbohydrates_100g: n.carbohydrates_100g,
-      sugars_100g: n.sugars_100g,
-      fiber_100g: n.fiber_100g,
-      proteins_100g: n.proteins_100g,
-      salt_100g: n.salt_100g,
-      sodium_100g: n.sodium_100g,
-    },
-    ingredients_text: String(p.ingredients_text ?? p.ingredients_text_en ?? ""),
+    nutriments,
+    ingredients_text: localisedField(p, "ingredients_text", lang) ?? "",
     allergens: String(p.allergens ?? ""),
+    allergens_tags: (p.allergens_tags as string[]) ?? [],
+    traces_tags: (p.traces_tags as string[]) ?? [],
+    ingredients_analysis_tags: (p.ingredients_analysis_tags as string[]) ?? [],
     quantity: String(p.quantity ?? ""),
+    serving_size: servingSize,
+    serving_quantity: servingQuantity,
+    product_quantity: positiveNumber(p.product_quantity),
+    nutriments_serving: perServing,
+    daily_values: dailyValues(scaleNutrients(nutriments, 100), perServing, reference),
   };
 }
 
+/** OFF sends some numeric fields as strings; anything non-positive is unknown. */
+function positiveNumber(value: unknown): number | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
 // ── MCP TOOL 1: lookup by barcode ──────────────────────────────────────────
 
-export async function getProductByBarcode(barcode: string): Promise<ProductSummary> {
-  const data = (await offFetch(
-    `${OFF_BASE}/api/v2/product/${encodeURIComponent(barcode)}.json`
-  )) as { status: number; product?: Record<string, unknown> };
+export async function getProductByBarcode(
+  barcode: string,
+  reference: ReferenceTable = "eu",
+  locale: OffLocale = {},
+  signal?: AbortSignal
+): Promise<ProductSummary> {
+  const { code } = normaliseBarcode(barcode);
+  // a barcode is the same product everywhere: only the language matters, so
+  // the URL (and its cache entry) is shared across locales
+  return summarise(await fetchProduct(code, "", signal), reference, locale.lang);
+}
 
-  if (!data.product) throw new Error(`Product not found for barcode ${barcode}`);
-  return summarise(data.product);
+/** Like `getProductByBarcode`, plus micronutrients, additives, labels and ingredient analysis. */
+export async function getProductDetail(
+  barcode: string,
+  reference: ReferenceTable = "eu",
+  locale: OffLocale = {},
+  signal?: AbortSignal
+): Promise<ProductDetail> {
+  const { code } = normaliseBarcode(barcode);
+  const product = await fetchProduct(code, "", signal);
+  const details = productDetails(product);
+  const additives = details.additives_tags.length
+    ? additiveRefs((await loadAdditives(signal)).index, details.additives_tags)
+    : [];
+  return { ...summarise(product, reference, locale.lang), ...details, additives };
 }
 
 // ── MCP TOOL 2: search products by name / keyword ─────────────────────────
@@ -99,7 +240,10 @@ export async function getProductByBarcode(barcode: string): Promise<ProductSumma
 export async function searchProducts(
   query: string,
   page = 1,
-  pageSize = 5
+  pageSize = 5,
+  reference: ReferenceTable = "eu",
+  locale: OffLocale = {},
+  signal?: AbortSignal
 ): Promise<{ count: number; products: ProductSummary[] }> {
   const url = new URL(`${OFF_BASE}/cgi/search.pl`);
   url.searchParams.set("search_terms", query);
@@ -109,14 +253,62 @@ export async function searchProducts(
   url.searchParams.set("page", String(page));
   url.searchParams.set("page_size", String(pageSize));
 
-  const data = (await offFetch(url.toString())) as {
+  const data = (await offFetch(localiseUrl(url, locale).toString(), signal)) as {
     count: number;
     products: Record<string, unknown>[];
   };
 
   return {
     count: data.count ?? 0,
-    products: (data.products ?? []).map(summarise),
+    products: (data.products ?? []).map((p) => summarise(p, reference, locale.lang)),
+  };
+}
+
+// ── MCP TOOL 2b: structured search with filters ──────────────────────────
+
+export interface AdvancedSearchResult {
+  /** Products matching the filters the API applied, across all pages. */
+  count: number;
+  page: number;
+  /** Products on the API page that passed every filter. */
+  matched_on_page: number;
+  products: SearchCandidate[];
+  filters: {
+    /** Filters sent to OFF (all are re-checked on the returned page). */
+    api: string[];
+    /** Filters (and nutrient sorts) OFF cannot express, applied to the returned page only. */
+    local_only: string[];
+  };
+}
+
+export async function searchProductsAdvanced(
+  search: AdvancedSearch,
+  reference: ReferenceTable = "eu",
+  locale: OffLocale = {},
+  signal?: AbortSignal
+): Promise<AdvancedSearchResult> {
+  // fetch more than asked for: local filtering drops some of the page
+  const pageSize = Math.min(100, Math.max(search.limit * 3, 30));
+  const { url, server } = searchUrl(localiseUrl(new URL(`${OFF_BASE}/api/v2/search`), locale), search, pageSize);
+
+  const data = (await offFetch(url.toString(), signal)) as {
+    count?: number;
+    products?: Record<string, unknown>[];
+  };
+
+  const matched = (data.products ?? [])
+    .map((p) => ({
+      ...summarise(p, reference, locale.lang),
+      labels_tags: Array.isArray(p.labels_tags) ? (p.labels_tags as string[]) : [],
+    }))
+    .filter((p) => matchesSearch(search, p));
+
+  return {
+    count: data.count ?? 0,
+    page: search.page,
+    matched_on_page: matched.length,
+    products: sortCandidates(matched, search.sortBy).slice(0, search.limit),
+    filters: { api: server, local_only: localOnlyFilters(search) },
   };
 }
 
@@ -125,27 +317,67 @@ export async function searchProducts(
 export async function getProductsByCategory(
   category: string,
   page = 1,
-  pageSize = 5
+  pageSize = 5,
+  locale: OffLocale = {},
+  signal?: AbortSignal
 ): Promise<{ count: number; products: ProductSummary[] }> {
   const tag = category.toLowerCase().replace(/\s+/g, "-");
-  const url = `${OFF_BASE}/category/${encodeURIComponent(tag)}.json?page=${page}&page_size=${pageSize}`;
-  const data = (await offFetch(url)) as {
+  const url = new URL(`${OFF_BASE}/category/${encodeURIComponent(tag)}.json`);
+  url.searchParams.set("page", String(page));
+  url.searchParams.set("page_size", String(pageSize));
+  const data = (await offFetch(localiseUrl(url, locale).toString(), signal)) as {
     count: number;
     products: Record<string, unknown>[];
   };
 
   return {
     count: data.count ?? 0,
-    products: (data.products ?? []).map(summarise),
+    products: (data.products ?? []).map((p) => summarise(p, "eu", locale.lang)),
   };
 }
 
+/**
+ * Products tagged with an OFF category tag (e.g. `en:plain-yogurts`), most
+ * scanned first. Used by tools that need a larger pool than a browse page.
+ */
+export async function getProductsByCategoryTag(
+  tag: string,
+  pageSize = 50,
+  locale: OffLocale = {},
+  signal?: AbortSignal
+): Promise<ProductSummary[]> {
+  const url = new URL(`${OFF_BASE}/api/v2/search`);
+  url.searchParams.set("categories_tags", tag);
+  url.searchParams.set("sort_by", "unique_scans_n");
+  url.searchParams.set("page_size", String(pageSize));
+  const data = (await offFetch(localiseUrl(url, locale).toString(), signal)) as {
+    products?: Record<string, unknown>[];
+  };
+  return (data.products ?? []).map((p) => summarise(p, "eu", locale.lang));
+}
+
 // ── MCP TOOL 4: compare Nutri-Score of multiple barcodes ──────────────────
 
 export async function compareProducts(
-  barcodes: string[]
+  barcodes: string[],
+  reference: ReferenceTable = "eu",
+  locale: OffLocale = {},
+  signal?: AbortSignal
 ): Promise<ProductSummary[]> {
-  const results = await Promise.allSettled(barcodes.map(getProductByBarcode));
+  // validate every code up front: a typo fails the call instead of silently dropping a product
+  const codes = barcodes.map((barcode) => normaliseBarcode(barcode).code);
+  const step = progressCounter(signal, codes.length, "products fetched");
+  const results = await Promise.allSettled(
+    codes.map((code) => getProductByBarcode(code, reference, locale, signal).finally(step))
+  );
+  // an aborted comparison is a failure, not a list of missing products
+  signal?.throwIfAborted();
+  // unknown barcodes are dropped, but OFF being down or throttling fails the call
+  const outage = results.find(
+    (r): r is PromiseRejectedResult =>
+      r.status === "rejected" && !(r.reason instanceof OpenFoodFactsError && r.reason.code === "not_found")
+  );
+  if (outage) throw outage.reason;
   return results
     .filter((r): r is PromiseFulfilledResult<ProductSummary> => r.status === "fulfilled")
     .map((r) => r.value);
@@ -153,20 +385,26 @@ export async function compareProducts(
 
 // ── MCP TOOL 5: get allergen info for a barcode ───────────────────────────
 
-export async function getAllergenInfo(barcode: string): Promise<{
+export async function getAllergenInfo(
+  barcode: string,
+  locale: OffLocale = {},
+  signal?: AbortSignal
+): Promise<{
   product_name: string;
   allergens: string;
   allergens_tags: string[];
   traces: string;
   traces_tags: string[];
 }> {
-  const data = (await offFetch(
-    `${OFF_BASE}/api/v2/product/${encodeURIComponent(barcode)}.json?fields=product_name,allergens,allergens_tags,traces,traces_tags`
-  )) as { product?: Record<string, unknown> };
-
-  const p = data.product ?? {};
+  const { code } = normaliseBarcode(barcode);
+  const names = ["product_name", locale.lang && `product_name_${locale.lang}`, "product_name_en"];
+  const p = await fetchProduct(
+    code,
+    `?fields=${[...names.filter(Boolean), "allergens", "allergens_tags", "traces", "traces_tags"].join(",")}`,
+    signal
+  );
   return {
-    product_name: String(p.product_name ?? "Unknown"),
+    product_name: localisedField(p, "product_name", locale.lang) ?? "Unknown",
     allergens: String(p.allergens ?? ""),
     allergens_tags: (p.allergens_tags as string[]) ?? [],
     traces: String(p.traces ?? ""),
@@ -174,123 +412,330 @@ export async function getAllergenInfo(barcode: string): Promise<{
   };
 }
 
-// ── OpenAI-style tool definitions (for function-calling) ──────────────────
-
-export const TOOL_DEFINITIONS = [
-  {
-    type: "function" as const,
-    function: {
-      name: "get_product_by_barcode",
-      description:
-        "Look up a food product by its barcode (EAN/UPC). Returns full nutritional facts, Nutri-Score, ingredients, allergens.",
-      parameters: {
-        type: "object",
-        properties: {
-          barcode: {
-            type: "string",
-            description: "The product barcode (EAN-13 or UPC-A), e.g. '3017620422003' for Nutella",
-          },
+// ── MCP TOOL 6: food additive (E-number) info ─────────────────────────────
+
+// the taxonomy is ~2 MB of JSON: keep the parsed index for an hour per isolate
+const ADDITIVES_INDEX_TTL_MS = 60 * 60 * 1000;
+let additivesIndex: { index: AdditiveIndex; loadedAt: number } | null = null;
+
+/** The additives taxonomy index, or the bundled snapshot when OFF cannot be reached. */
+async function loadAdditives(
+  signal?: AbortSignal
+): Promise<{ index: AdditiveIndex; source: AdditiveInfo["source"] }> {
+  if (additivesIndex && Date.now() - additivesIndex.loadedAt < ADDITIVES_INDEX_TTL_MS) {
+    return { index: additivesIndex.index, source: "openfoodfacts" };
+  }
+  try {
+    const index = indexTaxonomy(await offFetch(`${OFF_STATIC}/data/taxonomies/additives.json`, signal));
+    if (index.size === 0) throw new Error("additives taxonomy is empty");
+    additivesIndex = { index, loadedAt: Date.now() };
+    return { index, source: "openfoodfacts" };
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn("[off] additives taxonomy unavailable, using the bundled snapshot:", err);
+    return { index: snapshotIndex(), source: "snapshot" };
+  }
+}
+
+export async function getAdditiveInfo(additive: string, signal?: AbortSignal): Promise<AdditiveInfo> {
+  if (!additive?.trim()) throw new Error("additive must be an E-number or additive name");
+  const { index, source } = await loadAdditives(signal);
+  const info = findAdditive(index, additive);
+  if (!info) {
+    throw new OpenFoodFactsError(
+      "not_found",
+      source === "snapshot"
+        ? `No additive matches "${additive}" (OpenFoodFacts is unreachable; only common additives are available offline)`
+        : `No additive matches "${additive}"`,
+      { additive }
+    );
+  }
+  return info;
+}
+
+// ── output schemas ─────────────────────────────────────────────────────────
+
+const STRING_LIST = { type: "array", items: { type: "string" } } as const;
+
+const PRODUCT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    code: { type: "string" },
+    product_name: { type: "string" },
+    brands: { type: "string" },
+    categories: { type: "string" },
+    categories_tags: STRING_LIST,
+    nutriscore_grade: { type: "string" },
+    nova_group: { type: ["integer", "string"] },
+    ecoscore_grade: { type: "string" },
+    image_url: { type: "string" },
+    nutriments: { type: "object", description: "Per-100g values, e.g. sugars_100g" },
+    ingredients_text: { type: "string" },
+    allergens: { type: "string" },
+    allergens_tags: STRING_LIST,
+    traces_tags: STRING_LIST,
+    ingredients_analysis_tags: STRING_LIST,
+    quantity: { type: "string" },
+    serving_size: { type: "string" },
+    serving_quantity: { type: ["number", "null"] },
+    product_quantity: { type: ["number", "null"] },
+    nutriments_serving: { type: ["object", "null"] },
+    daily_values: { type: "object", description: "% of the daily reference intakes, per 100g and per serving" },
+  },
+  required: ["code", "product_name", "nutriments", "daily_values"],
+};
+
+const PRODUCT_LIST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    count: { type: "number", description: "Matching products across all pages" },
+    products: { type: "array", items: PRODUCT_SCHEMA },
+  },
+  required: ["count", "products"],
+};
+
+// ── tool specs ─────────────────────────────────────────────────────────────
+
+type LocaleArgs = { country?: string; lang?: string };
+
+const REFERENCE_PARAMETER = {
+  type: "string",
+  enum: REFERENCE_TABLES,
+  description: "Daily reference table for % values: 'eu' Reference Intakes (default) or 'us' FDA Daily Values",
+} as const;
+
+export const OFF_TOOLS = [
+  statelessTool<{ barcode: string; reference?: ReferenceTable; detail?: string } & LocaleArgs>({
+    name: "get_product_by_barcode",
+    description:
+      "Look up a food product by its barcode (EAN/UPC). Returns full nutritional facts per 100g and per serving, % daily reference intake, Nutri-Score, ingredients, allergens. " +
+      "Set detail 'full' for vitamins and minerals, additives, labels, nutrient levels and vegan / vegetarian / palm-oil analysis.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        barcode: {
+          type: "string",
+          description: "The product barcode (EAN-13 or UPC-A), e.g. '3017620422003' for Nutella",
+        },
+        reference: REFERENCE_PARAMETER,
+        detail: {
+          type: "string",
+          enum: DETAIL_LEVELS,
+          description: "'summary' (default) or 'full' to add micronutrients, additives, labels and ingredient analysis",
         },
-        required: ["barcode"],
+        ...LOCALE_PARAMETERS,
       },
+      required: ["barcode"],
     },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "search_products",
-      description:
-        "Search the OpenFoodFacts database by product name or keyword. Returns a list of matching products with nutritional info.",
-      parameters: {
-        type: "object",
-        properties: {
-          query: { type: "string", description: "Product name or keyword to search for" },
-          page: { type: "number", description: "Page number (default 1)" },
-          page_size: { type: "number", description: "Results per page, max 50 (default 5)" },
-        },
-        required: ["query"],
+    outputSchema: {
+      ...PRODUCT_SCHEMA,
+      description: "At detail 'full' also micronutrients, additives, labels_tags, nutrient_levels and ingredients_analysis",
+    },
+    handler: (args, signal) =>
+      (parseDetailLevel(args.detail) === "full" ? getProductDetail : getProductByBarcode)(
+        args.barcode,
+        parseReferenceTable(args.reference),
+        parseLocale(args),
+        signal
+      ),
+  }),
+  statelessTool<{ query: string; page?: number; page_size?: number; reference?: ReferenceTable } & LocaleArgs>({
+    name: "search_products",
+    description:
+      "Search the OpenFoodFacts database by product name or keyword. Returns a list of matching products with nutritional info.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Product name or keyword to search for" },
+        page: { type: "integer", minimum: 1, description: "Page number (default 1)" },
+        page_size: { type: "integer", minimum: 1, maximum: 50, description: "Results per page, max 50 (default 5)" },
+        reference: REFERENCE_PARAMETER,
+        ...LOCALE_PARAMETERS,
       },
+      required: ["query"],
     },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "get_products_by_category",
-      description:
-        "Browse products in a specific food category, e.g. 'breakfast-cereals', 'yogurts', 'sodas'.",
-      parameters: {
-        type: "object",
-        properties: {
-          category: { type: "string", description: "Food category name" },
-          page: { type: "number", description: "Page number (default 1)" },
-          page_size: { type: "number", description: "Results per page (default 5)" },
+    outputSchema: PRODUCT_LIST_SCHEMA,
+    handler: (args, signal) =>
+      searchProducts(
+        args.query,
+        args.page ?? 1,
+        args.page_size ?? 5,
+        parseReferenceTable(args.reference),
+        parseLocale(args),
+        signal
+      ),
+  }),
+  statelessTool<{ reference?: ReferenceTable } & LocaleArgs>({
+    name: "search_products_advanced",
+    description:
+      "Search products with structured filters instead of keywords: categories, brands, Nutri-Score / NOVA / Eco-Score " +
+      "ranges, per-100g nutrient bounds, allergens and labels to require or exclude, and a sort order. " +
+      "Use for requests like 'breakfast cereals with Nutri-Score A or B, under 5 g sugar, gluten-free'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description:
+            "Words that must appear in the product name or brand; needs another filter (use search_products for keywords alone)",
         },
-        required: ["category"],
+        categories: {
+          ...STRING_LIST,
+          description: "Categories the product must be in, e.g. ['breakfast cereals'] or ['en:plain-yogurts']",
+        },
+        brands: { ...STRING_LIST, description: "Any of these brands" },
+        nutriscore: { type: "string", description: "Nutri-Score grade or range, e.g. 'a' or 'a-b'" },
+        nova: { type: "string", description: "NOVA group or range, e.g. '1-2'" },
+        ecoscore: { type: "string", description: "Eco-Score grade or range, e.g. 'a-b'" },
+        nutrients: {
+          type: "array",
+          description: "Per-100g bounds, e.g. [{ nutrient: 'sugars', max: 5 }]",
+          items: {
+            type: "object",
+            properties: {
+              nutrient: { type: "string", enum: NUTRIENT_KEYS },
+              min: { type: "number" },
+              max: { type: "number" },
+            },
+            required: ["nutrient"],
+          },
+        },
+        include_allergens: { ...STRING_LIST, description: "Allergens the product must contain" },
+        exclude_allergens: {
+          ...STRING_LIST,
+          description: "Allergens the product must not contain or have traces of, e.g. ['gluten']",
+        },
+        include_labels: {
+          ...STRING_LIST,
+          description: "Labels the product must have, e.g. ['organic', 'gluten-free', 'fair-trade']",
+        },
+        exclude_labels: { ...STRING_LIST, description: "Labels the product must not have" },
+        sort_by: {
+          type: "string",
+          enum: SEARCH_SORT_ORDERS,
+          description:
+            "popularity (default), newest, nutriscore / nova / ecoscore (best first), or a nutrient (lowest first; proteins and fiber highest first; orders the returned page only)",
+        },
+        page: { type: "integer", minimum: 1, description: "API page number (default 1)" },
+        limit: { type: "integer", minimum: 1, maximum: 50, description: "Products to return, max 50 (default 10)" },
+        reference: REFERENCE_PARAMETER,
+        ...LOCALE_PARAMETERS,
       },
     },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "compare_products",
-      description:
-        "Compare nutritional facts and Nutri-Score across multiple products by their barcodes.",
-      parameters: {
-        type: "object",
-        properties: {
-          barcodes: {
-            type: "array",
-            items: { type: "string" },
-            description: "Array of barcodes to compare",
-          },
+    outputSchema: {
+      type: "object",
+      properties: {
+        count: { type: "number", description: "Products matching the filters OFF applied, across all pages" },
+        page: { type: "integer" },
+        matched_on_page: { type: "integer", description: "Products on the API page that passed every filter" },
+        products: { type: "array", items: PRODUCT_SCHEMA },
+        filters: {
+          type: "object",
+          properties: { api: STRING_LIST, local_only: STRING_LIST },
         },
-        required: ["barcodes"],
       },
+      required: ["count", "page", "matched_on_page", "products", "filters"],
     },
-  },
-  {
-    type: "function" as const,
-    function: {
-      name: "get_allergen_info",
-      description:
-        "Get allergen and trace information for a product by barcode. Useful for dietary restriction checks.",
-      parameters: {
-        type: "object",
-        properties: {
-          barcode: { type: "string", description: "Product barcode" },
+    handler: (args, signal) =>
+      searchProductsAdvanced(parseAdvancedSearch(args), parseReferenceTable(args.reference), parseLocale(args), signal),
+  }),
+  statelessTool<{ category: string; page?: number; page_size?: number } & LocaleArgs>({
+    name: "get_products_by_category",
+    description: "Browse products in a specific food category, e.g. 'breakfast-cereals', 'yogurts', 'sodas'.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        category: { type: "string", description: "Food category name" },
+        page: { type: "integer", minimum: 1, description: "Page number (default 1)" },
+        page_size: { type: "integer", minimum: 1, maximum: 50, description: "Results per page, max 50 (default 5)" },
+        ...LOCALE_PARAMETERS,
+      },
+      required: ["category"],
+    },
+    outputSchema: PRODUCT_LIST_SCHEMA,
+    handler: (args, signal) =>
+      getProductsByCategory(args.category, args.page ?? 1, args.page_size ?? 5, parseLocale(args), signal),
+  }),
+  statelessTool<{ barcodes: string[]; reference?: ReferenceTable } & LocaleArgs>({
+    name: "compare_products",
+    description: "Compare nutritional facts and Nutri-Score across multiple products by their barcodes.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        barcodes: { ...STRING_LIST, minItems: 1, description: "Array of barcodes to compare" },
+        reference: REFERENCE_PARAMETER,
+        ...LOCALE_PARAMETERS,
+      },
+      required: ["barcodes"],
+    },
+    outputSchema: {
+      type: "array",
+      description: "The products found; unknown barcodes are left out",
+      items: PRODUCT_SCHEMA,
+    },
+    handler: (args, signal) =>
+      compareProducts(args.barcodes, parseReferenceTable(args.reference), parseLocale(args), signal),
+  }),
+  statelessTool<{ barcode: string } & LocaleArgs>({
+    name: "get_allergen_info",
+    description:
+      "Get allergen and trace information for a product by barcode. Useful for dietary restriction checks.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        barcode: { type: "string", description: "Product barcode" },
+        ...LOCALE_PARAMETERS,
+      },
+      required: ["barcode"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        product_name: { type: "string" },
+        allergens: { type: "string" },
+        allergens_tags: STRING_LIST,
+        traces: { type: "string" },
+        traces_tags: STRING_LIST,
+      },
+      required: ["product_name", "allergens_tags", "traces_tags"],
+    },
+    handler: (args, signal) => getAllergenInfo(args.barcode, parseLocale(args), signal),
+  }),
+  statelessTool<{ additive: string }>({
+    name: "get_additive_info",
+    description:
+      "Look up a food additive by E-number (e.g. 'E471') or name: its name, function class, vegan / vegetarian status " +
+      "and EFSA evaluation (ADI, overexposure risk). Use instead of answering about additives from memory.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        additive: { type: "string", description: "E-number or additive name, e.g. 'E471' or 'carrageenan'" },
+      },
+      required: ["additive"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        tag: { type: "string" },
+        code: { type: "string" },
+        name: { type: "string" },
+        classes: STRING_LIST,
+        vegan: { type: "string", enum: ["yes", "no", "maybe", "unknown"] },
+        vegetarian: { type: "string", enum: ["yes", "no", "maybe", "unknown"] },
+        efsa: {
+          type: ["object", "null"],
+          properties: {
+            summary: { type: "string" },
+            adi: { type: "string" },
+            overexposure_risk: { type: "string" },
+            date: { type: "string" },
+            url: { type: "string" },
+          },
         },
-        required: ["barcode"],
+        source: { type: "string", enum: ["openfoodfacts", "snapshot"] },
       },
+      required: ["tag", "code", "name", "classes", "vegan", "vegetarian", "efsa", "source"],
     },
-  },
-] as const;
-
-// ── dispatcher: route tool calls from the LLM to the right function ───────
-
-export async function dispatchTool(
-  name: string,
-  args: Record<string, unknown>
-): Promise<unknown> {
-  switch (name) {
-    case "get_product_by_barcode":
-      return getProductByBarcode(args.barcode as string);
-    case "search_products":
-      return searchProducts(
-        args.query as string,
-        (args.page as number) ?? 1,
-        (args.page_size as number) ?? 5
-      );
-    case "get_products_by_category":
-      return getProductsByCategory(
-        args.category as string,
-        (args.page as number) ?? 1,
-        (args.page_size as number) ?? 5
-      );
-    case "compare_products":
-      return compareProducts(args.barcodes as string[]);
-    case "get_allergen_info":
-      return getAllergenInfo(args.barcode as string);
-    default:
-      throw new Error(`Unknown tool: ${name}`);
-  }
-}
+    handler: (args, signal) => getAdditiveInfo(args.additive, signal),
+  }),
+];
@@ -0,0 +1,84 @@
+/**
+ * Dietary profile tools
+ *
+ * @developer Eduardo Arana
+ *
+ * Tool definitions for reading and updating the user's stored dietary
+ * profile. Unlike the OpenFoodFacts tools these operate on per-user state,
+ * so they are executed by the user's NutriAgent instance (see
+ * `src/agent/agent-tools.ts`) rather than in-process by the MCP server.
+ */
+
+import { DIET_TYPES, parseProfileUpdate, UNITS } from "../agent/profile";
+import { agentTool } from "./registry";
+import type { JsonSchema } from "./schema";
+
+const PROFILE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    allergies: { type: "array", items: { type: "string" } },
+    intolerances: { type: "array", items: { type: "string" } },
+    diet: { type: "string", enum: DIET_TYPES },
+    calorieGoal: { type: ["number", "null"] },
+    units: { type: "string", enum: UNITS },
+    country: { type: ["string", "null"] },
+    language: { type: ["string", "null"] },
+    updatedAt: { type: ["integer", "null"], description: "Epoch milliseconds of the last change" },
+  },
+  required: ["allergies", "intolerances", "diet", "calorieGoal", "units", "country", "language", "updatedAt"],
+};
+
+export const PROFILE_TOOLS = [
+  agentTool({
+    name: "get_dietary_profile",
+    description:
+      "Get the user's stored dietary profile: allergies, intolerances, diet type, daily calorie goal, preferred units, country and language.",
+    inputSchema: { type: "object", properties: {} },
+    outputSchema: PROFILE_SCHEMA,
+    handler: (_args, ctx) => ctx.profiles.get(),
+  }),
+  agentTool({
+    name: "update_dietary_profile",
+    description:
+      "Update the user's stored dietary profile when they state an allergy, intolerance, diet, calorie goal, unit preference, " +
+      "country or language. " +
+      "Only the fields given are changed; list fields replace the stored list, so include existing entries you want to keep.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        allergies: {
+          type: "array",
+          items: { type: "string" },
+          description: "Declared allergies, e.g. ['peanuts', 'sesame']",
+        },
+        intolerances: {
+          type: "array",
+          items: { type: "string" },
+          description: "Declared intolerances, e.g. ['lactose', 'gluten']",
+        },
+        diet: { type: "string", enum: DIET_TYPES, description: "Diet type" },
+        calorie_goal: {
+          type: ["number", "null"],
+          minimum: 500,
+          maximum: 10_000,
+          description: "Daily energy goal in kcal (null clears it)",
+        },
+        units: { type: "string", enum: UNITS, description: "Preferred units" },
+        country: {
+          type: ["string", "null"],
+          description: "ISO country code whose products to show by default, e.g. 'es' ('world' for all)",
+        },
+        language: {
+          type: ["string", "null"],
+          description: "ISO language code for product names and ingredients, e.g. 'fr'",
+        },
+      },
+    },
+    outputSchema: PROFILE_SCHEMA,
+    handler: (args, ctx) => {
+      const profile = ctx.profiles.update(parseProfileUpdate(args));
+      ctx.onProfileChange?.(profile);
+      return profile;
+    },
+  }),
+];
@@ -0,0 +1,46 @@
+/**
+ * Tool progress reports
+ *
+ * @developer Eduardo Arana
+ *
+ * Tools that fan out over many lookups (comparing products, resolving a
+ * recipe's ingredients) report how far along they are. Like cache reports
+ * (see `./cache`), progress is tracked per tool call by the call's
+ * AbortSignal: `trackProgress(signal, listener)` subscribes to a call, and
+ * the tool reports through the signal it was handed, so handler signatures
+ * stay the same. The MCP server turns the reports into
+ * `notifications/progress`.
+ */
+
+export interface ProgressUpdate {
+  /** Steps done so far; increases with every report. */
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+const listeners = new WeakMap<AbortSignal, (update: ProgressUpdate) => void>();
+
+/** Hear the progress reported by the tool call running with `signal`. */
+export function trackProgress(signal: AbortSignal, listener: (update: ProgressUpdate) => void): void {
+  listeners.set(signal, listener);
+}
+
+/** Report progress on the call running with `signal`; a no-op when nobody tracks it. */
+export function reportProgress(signal: AbortSignal | undefined, update: ProgressUpdate): void {
+  const listener = signal && listeners.get(signal);
+  if (listener && !signal.aborted) listener(update);
+}
+
+/** A step counter out of `total`: each call reports one more step done, e.g. "2 of 5 products fetched". */
+export function progressCounter(
+  signal: AbortSignal | undefined,
+  total: number,
+  noun: string
+): () => void {
+  let done = 0;
+  return () => {
+    done++;
+    reportProgress(signal, { progress: done, total, message: `${done} of ${total} ${noun}` });
+  };
+}
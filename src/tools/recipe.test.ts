@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { calculateRecipeNutrition, parseRecipeArgs } from "./recipe";
+
+vi.mock("cloudflare:workers", () => ({ waitUntil: () => {} }));
+
+const FLOUR = "3017620422003";
+const BAR = "96385074";
+
+/** OpenFoodFacts product records by barcode. */
+const PRODUCTS: Record<string, Record<string, unknown>> = {
+  [FLOUR]: {
+    code: FLOUR,
+    product_name: "Wheat flour",
+    nutriments: { "energy-kcal_100g": 364, carbohydrates_100g: 76, proteins_100g: 10 },
+  },
+  [BAR]: {
+    code: BAR,
+    product_name: "Cereal bar",
+    serving_size: "1 bar (25 g)",
+    nutriments: { "energy-kcal_100g": 400, sugars_100g: 30 },
+  },
+};
+
+beforeEach(() => {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) => {
+      const code = new URL(url).pathname.split("/").pop()!.replace(".json", "");
+      const product = PRODUCTS[code];
+      return product ? Response.json({ status: 1, product }) : Response.json({ status: 0 }, { status: 404 });
+    })
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("parseRecipeArgs", () => {
+  it("normalises unit aliases and defaults to one serving in grams", () => {
+    const { ingredients, servings, invalid } = parseRecipeArgs({
+      ingredients: [
+        { name: "flour", quantity: 2, unit: "Cups" },
+        { name: "milk", quantity: 1, unit: "fl oz" },
+        { barcode: FLOUR, quantity: 100 },
+      ],
+    });
+
+    expect(ingredients.map((i) => i.unit)).toEqual(["cup", "fl_oz", "g"]);
+    expect(servings).toBe(1);
+    expect(invalid).toEqual([]);
+  });
+
+  it("reports malformed ingredients instead of throwing", () => {
+    const { ingredients, invalid } = parseRecipeArgs({
+      ingredients: [
+        { quantity: 1, unit: "g" },
+        { name: "eggs", quantity: 0, unit: "piece" },
+        { name: "salt", quantity: 1, unit: "pinch" },
+        { name: "sugar", quantity: 50, unit: "g" },
+      ],
+    });
+
+    expect(ingredients).toHaveLength(1);
+    expect(invalid.map((i) => i.reason)).toEqual([
+      "needs a barcode or a name",
+      "quantity must be a positive number",
+      expect.stringContaining('unknown unit "pinch"'),
+    ]);
+  });
+
+  it("rejects an empty recipe and bad servings", () => {
+    expect(() => parseRecipeArgs({ ingredients: [] })).toThrow("non-empty list");
+    expect(() => parseRecipeArgs({ ingredients: [{ name: "x", quantity: 1 }], servings: 0 })).toThrow(
+      "servings must be a positive number"
+    );
+  });
+});
+
+describe("calculateRecipeNutrition", () => {
+  it("converts mass, volume and counted units to grams and sums per serving and per 100 g", async () => {
+    const result = await calculateRecipeNutrition({
+      servings: 2,
+      ingredients: [
+        { barcode: FLOUR, quantity: 1, unit: "cup", name: "flour" },
+        { barcode: BAR, quantity: 2, unit: "pieces" },
+        { barcode: FLOUR, quantity: 0.1, unit: "kg" },
+      ],
+    });
+
+    expect(result.ingredients.map((i) => [i.grams, i.note])).toEqual([
+      [130.1, "cup converted at ~0.55 g/ml"],
+      [50, "1 piece = 25 g"],
+      [100, undefined],
+    ]);
+    expect(result.total_weight_g).toBe(280.1);
+    expect(result.per_recipe.energy_kcal).toBe(1037.7);
+    expect(result.per_serving.energy_kcal).toBe(518.9);
+    expect(result.per_100g.energy_kcal).toBe(370.5);
+    expect(result.ingredients[1].missing_nutrients).toContain("proteins");
+    expect(result.unresolved).toEqual([]);
+  });
+
+  it("reports ingredients it cannot weigh or find", async () => {
+    const result = await calculateRecipeNutrition({
+      ingredients: [
+        { barcode: FLOUR, quantity: 1, unit: "serving" },
+        { barcode: "4006381333931", quantity: 10, unit: "g" },
+      ],
+    });
+
+    expect(result.ingredients).toEqual([]);
+    expect(result.unresolved.map((u) => u.reason)).toEqual([
+      expect.stringContaining("has no serving weight"),
+      expect.any(String),
+    ]);
+    expect(result.per_100g.energy_kcal).toBe(0);
+  });
+});
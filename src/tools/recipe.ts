@@ -0,0 +1,390 @@
+/**
+ * Recipe nutrition calculator
+ *
+ * @developer Eduardo Arana
+ *
+ * Resolves a recipe's ingredients against OpenFoodFacts (by barcode, or by
+ * name via search), converts each quantity to grams and sums the per-100g
+ * nutrients into per-recipe, per-serving and per-100g totals. Ingredients
+ * that cannot be resolved or converted are reported instead of failing the
+ * whole recipe.
+ */
+
+import { LOCALE_PARAMETERS, parseLocale, type OffLocale } from "./locale";
+import { NUTRIENT_KEYS, scaleNutrients, type NutrientKey } from "./nutrition";
+import { getProductByBarcode, searchProducts, type ProductSummary } from "./openfoodfacts";
+import { progressCounter } from "./progress";
+import { statelessTool } from "./registry";
+import type { JsonSchema } from "./schema";
+
+// ── units ──────────────────────────────────────────────────────────────────
+
+/** Grams per unit. */
+const MASS_UNITS: Record<string, number> = {
+  g: 1,
+  kg: 1000,
+  mg: 0.001,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+/** Millilitres per unit (US customary cup / spoons / fl oz). */
+const VOLUME_UNITS: Record<string, number> = {
+  ml: 1,
+  cl: 10,
+  dl: 100,
+  l: 1000,
+  tsp: 4.93,
+  tbsp: 14.79,
+  cup: 236.6,
+  fl_oz: 29.57,
+};
+
+/** Counted units, weighed with the product's serving or package quantity. */
+const COUNT_UNITS = ["piece", "serving", "package"] as const;
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: "g",
+  grams: "g",
+  kilogram: "kg",
+  kilograms: "kg",
+  ounce: "oz",
+  ounces: "oz",
+  pound: "lb",
+  pounds: "lb",
+  lbs: "lb",
+  millilitre: "ml",
+  milliliter: "ml",
+  litre: "l",
+  liter: "l",
+  teaspoon: "tsp",
+  tablespoon: "tbsp",
+  cups: "cup",
+  "fl oz": "fl_oz",
+  "fluid ounce": "fl_oz",
+  pieces: "piece",
+  pcs: "piece",
+  pc: "piece",
+  whole: "piece",
+  servings: "serving",
+  packages: "package",
+  pack: "package",
+  can: "package",
+  bottle: "package",
+};
+
+export const RECIPE_UNITS = [
+  ...Object.keys(MASS_UNITS),
+  ...Object.keys(VOLUME_UNITS),
+  ...COUNT_UNITS,
+];
+
+function normaliseUnit(unit: unknown): string {
+  const u = String(unit ?? "g").trim().toLowerCase().replace(/\.$/, "");
+  return UNIT_ALIASES[u] ?? UNIT_ALIASES[u.replace(/s$/, "")] ?? u;
+}
+
+/**
+ * Approximate densities (g/ml) for ingredients commonly measured by volume;
+ * anything else is assumed to weigh like water.
+ */
+const DENSITIES: [RegExp, number][] = [
+  [/flour|cocoa|powder/, 0.55],
+  [/icing sugar|powdered sugar/, 0.56],
+  [/sugar/, 0.85],
+  [/oat|flake|cereal/, 0.38],
+  [/rice|lentil|quinoa/, 0.85],
+  [/oil/, 0.92],
+  [/butter|margarine/, 0.96],
+  [/honey|syrup|molasses/, 1.4],
+  [/milk|yogh?urt|cream/, 1.03],
+  [/salt/, 1.2],
+];
+
+function densityOf(name: string): { density: number; assumed: boolean } {
+  const match = DENSITIES.find(([pattern]) => pattern.test(name.toLowerCase()));
+  return match ? { density: match[1], assumed: false } : { density: 1, assumed: true };
+}
+
+// ── nutrients ──────────────────────────────────────────────────────────────
+
+export type RecipeNutrients = Record<NutrientKey, number>;
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+function zero(): RecipeNutrients {
+  return Object.fromEntries(NUTRIENT_KEYS.map((k) => [k, 0])) as RecipeNutrients;
+}
+
+function scale(n: RecipeNutrients, factor: number): RecipeNutrients {
+  return Object.fromEntries(NUTRIENT_KEYS.map((k) => [k, round(n[k] * factor)])) as RecipeNutrients;
+}
+
+// ── input ──────────────────────────────────────────────────────────────────
+
+export interface RecipeIngredient {
+  barcode?: string;
+  name?: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface ResolvedIngredient {
+  ingredient: string;
+  code: string;
+  product_name: string;
+  grams: number;
+  nutrients: RecipeNutrients;
+  /** Nutrients the product record lacks (counted as 0). */
+  missing_nutrients?: NutrientKey[];
+  /** Conversions that rest on an assumption, e.g. a volume weighed like water. */
+  note?: string;
+}
+
+export interface UnresolvedIngredient {
+  ingredient: string;
+  reason: string;
+}
+
+export interface RecipeNutrition {
+  servings: number;
+  total_weight_g: number;
+  per_recipe: RecipeNutrients;
+  per_serving: RecipeNutrients;
+  per_100g: RecipeNutrients;
+  ingredients: ResolvedIngredient[];
+  unresolved: UnresolvedIngredient[];
+}
+
+function label(i: RecipeIngredient): string {
+  return `${i.quantity} ${i.unit} ${i.name ?? i.barcode ?? "?"}`;
+}
+
+/** Validate the tool arguments; malformed ingredients are reported, not thrown. */
+export function parseRecipeArgs(args: Record<string, unknown>): {
+  ingredients: RecipeIngredient[];
+  servings: number;
+  invalid: UnresolvedIngredient[];
+} {
+  if (!Array.isArray(args.ingredients) || args.ingredients.length === 0) {
+    throw new Error("ingredients must be a non-empty list");
+  }
+  if (args.ingredients.length > 30) throw new Error("A recipe can have at most 30 ingredients");
+
+  const servings = args.servings === undefined ? 1 : Number(args.servings);
+  if (!Number.isFinite(servings) || servings <= 0) {
+    throw new Error("servings must be a positive number");
+  }
+
+  const ingredients: RecipeIngredient[] = [];
+  const invalid: UnresolvedIngredient[] = [];
+  for (const raw of args.ingredients as Record<string, unknown>[]) {
+    const ingredient: RecipeIngredient = {
+      barcode: raw?.barcode ? String(raw.barcode).trim() : undefined,
+      name: raw?.name ? String(raw.name).trim() : undefined,
+      quantity: Number(raw?.quantity),
+      unit: normaliseUnit(raw?.unit),
+    };
+    if (!ingredient.barcode && !ingredient.name) {
+      invalid.push({ ingredient: JSON.stringify(raw), reason: "needs a barcode or a name" });
+    } else if (!Number.isFinite(ingredient.quantity) || ingredient.quantity <= 0) {
+      invalid.push({ ingredient: label(ingredient), reason: "quantity must be a positive number" });
+    } else if (!RECIPE_UNITS.includes(ingredient.unit)) {
+      invalid.push({
+        ingredient: label(ingredient),
+        reason: `unknown unit "${ingredient.unit}" (use one of: ${RECIPE_UNITS.join(", ")})`,
+      });
+    } else {
+      ingredients.push(ingredient);
+    }
+  }
+  return { ingredients, servings, invalid };
+}
+
+// ── resolution ─────────────────────────────────────────────────────────────
+
+async function findProduct(
+  i: RecipeIngredient,
+  locale: OffLocale,
+  signal?: AbortSignal
+): Promise<ProductSummary> {
+  if (i.barcode) return getProductByBarcode(i.barcode, "eu", locale, signal);
+
+  const { products } = await searchProducts(i.name!, 1, 5, "eu", locale, signal);
+  // prefer a match that actually carries energy data
+  const product =
+    products.find((p) => typeof p.nutriments.energy_kcal_100g === "number") ?? products[0];
+  if (!product) throw new Error(`No product found for "${i.name}"`);
+  return product;
+}
+
+/** Convert the ingredient's quantity to grams using the product's data where needed. */
+function toGrams(i: RecipeIngredient, product: ProductSummary): { grams: number; note?: string } {
+  if (i.unit in MASS_UNITS) return { grams: i.quantity * MASS_UNITS[i.unit] };
+
+  if (i.unit in VOLUME_UNITS) {
+    const { density, assumed } = densityOf(`${i.name ?? ""} ${product.product_name}`);
+    return {
+      grams: i.quantity * VOLUME_UNITS[i.unit] * density,
+      note: assumed
+        ? `${i.unit} converted assuming 1 g/ml`
+        : `${i.unit} converted at ~${density} g/ml`,
+    };
+  }
+
+  const per = i.unit === "package" ? product.product_quantity : product.serving_quantity;
+  if (!per) {
+    throw new Error(
+      `${product.product_name} has no ${i.unit === "package" ? "package" : "serving"} weight — give the quantity in g or ml`
+    );
+  }
+  return { grams: i.quantity * per, note: `1 ${i.unit} = ${per} g` };
+}
+
+async function resolve(
+  i: RecipeIngredient,
+  locale: OffLocale,
+  signal?: AbortSignal
+): Promise<ResolvedIngredient> {
+  const product = await findProduct(i, locale, signal);
+  const { grams, note } = toGrams(i, product);
+
+  const scaled = scaleNutrients(product.nutriments, grams);
+  const nutrients = { ...zero(), ...scaled };
+  const missing = NUTRIENT_KEYS.filter((k) => scaled[k] === undefined);
+  if (missing.length === NUTRIENT_KEYS.length) {
+    throw new Error(`${product.product_name} has no nutrition data`);
+  }
+
+  return {
+    ingredient: label(i),
+    code: product.code,
+    product_name: product.product_name,
+    grams: round(grams),
+    nutrients,
+    ...(missing.length ? { missing_nutrients: missing } : {}),
+    ...(note ? { note } : {}),
+  };
+}
+
+// ── MCP TOOL: calculate recipe nutrition ───────────────────────────────────
+
+export async function calculateRecipeNutrition(
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<RecipeNutrition> {
+  const { ingredients, servings, invalid } = parseRecipeArgs(args);
+  const locale = parseLocale(args);
+
+  const step = progressCounter(signal, ingredients.length, "ingredients resolved");
+  const results = await Promise.allSettled(ingredients.map((i) => resolve(i, locale, signal).finally(step)));
+  signal?.throwIfAborted();
+
+  const resolved: ResolvedIngredient[] = [];
+  const unresolved = [...invalid];
+  results.forEach((r, idx) => {
+    if (r.status === "fulfilled") resolved.push(r.value);
+    else {
+      const reason = r.reason instanceof Error ? r.reason.message : String(r.reason);
+      unresolved.push({ ingredient: label(ingredients[idx]), reason });
+    }
+  });
+
+  const total = zero();
+  let weight = 0;
+  for (const r of resolved) {
+    weight += r.grams;
+    for (const k of NUTRIENT_KEYS) total[k] += r.nutrients[k];
+  }
+
+  return {
+    servings,
+    total_weight_g: round(weight),
+    per_recipe: scale(total, 1),
+    per_serving: scale(total, 1 / servings),
+    per_100g: weight > 0 ? scale(total, 100 / weight) : zero(),
+    ingredients: resolved,
+    unresolved,
+  };
+}
+
+// ── tool spec ──────────────────────────────────────────────────────────────
+
+const NUTRIENT_TOTALS_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: Object.fromEntries(NUTRIENT_KEYS.map((k) => [k, { type: "number" }])),
+};
+
+export const RECIPE_TOOLS = [
+  statelessTool({
+    name: "calculate_recipe_nutrition",
+    description:
+      "Calculate a recipe's nutrition from its ingredients. Each ingredient is a barcode or a plain name " +
+      "(searched on OpenFoodFacts) with a quantity and unit. Returns per-recipe, per-serving and per-100g " +
+      "totals, the matched product per ingredient, and the ingredients that could not be resolved.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ingredients: {
+          type: "array",
+          description: "Recipe ingredients",
+          minItems: 1,
+          maxItems: 30,
+          items: {
+            type: "object",
+            properties: {
+              barcode: { type: "string", description: "Product barcode, if known" },
+              name: { type: "string", description: "Ingredient name, e.g. 'wheat flour'" },
+              quantity: { type: "number", description: "Amount in the given unit" },
+              // no enum: aliases ("grams", "cups") are normalised, and an unknown
+              // unit is reported for that ingredient rather than failing the call
+              unit: {
+                type: "string",
+                description:
+                  "g, kg, mg, oz, lb, ml, cl, dl, l, tsp, tbsp, cup, fl_oz, or piece / serving / package (weighed from the product's data)",
+              },
+            },
+            required: ["quantity", "unit"],
+          },
+        },
+        servings: { type: "number", description: "Number of servings the recipe makes (default 1)" },
+        ...LOCALE_PARAMETERS,
+      },
+      required: ["ingredients"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        servings: { type: "number" },
+        total_weight_g: { type: "number" },
+        per_recipe: NUTRIENT_TOTALS_SCHEMA,
+        per_serving: NUTRIENT_TOTALS_SCHEMA,
+        per_100g: NUTRIENT_TOTALS_SCHEMA,
+        ingredients: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              ingredient: { type: "string" },
+              code: { type: "string" },
+              product_name: { type: "string" },
+              grams: { type: "number" },
+              nutrients: NUTRIENT_TOTALS_SCHEMA,
+              missing_nutrients: { type: "array", items: { type: "string" } },
+              note: { type: "string" },
+            },
+          },
+        },
+        unresolved: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { ingredient: { type: "string" }, reason: { type: "string" } },
+          },
+        },
+      },
+      required: ["servings", "total_weight_g", "per_recipe", "per_serving", "per_100g", "ingredients", "unresolved"],
+    },
+    handler: calculateRecipeNutrition,
+  }),
+];
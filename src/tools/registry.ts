@@ -0,0 +1,105 @@
+/**
+ * Tool registry
+ *
+ * @developer Eduardo Arana
+ *
+ * Every tool is declared once, as a `ToolSpec`: name, description, input
+ * and output JSON Schemas and its handler. The LLM function-calling list,
+ * the MCP `tools/list` response and the direct dispatchers are all
+ * generated from the specs (see `./index`), and arguments are checked
+ * against the input schema before any tool runs.
+ *
+ * Agent-scoped tools (dietary profile, food diary, schedules) keep their
+ * state in the user's NutriAgent instance: their handlers take an
+ * `AgentToolContext` and only run there (see `src/agent/agent-tools.ts`).
+ */
+
+import type { DiaryStore } from "../agent/diary";
+import type { DietaryProfile, ProfileStore } from "../agent/profile";
+import type { ScheduleService } from "../agent/schedules";
+import { ToolError } from "./errors";
+import type { OffLocale } from "./locale";
+import { formatFieldError, validate, type FieldError, type JsonSchema } from "./schema";
+
+interface ToolSpecBase {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+  /** Shape of the result, for clients that read it as data. */
+  outputSchema: JsonSchema;
+}
+
+export interface StatelessToolSpec<A extends Record<string, unknown> = Record<string, unknown>>
+  extends ToolSpecBase {
+  scope: "stateless";
+  /** Runs in-process with arguments that passed `inputSchema`. */
+  handler(args: A, signal?: AbortSignal): Promise<unknown>;
+}
+
+/** The user's agent instance, as seen by the agent-scoped tools. */
+export interface AgentToolContext {
+  profiles: ProfileStore;
+  diary: DiaryStore;
+  schedules: ScheduleService;
+  /** The user's timezone (reported by the browser, if known): diary days and new schedules use it. */
+  timezone: string;
+  /** Default country / language for product lookups. */
+  locale: OffLocale;
+  /** Called after a tool changed the profile (e.g. to notify open tabs). */
+  onProfileChange?: (profile: DietaryProfile) => void;
+}
+
+export interface AgentToolSpec<A extends Record<string, unknown> = Record<string, unknown>>
+  extends ToolSpecBase {
+  scope: "agent";
+  /** Runs on the user's agent instance with arguments that passed `inputSchema`. */
+  handler(args: A, ctx: AgentToolContext, signal?: AbortSignal): unknown;
+}
+
+export type ToolSpec = StatelessToolSpec | AgentToolSpec;
+
+/** Declare a stateless tool; `A` is the argument shape its input schema guarantees. */
+export function statelessTool<A extends Record<string, unknown>>(
+  spec: Omit<StatelessToolSpec<A>, "scope">
+): StatelessToolSpec {
+  return { scope: "stateless", ...spec };
+}
+
+/** Declare a tool executed by the user's agent instance; `A` as for `statelessTool`. */
+export function agentTool<A extends Record<string, unknown>>(
+  spec: Omit<AgentToolSpec<A>, "scope">
+): AgentToolSpec {
+  return { scope: "agent", ...spec };
+}
+
+/** Arguments that do not match a tool's input schema; `errors` lists every bad field. */
+export class InvalidArgumentsError extends ToolError {
+  readonly errors: FieldError[];
+
+  constructor(tool: string, errors: FieldError[]) {
+    super(`Invalid arguments for ${tool}: ${errors.map(formatFieldError).join("; ")}`, "invalid_arguments", {
+      tool,
+      errors,
+    });
+    this.name = "InvalidArgumentsError";
+    this.errors = errors;
+  }
+}
+
+/** Check arguments against the tool's input schema; throws `InvalidArgumentsError`. */
+export function validateArguments(tool: ToolSpec, args: unknown): Record<string, unknown> {
+  const errors = validate(tool.inputSchema, args);
+  if (errors.length > 0) throw new InvalidArgumentsError(tool.name, errors);
+  return args as Record<string, unknown>;
+}
+
+/** The tool in OpenAI function-calling format, as offered to the LLM. */
+export function functionDefinition(tool: ToolSpec): {
+  type: "function";
+  function: { name: string; description: string; parameters: JsonSchema };
+} {
+  return {
+    type: "function",
+    function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+  };
+}
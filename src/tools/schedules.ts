@@ -0,0 +1,97 @@
+/**
+ * Schedule tools
+ *
+ * @developer Eduardo Arana
+ *
+ * Tool definitions for scheduled nutrition summaries and reminders. The
+ * schedules belong to the user's NutriAgent instance (see
+ * `src/agent/schedules.ts`), so like the profile tools they are executed
+ * by the agent rather than in-process by the MCP server.
+ */
+
+import { parseScheduleRequest } from "../agent/schedules";
+import { agentTool } from "./registry";
+import type { JsonSchema } from "./schema";
+
+const SCHEDULE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    kind: { type: "string", enum: ["summary", "reminder"] },
+    time: { type: "string", description: "Local time of day, HH:MM" },
+    days: { type: "array", items: { type: "integer" }, description: "Weekdays, 0 = Sunday … 6 = Saturday" },
+    timezone: { type: "string" },
+    message: { type: "string" },
+    createdAt: { type: "integer" },
+    nextRunAt: { type: "integer", description: "Epoch milliseconds of the next run" },
+    description: { type: "string" },
+  },
+  required: ["id", "kind", "time", "days", "timezone", "nextRunAt", "description"],
+};
+
+export const SCHEDULE_TOOLS = [
+  agentTool({
+    name: "create_schedule",
+    description:
+      "Schedule a recurring message for the user: a 'summary' (their day's diary totals against their goal, e.g. " +
+      "'send me a summary every evening at 9pm') or a 'reminder' with a short text (e.g. 'remind me to log lunch'). " +
+      "Times are in the user's local timezone. Ask for the time if the user did not give one.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        kind: { type: "string", enum: ["summary", "reminder"], description: "What to send" },
+        time: { type: "string", description: "Local time of day, e.g. '21:00' or '9pm'" },
+        days: {
+          description: "'daily' (default), 'weekdays', 'weekends' or a list of weekdays, e.g. ['mon', 'thu']",
+          anyOf: [
+            { type: "string", enum: ["daily", "weekdays", "weekends"] },
+            { type: "array", items: { type: "string" } },
+          ],
+        },
+        message: { type: "string", description: "Reminder text (required for reminders), e.g. 'Log your lunch'" },
+        timezone: {
+          type: "string",
+          description: "IANA timezone, e.g. 'Europe/Madrid'. Defaults to the user's browser timezone.",
+        },
+      },
+      required: ["kind", "time"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: { scheduled: SCHEDULE_SCHEMA },
+      required: ["scheduled"],
+    },
+    handler: async (args, ctx) => ({
+      scheduled: await ctx.schedules.create(parseScheduleRequest(args, ctx.timezone)),
+    }),
+  }),
+  agentTool({
+    name: "list_schedules",
+    description: "List the user's scheduled summaries and reminders with their ids and next run time.",
+    inputSchema: { type: "object", properties: {} },
+    outputSchema: {
+      type: "object",
+      properties: { schedules: { type: "array", items: SCHEDULE_SCHEMA } },
+      required: ["schedules"],
+    },
+    handler: (_args, ctx) => ({ schedules: ctx.schedules.list() }),
+  }),
+  agentTool<{ id: string }>({
+    name: "cancel_schedule",
+    description: "Cancel a scheduled summary or reminder by id (from list_schedules).",
+    inputSchema: {
+      type: "object",
+      properties: { id: { type: "string", description: "Schedule id" } },
+      required: ["id"],
+    },
+    outputSchema: {
+      type: "object",
+      properties: { cancelled: { type: "string" } },
+      required: ["cancelled"],
+    },
+    handler: async ({ id }, ctx) => {
+      if (!(await ctx.schedules.cancel(id))) throw new Error(`Schedule ${id} not found`);
+      return { cancelled: id };
+    },
+  }),
+];
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import { findTool, validateArguments } from "./index";
+import { formatFieldError, validate, type JsonSchema } from "./schema";
+
+vi.mock("cloudflare:workers", () => ({ waitUntil: () => {} }));
+
+const messages = (schema: JsonSchema, value: unknown) => validate(schema, value).map(formatFieldError);
+
+describe("validate", () => {
+  it("checks types, with integers as numbers", () => {
+    expect(messages({ type: "number" }, 3)).toEqual([]);
+    expect(messages({ type: "integer" }, 3.5)).toEqual(["arguments must be an integer"]);
+    expect(messages({ type: "number" }, Number.NaN)).toEqual(["arguments must be a number"]);
+    expect(messages({ type: ["string", "null"] }, 1)).toEqual(["arguments must be a string or null"]);
+  });
+
+  it("checks enums", () => {
+    expect(messages({ type: "string", enum: ["a", "b"] }, "c")).toEqual(["arguments must be one of: a, b"]);
+  });
+
+  it("checks numeric, length and item bounds", () => {
+    expect(messages({ type: "number", minimum: 1, maximum: 5 }, 0)).toEqual(["arguments must be at least 1"]);
+    expect(messages({ type: "string", maxLength: 2 }, "abc")).toEqual(["arguments must be at most 2 characters"]);
+    expect(messages({ type: "array", minItems: 1 }, [])).toEqual(["arguments must have at least 1 item"]);
+  });
+
+  it("names nested fields by path", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        nutrients: {
+          type: "array",
+          items: { type: "object", properties: { max: { type: "number" } }, required: ["nutrient"] },
+        },
+      },
+    };
+
+    expect(messages(schema, { nutrients: [{ nutrient: "sugars", max: "5" }, {}] })).toEqual([
+      "nutrients[0].max must be a number",
+      "nutrients[1].nutrient is required",
+    ]);
+  });
+
+  it("rejects unknown parameters only when additionalProperties is false", () => {
+    const schema: JsonSchema = { type: "object", properties: { a: { type: "string" } } };
+
+    expect(messages(schema, { b: 1 })).toEqual([]);
+    expect(messages({ ...schema, additionalProperties: false }, { b: 1 })).toEqual([
+      "b is not a known parameter",
+    ]);
+  });
+
+  it("accepts a value matching any anyOf branch, and reports the branch of its type", () => {
+    const schema: JsonSchema = { anyOf: [{ type: "string", minLength: 2 }, { type: "number" }] };
+
+    expect(messages(schema, 4)).toEqual([]);
+    expect(messages(schema, "a")).toEqual(["arguments must be at least 2 characters"]);
+    expect(messages(schema, true)).toEqual(["arguments must be a string or a number"]);
+  });
+});
+
+describe("validateArguments", () => {
+  const recipe = findTool("calculate_recipe_nutrition")!;
+
+  it("leaves recipe units to the calculator, which understands aliases", () => {
+    const args = {
+      ingredients: ["grams", "cups", "tablespoon", "pieces", "G", "handful"].map((unit) => ({
+        name: "flour",
+        quantity: 1,
+        unit,
+      })),
+    };
+
+    expect(validateArguments(recipe, args)).toBe(args);
+  });
+
+  it("throws naming every invalid field", () => {
+    expect(() => validateArguments(recipe, { ingredients: [{ name: "flour", unit: "g" }] })).toThrow(
+      "ingredients[0].quantity is required"
+    );
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * JSON Schema validation for tool arguments
+ *
+ * @developer Eduardo Arana
+ *
+ * Interprets the subset of JSON Schema the tool definitions use: `type`,
+ * `enum`, `properties` / `required`, `items`, `anyOf` and the length and
+ * numeric bounds. Validator libraries such as Ajv compile schemas with
+ * `new Function`, which Workers do not allow.
+ *
+ * Errors name the offending field by path (`nutrients[0].max`) so the caller
+ * — usually the LLM — can fix exactly that argument.
+ */
+
+export type JsonType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: JsonType | readonly JsonType[];
+  description?: string;
+  enum?: readonly unknown[];
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  anyOf?: readonly JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface FieldError {
+  /** Path of the offending value, e.g. `nutrients[0].max`; "" for the arguments object itself. */
+  path: string;
+  message: string;
+}
+
+/** "nutrients[0].max must be a number" */
+export function formatFieldError({ path, message }: FieldError): string {
+  return `${path || "arguments"} ${message}`;
+}
+
+function hasType(type: JsonType, value: unknown): boolean {
+  switch (type) {
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+const types = (schema: JsonSchema): readonly JsonType[] =>
+  schema.type === undefined ? [] : typeof schema.type === "string" ? [schema.type] : schema.type;
+
+const article = (type: JsonType) => (type === "array" || type === "object" || type === "integer" ? "an" : "a");
+
+/** "a string or null" */
+function describeTypes(list: readonly JsonType[]): string {
+  return list.map((t) => (t === "null" ? "null" : `${article(t)} ${t}`)).join(" or ");
+}
+
+const child = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+/** Every way `value` breaks `schema`; empty when it is valid. */
+export function validate(schema: JsonSchema, value: unknown, path = ""): FieldError[] {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((s) => validate(s, value, path));
+    if (branches.some((errors) => errors.length === 0)) return [];
+    // report against the branch of the value's type, if there is one
+    const typed = schema.anyOf.findIndex((s) => types(s).some((t) => hasType(t, value)));
+    if (typed >= 0) return branches[typed];
+    return [{ path, message: `must be ${describeTypes(schema.anyOf.flatMap(types))}` }];
+  }
+
+  const allowed = types(schema);
+  if (allowed.length > 0 && !allowed.some((t) => hasType(t, value))) {
+    return [{ path, message: `must be ${describeTypes(allowed)}` }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path, message: `must be one of: ${schema.enum.join(", ")}` }];
+  }
+
+  const errors: FieldError[] = [];
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? "" : "s"}` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, i) => errors.push(...validate(items, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (hasType("object", value)) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) errors.push({ path: child(path, key), message: "is required" });
+    }
+    for (const [key, item] of Object.entries(object)) {
+      if (item === undefined) continue;
+      const property = schema.properties?.[key];
+      if (property) errors.push(...validate(property, item, child(path, key)));
+      else if (schema.additionalProperties === false) {
+        errors.push({ path: child(path, key), message: "is not a known parameter" });
+      }
+    }
+  }
+
+  return errors;
+}
@@ -8,24 +8,42 @@
  *   - AUTH_USER:    Basic-auth username  (optional — disables auth if unset)
  *   - AUTH_PASS:    Basic-auth password  (optional — disables auth if unset)
  *   - MCP_API_KEY:  Bearer token for MCP Streamable HTTP server (optional)
+ *   - AGENT_TOKEN_SECRET: HMAC key for agent instance tokens; MCP agent-scoped
+ *                   tools and `nutri://` resources are refused without it
  *   - A2A_API_KEY:  Bearer token for A2A protocol endpoint   (optional)
+ *   - ANTHROPIC_API_KEY: Anthropic API key (only if `anthropic` is in the chain)
  *
  * Vars (set in wrangler.toml [vars]):
- *   - GLM_BASE_URL
+ *   - LLM_PROVIDERS     — ordered fallback chain, e.g. "openai,anthropic,workers-ai"
+ *   - GLM_BASE_URL      — OpenAI-compatible endpoint (provider `openai`)
  *   - GLM_MODEL
+ *   - ANTHROPIC_MODEL   — provider `anthropic`
+ *   - WORKERS_AI_MODEL  — provider `workers-ai` (requires the `AI` binding)
+ *   - CONTEXT_TOKEN_BUDGETS — JSON map of model → history token budget (optional)
+ *   - TOOL_TIMEOUT_MS   — per-call tool timeout in milliseconds (optional)
  */
 export interface Env {
   // Durable Objects
   NUTRI_AGENT: DurableObjectNamespace;
 
+  // Workers AI (optional — only for the `workers-ai` provider)
+  AI?: Ai;
+
   // Secrets
   GLM_API_KEY: string;
   AUTH_USER: string;
   AUTH_PASS: string;
   MCP_API_KEY: string;
+  AGENT_TOKEN_SECRET?: string;
   A2A_API_KEY: string;
+  ANTHROPIC_API_KEY?: string;
 
   // Vars
+  LLM_PROVIDERS?: string;
   GLM_BASE_URL: string;
   GLM_MODEL: string;
+  ANTHROPIC_MODEL?: string;
+  WORKERS_AI_MODEL?: string;
+  CONTEXT_TOKEN_BUDGETS?: string;
+  TOOL_TIMEOUT_MS?: string;
 }
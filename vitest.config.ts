@@ -0,0 +1,13 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  plugins: [
+    {
+      // wrangler.toml imports HTML as text (`[[rules]] type = "Text"`); do the same under test
+      name: "html-as-text",
+      transform(code, id) {
+        if (id.endsWith(".html")) return { code: `export default ${JSON.stringify(code)};`, map: null };
+      },
+    },
+  ],
+});